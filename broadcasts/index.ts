@@ -0,0 +1,158 @@
+import { randomUUID } from "crypto";
+import { Telegram, TelegramError } from "telegraf";
+import { RepositoryLayer } from "../repositories";
+import { IBroadcast, IBroadcastRecipient } from "../types/broadcast";
+
+type BroadcastSenderOptions = {
+  // Сообщений в секунду на все рассылки вместе; лимит Telegram — около 30
+  rate: number;
+  batchSize: number;
+};
+
+// Рассылку ведёт один процесс бота, иначе получатели из одной пачки получат сообщение от каждого.
+// Аренда продлевается перед каждым сообщением, поэтому должна пережить паузу retry_after от Telegram
+const LEASE_TTL = 5 * 60 * 1000;
+
+function leaseName(broadcastId: number): string {
+  return `broadcast:${broadcastId}`;
+}
+
+// Доставляет рассылки из таблицы broadcasts. Состояние каждого получателя хранится в БД,
+// поэтому после перезапуска resume() продолжает с того места, где отправка прервалась.
+class BroadcastSender {
+  private running = new Map<number, Promise<void>>();
+  private stopped = false;
+  private nextSlotAt = 0;
+  private readonly leaseOwner = randomUUID();
+
+  constructor(
+    private readonly telegram: Telegram,
+    private readonly repositories: RepositoryLayer,
+    private readonly options: BroadcastSenderOptions
+  ) {}
+
+  async resume(): Promise<void> {
+    const broadcasts = await this.repositories.broadcastsRepository.getByStatus("sending");
+
+    for (const broadcast of broadcasts) {
+      console.log(`Продолжаю рассылку #${broadcast.id}`);
+      this.start(broadcast.id);
+    }
+  }
+
+  start(broadcastId: number): void {
+    if (this.stopped || this.running.has(broadcastId)) return;
+
+    const run = this.run(broadcastId)
+      .catch((error) => console.error(`Ошибка рассылки #${broadcastId}:`, error))
+      .finally(() => this.running.delete(broadcastId));
+
+    this.running.set(broadcastId, run);
+  }
+
+  // Текущие сообщения дописываются, оставшиеся получатели ждут следующего запуска
+  async stop(): Promise<void> {
+    this.stopped = true;
+    await Promise.all(this.running.values());
+  }
+
+  // Рассылку, которую уже ведёт другой процесс, этот процесс пропускает
+  private async run(broadcastId: number): Promise<void> {
+    if (!(await this.holdLease(broadcastId))) return;
+
+    try {
+      await this.send(broadcastId);
+    } finally {
+      await this.repositories.leasesRepository.release(leaseName(broadcastId), this.leaseOwner);
+    }
+  }
+
+  private async send(broadcastId: number): Promise<void> {
+    const repository = this.repositories.broadcastsRepository;
+
+    while (!this.stopped) {
+      const broadcast = await repository.getOne(broadcastId);
+      if (!broadcast || broadcast.status !== "sending") return;
+
+      const recipients = await repository.getPendingRecipients(broadcastId, this.options.batchSize);
+
+      if (!recipients.length) {
+        await repository.updateProgress(broadcastId);
+        await repository.updateStatus(broadcastId, "completed");
+        await this.notifyAdmin(broadcastId);
+        return;
+      }
+
+      for (const recipient of recipients) {
+        if (this.stopped) break;
+        if (!(await this.holdLease(broadcastId))) return;
+        await this.deliver(broadcast, recipient);
+      }
+
+      await repository.updateProgress(broadcastId);
+    }
+  }
+
+  private async deliver(broadcast: IBroadcast, recipient: IBroadcastRecipient): Promise<void> {
+    const repository = this.repositories.broadcastsRepository;
+
+    for (;;) {
+      await this.throttle();
+
+      try {
+        await this.telegram.copyMessage(recipient.clientTelegramId, broadcast.sourceChatId, broadcast.sourceMessageId);
+        await repository.updateRecipient(broadcast.id, recipient.clientTelegramId, "sent");
+        return;
+      } catch (error) {
+        if (error instanceof TelegramError && error.code === 429) {
+          const retryAfter = error.parameters?.retry_after ?? 1;
+          this.nextSlotAt = Math.max(this.nextSlotAt, Date.now() + retryAfter * 1000);
+          continue;
+        }
+
+        if (error instanceof TelegramError && error.code === 403) {
+          await repository.updateRecipient(broadcast.id, recipient.clientTelegramId, "blocked", error.description);
+          await this.repositories.clientsRepository.update({
+            telegramId: recipient.clientTelegramId,
+            blockedAt: new Date(),
+          });
+          return;
+        }
+
+        const description = error instanceof TelegramError ? error.description : String(error);
+        await repository.updateRecipient(broadcast.id, recipient.clientTelegramId, "failed", description);
+        return;
+      }
+    }
+  }
+
+  // Берёт аренду рассылки или продлевает свою; false — рассылку ведёт другой процесс
+  private holdLease(broadcastId: number): Promise<boolean> {
+    return this.repositories.leasesRepository.acquire(leaseName(broadcastId), this.leaseOwner, LEASE_TTL);
+  }
+
+  // Общий для всех рассылок интервал между сообщениями
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + 1000 / this.options.rate;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+
+  private async notifyAdmin(broadcastId: number): Promise<void> {
+    const broadcast = await this.repositories.broadcastsRepository.getOne(broadcastId);
+    if (!broadcast) return;
+
+    await this.telegram
+      .sendMessage(
+        broadcast.adminTelegramId,
+        `📣 Рассылка #${broadcast.id} завершена.\nДоставлено: ${broadcast.sent} из ${broadcast.total}\nЗаблокировали бота: ${broadcast.blocked}\nОшибок: ${broadcast.failed}`
+      )
+      .catch(console.log);
+  }
+}
+
+export { BroadcastSender, BroadcastSenderOptions };
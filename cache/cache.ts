@@ -0,0 +1,22 @@
+type CacheOptions = {
+  // Время жизни свежей записи, мс
+  ttl: number;
+  // Сколько ещё хранить просроченную запись на случай недоступности API, мс
+  staleTtl: number;
+  maxSize: number;
+};
+
+type CacheEntry<T> = {
+  value: T;
+  expiresAt: number;
+};
+
+interface Cache<T> {
+  // Возвращает запись, даже если она устарела: решение принимает вызывающий код
+  get(key: string): Promise<CacheEntry<T> | undefined>;
+  set(key: string, value: T, tag?: string): Promise<void>;
+  invalidateTag(tag: string): Promise<void>;
+  clear(): Promise<void>;
+}
+
+export { Cache, CacheEntry, CacheOptions };
@@ -0,0 +1,19 @@
+import mysql2 from "mysql2/promise";
+import { Cache, CacheEntry, CacheOptions } from "./cache";
+import { LRUCache } from "./lruCache";
+import { MySQLCache } from "./mysqlCache";
+
+type CacheStoreType = "memory" | "mysql";
+
+function createCache<T>(type: string, namespace: string, options: CacheOptions, pool: mysql2.Pool): Cache<T> {
+  switch (type as CacheStoreType) {
+    case "memory":
+      return new LRUCache<T>(options);
+    case "mysql":
+      return new MySQLCache<T>(pool, namespace, options);
+    default:
+      throw new Error(`Unknown cache store type: ${type}`);
+  }
+}
+
+export { Cache, CacheEntry, CacheOptions, LRUCache, MySQLCache, createCache };
@@ -0,0 +1,47 @@
+import { Cache, CacheEntry, CacheOptions } from "./cache";
+
+type LRUCacheEntry<T> = CacheEntry<T> & { tag?: string };
+
+class LRUCache<T> implements Cache<T> {
+  // Map хранит порядок вставки: первая запись — самая давно использованная
+  private entries = new Map<string, LRUCacheEntry<T>>();
+
+  constructor(private readonly options: CacheOptions) {}
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expiresAt + this.options.staleTtl < Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    return { value: entry.value, expiresAt: entry.expiresAt };
+  }
+
+  async set(key: string, value: T, tag?: string): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, { value, tag, expiresAt: Date.now() + this.options.ttl });
+
+    while (this.entries.size > this.options.maxSize) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    for (const [key, entry] of this.entries) {
+      if (entry.tag === tag) this.entries.delete(key);
+    }
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+export { LRUCache };
@@ -0,0 +1,68 @@
+import mysql2 from "mysql2/promise";
+import { createHash } from "crypto";
+import { Cache, CacheEntry, CacheOptions } from "./cache";
+import {
+  deleteAllQuery,
+  deleteByTagQuery,
+  deleteExpiredQuery,
+  getOneQuery,
+  pruneQuery,
+  touchQuery,
+  upsertQuery,
+} from "./queries";
+
+// Общий для всех процессов бота кэш в таблице api_cache
+class MySQLCache<T> implements Cache<T> {
+  constructor(
+    private readonly pool: mysql2.Pool,
+    private readonly namespace: string,
+    private readonly options: CacheOptions
+  ) {}
+
+  // Ключи и теги хранятся хэшами, чтобы длинные названия разделов влезали в индекс
+  private hash(text: string): string {
+    return createHash("sha256").update(text).digest("hex");
+  }
+
+  private staleBefore(): Date {
+    return new Date(Date.now() - this.options.staleTtl);
+  }
+
+  async get(key: string): Promise<CacheEntry<T> | undefined> {
+    const params = { namespace: this.namespace, cacheKey: this.hash(key), staleBefore: this.staleBefore() };
+    const [data]: any = await this.pool.query(getOneQuery(), params);
+    if (!data[0]) return undefined;
+
+    this.pool.query(touchQuery(), params).catch(console.log);
+
+    const value = typeof data[0].value === "string" ? JSON.parse(data[0].value) : data[0].value;
+    return { value, expiresAt: new Date(data[0].expiresAt).getTime() };
+  }
+
+  async set(key: string, value: T, tag?: string): Promise<void> {
+    await this.pool.query(upsertQuery(), {
+      namespace: this.namespace,
+      cacheKey: this.hash(key),
+      tag: tag ? this.hash(tag) : null,
+      value: JSON.stringify(value),
+      expiresAt: new Date(Date.now() + this.options.ttl),
+    });
+
+    this.prune().catch(console.log);
+  }
+
+  private async prune(): Promise<void> {
+    await this.pool.query(deleteExpiredQuery(), { namespace: this.namespace, staleBefore: this.staleBefore() });
+    await this.pool.query(pruneQuery(), { namespace: this.namespace, maxSize: this.options.maxSize });
+  }
+
+  async invalidateTag(tag: string): Promise<void> {
+    await this.pool.query(deleteByTagQuery(), { namespace: this.namespace, tag: this.hash(tag) });
+  }
+
+  async clear(): Promise<void> {
+    await this.pool.query(deleteAllQuery(), { namespace: this.namespace });
+  }
+}
+
+export { MySQLCache };
@@ -0,0 +1,20 @@
+const getOneQuery = () =>
+  `SELECT value, expiresAt FROM api_cache WHERE namespace = :namespace AND cacheKey = :cacheKey AND expiresAt > :staleBefore;`;
+
+const touchQuery = () =>
+  `UPDATE api_cache SET accessedAt = CURRENT_TIMESTAMP WHERE namespace = :namespace AND cacheKey = :cacheKey;`;
+
+const upsertQuery = () =>
+  `INSERT INTO api_cache(namespace, cacheKey, tag, value, expiresAt) VALUES(:namespace, :cacheKey, :tag, :value, :expiresAt) ON DUPLICATE KEY UPDATE tag = VALUES(tag), value = VALUES(value), expiresAt = VALUES(expiresAt), accessedAt = CURRENT_TIMESTAMP;`;
+
+// Оставляет maxSize последних использованных записей пространства имён
+const pruneQuery = () =>
+  `DELETE FROM api_cache WHERE namespace = :namespace AND cacheKey NOT IN (SELECT cacheKey FROM (SELECT cacheKey FROM api_cache WHERE namespace = :namespace ORDER BY accessedAt DESC LIMIT :maxSize) AS recent);`;
+
+const deleteExpiredQuery = () => `DELETE FROM api_cache WHERE namespace = :namespace AND expiresAt <= :staleBefore;`;
+
+const deleteByTagQuery = () => `DELETE FROM api_cache WHERE namespace = :namespace AND tag = :tag;`;
+
+const deleteAllQuery = () => `DELETE FROM api_cache WHERE namespace = :namespace;`;
+
+export { getOneQuery, touchQuery, upsertQuery, pruneQuery, deleteExpiredQuery, deleteByTagQuery, deleteAllQuery };
@@ -0,0 +1,57 @@
+import { CallbackMap } from "../types/session";
+
+type CallbackMapOptions = {
+  // Сколько последних значений хранить на пользователя
+  limit: number;
+  // Время жизни значения, мс
+  ttl: number;
+};
+
+// Кнопки с версией состояния: v<версия>:<действие>
+const VERSIONED_CALLBACK_PATTERN = /^v(\d+):(.+)$/;
+
+function isAlive(entry: unknown, now: number): boolean {
+  // В старых сессиях значения хранились строками без срока жизни
+  return typeof entry === "object" && entry !== null && (entry as { expiresAt: number }).expiresAt > now;
+}
+
+// Просроченные записи удаляются, а при переполнении вытесняются самые старые
+function storeCallback(
+  map: CallbackMap | undefined,
+  key: string,
+  value: string,
+  options: CallbackMapOptions,
+  now = Date.now()
+): CallbackMap {
+  const entries = Object.keys(map || {})
+    .filter((entryKey) => entryKey !== key && isAlive(map![entryKey], now))
+    .map((entryKey) => [entryKey, map![entryKey]] as const);
+
+  entries.push([key, { value, expiresAt: now + options.ttl }]);
+
+  return entries.slice(-options.limit).reduce<CallbackMap>((result, [entryKey, entry]) => {
+    result[entryKey] = entry;
+    return result;
+  }, {});
+}
+
+function resolveCallback(map: CallbackMap | undefined, key: string, now = Date.now()): string | null {
+  const entry = map?.[key];
+  return entry && isAlive(entry, now) ? entry.value : null;
+}
+
+function versionCallback(version: number, action: string): string {
+  return `v${version}:${action}`;
+}
+
+function parseVersionedCallback(data: string): { version: number; action: string } | null {
+  const match = data.match(VERSIONED_CALLBACK_PATTERN);
+  return match ? { version: Number(match[1]), action: match[2] } : null;
+}
+
+// Шаблон для bot.action: номера групп совпадают с шаблоном без версии
+function versioned(pattern: string): RegExp {
+  return new RegExp(`^v\\d+:${pattern}$`);
+}
+
+export { CallbackMapOptions, parseVersionedCallback, resolveCallback, storeCallback, versionCallback, versioned };
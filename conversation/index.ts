@@ -0,0 +1,22 @@
+import { ConversationEvent, INITIAL_STATE, hasDiagnosis, nextState } from "./stateMachine";
+import {
+  CallbackMapOptions,
+  parseVersionedCallback,
+  resolveCallback,
+  storeCallback,
+  versionCallback,
+  versioned,
+} from "./callbackMap";
+
+export {
+  CallbackMapOptions,
+  ConversationEvent,
+  INITIAL_STATE,
+  hasDiagnosis,
+  nextState,
+  parseVersionedCallback,
+  resolveCallback,
+  storeCallback,
+  versionCallback,
+  versioned,
+};
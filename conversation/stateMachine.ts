@@ -0,0 +1,50 @@
+import { ConversationState } from "../types/session";
+
+type ConversationEvent =
+  // /start без ссылки
+  | "start"
+  | "ask_diagnosis"
+  | "show_diagnoses"
+  // Выбор из списка найденных диагнозов
+  | "select_diagnosis"
+  // Избранное, история и ссылки открывают диагноз или раздел из любого состояния
+  | "open_diagnosis"
+  | "select_section"
+  | "open_section"
+  | "back_to_sections";
+
+type Transition = {
+  from: ConversationState[] | "any";
+  to: ConversationState;
+};
+
+const INITIAL_STATE: ConversationState = "idle";
+
+const TRANSITIONS: { [event in ConversationEvent]: Transition } = {
+  start: { from: "any", to: "idle" },
+  ask_diagnosis: { from: "any", to: "awaiting_diagnosis" },
+  // Текст в начальном состоянии тоже считается поиском диагноза
+  show_diagnoses: { from: ["idle", "awaiting_diagnosis", "choosing_diagnosis"], to: "choosing_diagnosis" },
+  select_diagnosis: { from: ["choosing_diagnosis"], to: "browsing_sections" },
+  open_diagnosis: { from: "any", to: "browsing_sections" },
+  select_section: { from: ["browsing_sections", "reading_section"], to: "reading_section" },
+  open_section: { from: "any", to: "reading_section" },
+  back_to_sections: { from: ["browsing_sections", "reading_section"], to: "browsing_sections" },
+};
+
+// В этих состояниях выбран диагноз, и текст считается вопросом по его разделам
+const DIAGNOSIS_STATES: ConversationState[] = ["browsing_sections", "reading_section"];
+
+// null — переход из текущего состояния запрещён
+function nextState(state: ConversationState, event: ConversationEvent): ConversationState | null {
+  const transition = TRANSITIONS[event];
+  if (transition.from !== "any" && !transition.from.includes(state)) return null;
+
+  return transition.to;
+}
+
+function hasDiagnosis(state: ConversationState): boolean {
+  return DIAGNOSIS_STATES.includes(state);
+}
+
+export { ConversationEvent, INITIAL_STATE, hasDiagnosis, nextState };
@@ -5,15 +5,200 @@ CREATE TABLE clients (
     username VARCHAR(256) NOT NULL,
     firstName VARCHAR(256) NOT NULL,
     lastName VARCHAR(256),
+    language VARCHAR(8),
+    role ENUM('user', 'admin') NOT NULL DEFAULT 'user',
+    status ENUM('active', 'pending', 'blocked') NOT NULL DEFAULT 'active',
+    blockedAt TIMESTAMP NULL,
     createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
 CREATE TABLE client_logs (
     id INT PRIMARY KEY AUTO_INCREMENT,
     createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
-    text VARCHAR(2048) NOT NULL,
+    text TEXT NOT NULL,
 
-    client_telegram_id BIGINT NOT NULL,
+    clientTelegramId BIGINT NOT NULL,
 
-    FOREIGN KEY(client_telegram_id) REFERENCES clients(telegramId) 
-);
\ No newline at end of file
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId)
+);
+
+CREATE TABLE client_events (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    type ENUM('search', 'diagnosis_selected', 'section_viewed', 'question', 'error') NOT NULL,
+    source ENUM('chat', 'inline', 'icd', 'voice') NOT NULL DEFAULT 'chat',
+    query VARCHAR(512),
+    diagnosis VARCHAR(512),
+    section VARCHAR(512),
+    resultCount INT,
+    latencyMs INT,
+    error VARCHAR(1024),
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId),
+    INDEX(type, createdAt),
+    INDEX(clientTelegramId, createdAt)
+);
+
+CREATE TABLE sessions (
+    telegramId BIGINT NOT NULL PRIMARY KEY,
+    state JSON NOT NULL,
+    updatedAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP
+);
+
+CREATE TABLE api_cache (
+    namespace VARCHAR(32) NOT NULL,
+    cacheKey CHAR(64) NOT NULL,
+    tag CHAR(64),
+    value JSON NOT NULL,
+    expiresAt TIMESTAMP(3) NOT NULL,
+    accessedAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY(namespace, cacheKey),
+    INDEX(namespace, tag),
+    INDEX(namespace, accessedAt)
+);
+
+CREATE TABLE favorites (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    diagnosis VARCHAR(512) NOT NULL,
+    section VARCHAR(512),
+    position INT NOT NULL DEFAULT 0,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    INDEX(clientTelegramId, position)
+);
+
+CREATE TABLE search_history (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    query VARCHAR(512),
+    diagnosis VARCHAR(512),
+    section VARCHAR(512),
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    INDEX(clientTelegramId, createdAt)
+);
+
+CREATE TABLE deep_links (
+    token VARCHAR(16) NOT NULL PRIMARY KEY,
+    diagnosis VARCHAR(512) NOT NULL,
+    section VARCHAR(512),
+    clientTelegramId BIGINT NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId),
+    INDEX(diagnosis(191))
+);
+
+CREATE TABLE deep_link_clicks (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    token VARCHAR(16) NOT NULL,
+    clientTelegramId BIGINT NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(token) REFERENCES deep_links(token) ON DELETE CASCADE,
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId)
+);
+
+CREATE TABLE admin_audit_log (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    adminTelegramId BIGINT NOT NULL,
+    action VARCHAR(64) NOT NULL,
+    payload VARCHAR(1024),
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(adminTelegramId) REFERENCES clients(telegramId),
+    INDEX(createdAt)
+);
+
+CREATE TABLE broadcasts (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    adminTelegramId BIGINT NOT NULL,
+    sourceChatId BIGINT NOT NULL,
+    sourceMessageId INT NOT NULL,
+    segmentDays INT,
+    status ENUM('sending', 'completed', 'cancelled') NOT NULL DEFAULT 'sending',
+    total INT NOT NULL DEFAULT 0,
+    sent INT NOT NULL DEFAULT 0,
+    failed INT NOT NULL DEFAULT 0,
+    blocked INT NOT NULL DEFAULT 0,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completedAt TIMESTAMP NULL,
+
+    FOREIGN KEY(adminTelegramId) REFERENCES clients(telegramId),
+    INDEX(status)
+);
+
+CREATE TABLE broadcast_recipients (
+    broadcastId INT NOT NULL,
+    clientTelegramId BIGINT NOT NULL,
+    status ENUM('pending', 'sent', 'failed', 'blocked') NOT NULL DEFAULT 'pending',
+    error VARCHAR(512),
+    sentAt TIMESTAMP NULL,
+
+    PRIMARY KEY(broadcastId, clientTelegramId),
+    FOREIGN KEY(broadcastId) REFERENCES broadcasts(id) ON DELETE CASCADE,
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    INDEX(broadcastId, status)
+);
+
+CREATE TABLE invite_codes (
+    code VARCHAR(16) NOT NULL PRIMARY KEY,
+    maxUses INT NOT NULL DEFAULT 1,
+    uses INT NOT NULL DEFAULT 0,
+    expiresAt TIMESTAMP NULL,
+    createdBy BIGINT NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(createdBy) REFERENCES clients(telegramId)
+);
+
+CREATE TABLE rate_limits (
+    bucketKey VARCHAR(64) NOT NULL PRIMARY KEY,
+    tokens DOUBLE NOT NULL,
+    updatedAt BIGINT NOT NULL
+);
+
+CREATE TABLE known_diagnoses (
+    name VARCHAR(512) NOT NULL PRIMARY KEY,
+    icd VARCHAR(16),
+    lastSeenAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX(lastSeenAt)
+);
+
+CREATE TABLE subscriptions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    diagnosis VARCHAR(512) NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    UNIQUE(clientTelegramId, diagnosis),
+    INDEX(diagnosis(191))
+);
+
+CREATE TABLE guideline_snapshots (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    diagnosis VARCHAR(512) NOT NULL,
+    section VARCHAR(512) NOT NULL,
+    contentHash CHAR(64) NOT NULL,
+    content MEDIUMTEXT NOT NULL,
+
+    INDEX(diagnosis(191))
+);
+
+CREATE TABLE guideline_checks (
+    diagnosis VARCHAR(512) NOT NULL PRIMARY KEY,
+    checkedAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE leases (
+    name VARCHAR(64) NOT NULL PRIMARY KEY,
+    owner VARCHAR(64) NOT NULL,
+    expiresAt DATETIME(3) NOT NULL
+);
@@ -0,0 +1,56 @@
+// Остаются буквы любого алфавита: в казахских названиях есть ә, ғ, қ, ң, ө, ұ, ү, һ, і
+function normalizeText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ё/g, "е")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+// Триграммы слова с границами: « кость » → « ко», «кос», «ост», «сть», «ть »
+function trigrams(word: string): Set<string> {
+  const padded = ` ${word} `;
+  const result = new Set<string>();
+
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    result.add(padded.slice(i, i + 3));
+  }
+
+  return result;
+}
+
+// Коэффициент Дайса по триграммам, от 0 до 1
+function trigramSimilarity(a: string, b: string): number {
+  const left = trigrams(a);
+  const right = trigrams(b);
+  const common = Array.from(left).filter((trigram) => right.has(trigram)).length;
+
+  return (2 * common) / (left.size + right.size);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+// Начало слова засчитывается полностью: «гастр» — это «гастрит», а не опечатка
+function wordSimilarity(queryWord: string, word: string): number {
+  if (queryWord.length >= 3 && word.startsWith(queryWord)) return 1;
+
+  const editSimilarity = 1 - levenshtein(queryWord, word) / Math.max(queryWord.length, word.length);
+  return Math.max(editSimilarity, trigramSimilarity(queryWord, word));
+}
+
+export { normalizeText, trigrams, trigramSimilarity, levenshtein, wordSimilarity };
@@ -0,0 +1,146 @@
+import { readFileSync } from "fs";
+import { PublicInterface } from "../repositories";
+import { KnownDiagnosesRepository } from "../repositories/knownDiagnosesRepository";
+import { array, map, object, oneOf, optional, string } from "../repositories/apiRepository/schema";
+import { IDiagnosis } from "../types/knowledgeBase";
+import { normalizeText, trigrams, trigramSimilarity, wordSimilarity } from "./fuzzy";
+import { switchKeyboardLayout, transliterate } from "./keyboardLayout";
+
+type DiagnosisIndexOptions = {
+  // JSON-файл с названиями диагнозов: ["Бронхиальная астма", ...] или [{ "name": "...", "icd": "J45" }, ...]
+  seedFile?: string;
+  // Сколько последних диагнозов из БД загружать при запуске
+  loadLimit: number;
+};
+
+type IndexEntry = {
+  diagnosis: IDiagnosis;
+  text: string;
+  words: string[];
+};
+
+// Ниже этого среднего сходства слов запроса с названием диагноз не предлагается
+const MIN_WORD_SCORE = 0.6;
+// Доля сходства всего названия в итоговой оценке: различает диагнозы с одинаковыми словами
+const TEXT_SCORE_WEIGHT = 0.2;
+// Сколько диагнозов с наибольшим числом общих триграмм оценивается полностью: Левенштейн для всего указателя
+// на каждый запрос слишком медленный
+const MAX_CANDIDATES = 200;
+
+const seedSchema = array(
+  oneOf<{ name: string; icd: string | null }>(
+    map(string, (name) => ({ name, icd: null })),
+    object({ name: string, icd: optional(string) })
+  )
+);
+
+// Локальный указатель известных диагнозов: поиск с опечатками, неверной раскладкой и транслитом.
+// Пополняется ответами API и сохраняет новые названия в БД, поэтому работает и когда API недоступен
+class DiagnosisIndex {
+  private entries = new Map<string, IndexEntry>();
+  // Триграмма слова → названия диагнозов, в словах которых она есть
+  private trigramIndex = new Map<string, Set<string>>();
+
+  constructor(
+    private readonly repository: PublicInterface<KnownDiagnosesRepository>,
+    private readonly options: DiagnosisIndexOptions
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  async load(): Promise<void> {
+    if (this.options.seedFile) {
+      const seed = seedSchema(JSON.parse(readFileSync(this.options.seedFile, "utf8")), this.options.seedFile);
+      seed.forEach(({ name, icd }) => this.put({ id: name, name, icd }));
+    }
+
+    const known = await this.repository.getAll(this.options.loadLimit);
+    known.forEach(({ name, icd }) => this.put({ id: name, name, icd }));
+  }
+
+  // В БД пишутся только новые диагнозы и впервые полученные коды МКБ
+  add(diagnoses: IDiagnosis[]): void {
+    for (const diagnosis of diagnoses) {
+      const existing = this.entries.get(diagnosis.name);
+      if (existing && (existing.diagnosis.icd || !diagnosis.icd)) continue;
+
+      this.put(diagnosis);
+      this.repository
+        .upsert({ name: diagnosis.name, icd: diagnosis.icd })
+        .catch((error) => console.error("Ошибка при сохранении диагноза в указатель:", error));
+    }
+  }
+
+  // Запрос проверяется как есть, в другой раскладке и в транслитерации; у диагноза берётся лучший вариант.
+  // Оцениваются только диагнозы, у которых есть общие с запросом триграммы
+  search(query: string, limit: number): IDiagnosis[] {
+    const variants = [query, switchKeyboardLayout(query), transliterate(query)]
+      .map(normalizeText)
+      .filter((variant, index, all) => variant && all.indexOf(variant) === index);
+    if (!variants.length) return [];
+
+    const scored: { diagnosis: IDiagnosis; score: number }[] = [];
+
+    for (const entry of this.findCandidates(variants)) {
+      const score = Math.max(...variants.map((variant) => this.score(variant, entry)));
+      if (score > 0) scored.push({ diagnosis: entry.diagnosis, score });
+    }
+
+    return scored
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit)
+      .map((item) => item.diagnosis);
+  }
+
+  // Диагнозы с наибольшим числом общих триграмм со словами всех вариантов запроса
+  private findCandidates(variants: string[]): IndexEntry[] {
+    const hits = new Map<string, number>();
+
+    for (const variant of variants) {
+      for (const word of variant.split(" ")) {
+        for (const trigram of Array.from(trigrams(word))) {
+          this.trigramIndex.get(trigram)?.forEach((name) => hits.set(name, (hits.get(name) ?? 0) + 1));
+        }
+      }
+    }
+
+    return Array.from(hits)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([name]) => this.entries.get(name)!);
+  }
+
+  // 0 — диагноз не подходит; иначе среднее сходство слов запроса, уточнённое сходством всего названия
+  private score(query: string, entry: IndexEntry): number {
+    const queryWords = query.split(" ");
+    const wordScore =
+      queryWords.reduce(
+        (sum, queryWord) => sum + Math.max(...entry.words.map((word) => wordSimilarity(queryWord, word))),
+        0
+      ) / queryWords.length;
+
+    if (wordScore < MIN_WORD_SCORE) return 0;
+
+    return wordScore * (1 - TEXT_SCORE_WEIGHT) + trigramSimilarity(query, entry.text) * TEXT_SCORE_WEIGHT;
+  }
+
+  private put(diagnosis: IDiagnosis): void {
+    const text = normalizeText(diagnosis.name);
+    if (!text) return;
+
+    const words = text.split(" ");
+    this.entries.set(diagnosis.name, { diagnosis, text, words });
+
+    for (const word of words) {
+      for (const trigram of Array.from(trigrams(word))) {
+        const names = this.trigramIndex.get(trigram) ?? new Set<string>();
+        names.add(diagnosis.name);
+        this.trigramIndex.set(trigram, names);
+      }
+    }
+  }
+}
+
+export { DiagnosisIndex, DiagnosisIndexOptions, switchKeyboardLayout, transliterate };
@@ -0,0 +1,38 @@
+// Клавиши в одном порядке для раскладок QWERTY и ЙЦУКЕН: «ryjcnm» набрано в латинской раскладке вместо «кность»
+const LATIN_KEYS = "`qwertyuiop[]asdfghjkl;'zxcvbnm,.";
+const CYRILLIC_KEYS = "ёйцукенгшщзхъфывапролджэячсмитьбю";
+
+// Многобуквенные сочетания проверяются раньше одиночных букв
+const TRANSLITERATION: [string, string][] = (
+  "shch:щ sch:щ zh:ж kh:х ts:ц ch:ч sh:ш yu:ю ya:я yo:ё " +
+  "a:а b:б c:ц d:д e:е f:ф g:г h:х i:и j:й k:к l:л m:м n:н o:о p:п q:к r:р s:с t:т u:у v:в w:в x:кс y:ы z:з"
+)
+  .split(" ")
+  .map((pair) => pair.split(":") as [string, string]);
+
+// Текст, набранный не в той раскладке, в обе стороны; символы вне раскладок остаются как есть
+function switchKeyboardLayout(text: string): string {
+  return Array.from(text.toLowerCase(), (char) => {
+    const latin = LATIN_KEYS.indexOf(char);
+    if (latin !== -1) return CYRILLIC_KEYS[latin];
+
+    const cyrillic = CYRILLIC_KEYS.indexOf(char);
+    return cyrillic !== -1 ? LATIN_KEYS[cyrillic] : char;
+  }).join("");
+}
+
+// Русские названия, записанные латиницей: «ostryi gastrit» → «острыи гастрит»
+function transliterate(text: string): string {
+  let result = "";
+  const lower = text.toLowerCase();
+
+  for (let i = 0; i < lower.length;) {
+    const pair = TRANSLITERATION.find(([latin]) => lower.startsWith(latin, i));
+    result += pair ? pair[1] : lower[i];
+    i += pair ? pair[0].length : 1;
+  }
+
+  return result;
+}
+
+export { switchKeyboardLayout, transliterate };
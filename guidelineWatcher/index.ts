@@ -0,0 +1,300 @@
+import { createHash, randomUUID } from "crypto";
+import { Markup, Telegram, TelegramError } from "telegraf";
+import { DEFAULT_LOCALE, Translator, createTranslator, isLocale } from "../i18n";
+import { RepositoryLayer } from "../repositories";
+import { APIError, APIUnavailableError } from "../repositories/apiRepository";
+import { IGuidelineSnapshot, ISubscriber } from "../types/subscription";
+import { DiffLine, diffLines, formatDiffPreview } from "../utils/lineDiff";
+import { escapeHTML, toPlainText } from "../utils/markdownRenderer";
+import { isHiddenSection } from "../utils/sectionKeys";
+
+type GuidelineWatcherOptions = {
+  // Как часто перепроверять каждую рекомендацию, мс; 0 — только по вызову check()
+  interval: number;
+  // Пауза между запросами к API, мс; после ошибок она удваивается, но не больше maxBackoff
+  requestDelay: number;
+  maxBackoff: number;
+  // Уведомлений в секунду; лимит Telegram — около 30
+  rate: number;
+};
+
+type SectionSnapshot = Pick<IGuidelineSnapshot, "section" | "contentHash" | "content">;
+
+type SectionChange =
+  { type: "added" | "removed"; section: string } | { type: "changed"; section: string; diff: DiffLine[] };
+
+// Планировщик просыпается чаще интервала: после перезапуска бота проверка не откладывается на весь интервал,
+// а сроки каждой рекомендации считаются по времени её последней проверки в БД
+const CHECK_TICK = 10 * 60 * 1000;
+const FIRST_CHECK_DELAY = 60 * 1000;
+
+// Проверку ведёт один процесс бота, иначе подписчики получат уведомление от каждого.
+// Аренда продлевается перед каждым диагнозом и разделом, поэтому должна пережить паузу maxBackoff и рассылку
+const LEASE_NAME = "guideline_watcher";
+const LEASE_TTL = 15 * 60 * 1000;
+
+// Уведомление должно уместиться в 4096 символов сообщения Telegram
+const NOTIFICATION_SECTIONS_LIMIT = 8;
+const PREVIEW_SECTIONS_LIMIT = 3;
+const PREVIEW_LINES_LIMIT = 6;
+const PREVIEW_LINE_LENGTH = 120;
+const SECTION_TITLE_LENGTH = 100;
+
+function hashContent(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+// Разделы в порядке новой версии, удалённые — в конце. Правка только разметки или пустых строк изменением не считается
+function compareSnapshots(previous: SectionSnapshot[], current: SectionSnapshot[]): SectionChange[] {
+  const before = new Map(previous.map((snapshot) => [snapshot.section, snapshot]));
+  const after = new Set(current.map((snapshot) => snapshot.section));
+  const changes: SectionChange[] = [];
+
+  for (const snapshot of current) {
+    const old = before.get(snapshot.section);
+
+    if (!old) {
+      changes.push({ type: "added", section: snapshot.section });
+    } else if (old.contentHash !== snapshot.contentHash) {
+      const diff = diffLines(toPlainText(old.content), toPlainText(snapshot.content));
+      if (diff.length) changes.push({ type: "changed", section: snapshot.section, diff });
+    }
+  }
+
+  for (const snapshot of previous) {
+    if (!after.has(snapshot.section)) changes.push({ type: "removed", section: snapshot.section });
+  }
+
+  return changes;
+}
+
+function formatNotification(t: Translator, diagnosis: string, changes: SectionChange[]): string {
+  const lines = [t("updates.title", { diagnosis: escapeHTML(diagnosis) }), ""];
+  let previews = 0;
+
+  for (const change of changes.slice(0, NOTIFICATION_SECTIONS_LIMIT)) {
+    const section = escapeHTML(truncate(change.section, SECTION_TITLE_LENGTH));
+
+    if (change.type !== "changed") {
+      lines.push(t(change.type === "added" ? "updates.sectionAdded" : "updates.sectionRemoved", { section }));
+      continue;
+    }
+
+    const added = change.diff.filter((line) => line.type === "added").length;
+    lines.push(t("updates.sectionChanged", { section, added, removed: change.diff.length - added }));
+
+    if (previews++ < PREVIEW_SECTIONS_LIMIT) {
+      const preview = formatDiffPreview(change.diff, PREVIEW_LINES_LIMIT, PREVIEW_LINE_LENGTH);
+      lines.push(`<pre>${escapeHTML(preview.lines.join("\n"))}</pre>`);
+      if (preview.hidden) lines.push(t("updates.moreLines", { count: preview.hidden }));
+    }
+  }
+
+  if (changes.length > NOTIFICATION_SECTIONS_LIMIT) {
+    lines.push(t("updates.moreSections", { count: changes.length - NOTIFICATION_SECTIONS_LIMIT }));
+  }
+
+  return lines.join("\n");
+}
+
+// Периодически перечитывает рекомендации, на которые подписаны врачи, и сообщает подписчикам об изменениях.
+// Содержимое разделов хранится в guideline_snapshots: с ним сравнивается следующая версия
+class GuidelineWatcher {
+  private timer?: NodeJS.Timeout;
+  private running: Promise<void> | null = null;
+  private stopped = false;
+  private delay: number;
+  private nextSlotAt = 0;
+  // Рекомендации, которые не удалось проверить: следующая попытка откладывается всё дальше
+  private failures = new Map<string, { count: number; retryAt: number }>();
+  private readonly leaseOwner = randomUUID();
+
+  constructor(
+    private readonly telegram: Telegram,
+    private readonly repositories: RepositoryLayer,
+    private readonly options: GuidelineWatcherOptions
+  ) {
+    this.delay = options.requestDelay;
+  }
+
+  start(): void {
+    if (this.stopped || !this.options.interval) return;
+
+    this.schedule(FIRST_CHECK_DELAY);
+  }
+
+  // Проверка дописывает текущую рекомендацию, остальные ждут следующего запуска
+  async stop(): Promise<void> {
+    this.stopped = true;
+    clearTimeout(this.timer);
+    await this.running;
+  }
+
+  // Проверяет рекомендации, срок проверки которых подошёл; повторный вызов во время проверки ждёт её
+  check(): Promise<void> {
+    if (!this.running) {
+      this.running = this.run()
+        .catch((error) => console.error("Ошибка при проверке обновлений рекомендаций:", error))
+        .finally(() => (this.running = null));
+    }
+
+    return this.running;
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(async () => {
+      await this.check();
+      if (!this.stopped) this.schedule(Math.min(this.options.interval, CHECK_TICK));
+    }, delay);
+  }
+
+  private async run(): Promise<void> {
+    if (!(await this.holdLease())) return;
+
+    try {
+      await this.checkDue();
+    } finally {
+      await this.repositories.leasesRepository.release(LEASE_NAME, this.leaseOwner);
+    }
+  }
+
+  private async checkDue(): Promise<void> {
+    const snapshots = this.repositories.guidelineSnapshotsRepository;
+    await snapshots.deleteUnsubscribed();
+
+    const checkedAt = new Map(
+      (await snapshots.getCheckedAt()).map((item) => [item.diagnosis, new Date(item.checkedAt).getTime()])
+    );
+    const diagnoses = (await this.repositories.subscriptionsRepository.getDiagnoses()).filter((diagnosis) =>
+      this.isDue(diagnosis, checkedAt.get(diagnosis))
+    );
+
+    for (const diagnosis of diagnoses) {
+      if (this.stopped || !(await this.holdLease())) return;
+
+      try {
+        await this.checkDiagnosis(diagnosis, checkedAt.has(diagnosis));
+        this.failures.delete(diagnosis);
+        this.delay = Math.max(this.options.requestDelay, this.delay / 2);
+      } catch (error) {
+        if (!(error instanceof APIError)) throw error;
+
+        console.error(`Не удалось проверить обновления рекомендации «${diagnosis}»:`, error);
+        this.recordFailure(diagnosis);
+        this.delay = Math.min(Math.max(this.delay, 1) * 2, this.options.maxBackoff);
+
+        // Размыкатель открыт: остальные запросы тоже не пройдут, проверка продолжится в следующий раз
+        if (error instanceof APIUnavailableError) return;
+      }
+    }
+  }
+
+  private isDue(diagnosis: string, checkedAt: number | undefined): boolean {
+    const failure = this.failures.get(diagnosis);
+    if (failure && failure.retryAt > Date.now()) return false;
+
+    return checkedAt === undefined || Date.now() - checkedAt >= this.options.interval;
+  }
+
+  private recordFailure(diagnosis: string): void {
+    const count = (this.failures.get(diagnosis)?.count ?? 0) + 1;
+    const backoff = Math.min(CHECK_TICK * 2 ** (count - 1), Math.max(this.options.interval, CHECK_TICK));
+
+    this.failures.set(diagnosis, { count, retryAt: Date.now() + backoff });
+  }
+
+  // checkedBefore — рекомендация уже проверялась; снимок при этом может быть пустым, если разделов не было
+  private async checkDiagnosis(diagnosis: string, checkedBefore: boolean): Promise<void> {
+    const api = this.repositories.apiRepository;
+    const previous = await this.repositories.guidelineSnapshotsRepository.getAll(diagnosis);
+
+    await this.pause();
+    const sections = (await api.getSections(diagnosis, { fresh: true })).filter((section) => !isHiddenSection(section));
+
+    const current: SectionSnapshot[] = [];
+    for (const section of sections) {
+      if (this.stopped || !(await this.holdLease())) return;
+
+      await this.pause();
+      const content = await api.getSection(diagnosis, section, { fresh: true });
+      current.push({ section, contentHash: hashContent(content), content });
+    }
+
+    // При первой проверке сравнивать не с чем
+    const changes = checkedBefore ? compareSnapshots(previous, current) : [];
+    if (changes.length) await this.notify(diagnosis, changes);
+
+    // Снимок сохраняется после рассылки: если процесс упадёт посреди неё, изменение разошлётся ещё раз, а не потеряется
+    await this.repositories.guidelineSnapshotsRepository.replace(diagnosis, current);
+  }
+
+  private async notify(diagnosis: string, changes: SectionChange[]): Promise<void> {
+    const subscribers = await this.repositories.subscriptionsRepository.getSubscribers(diagnosis);
+    console.log(
+      `Рекомендация «${diagnosis}» обновлена, разделов: ${changes.length}, подписчиков: ${subscribers.length}`
+    );
+
+    for (const subscriber of subscribers) {
+      const t = createTranslator(isLocale(subscriber.language) ? subscriber.language : DEFAULT_LOCALE);
+      await this.deliver(subscriber, formatNotification(t, diagnosis, changes), t);
+    }
+  }
+
+  private async deliver(subscriber: ISubscriber, text: string, t: Translator): Promise<void> {
+    const keyboard = Markup.inlineKeyboard([
+      Markup.button.callback(t("button.openGuideline"), `subscription_open:${subscriber.subscriptionId}`),
+      Markup.button.callback(t("button.unsubscribe"), `subscription_remove:${subscriber.subscriptionId}`),
+    ]);
+
+    for (;;) {
+      await this.throttle();
+
+      try {
+        await this.telegram.sendMessage(subscriber.clientTelegramId, text, { parse_mode: "HTML", ...keyboard });
+        return;
+      } catch (error) {
+        if (error instanceof TelegramError && error.code === 429) {
+          const retryAfter = error.parameters?.retry_after ?? 1;
+          this.nextSlotAt = Math.max(this.nextSlotAt, Date.now() + retryAfter * 1000);
+          continue;
+        }
+
+        if (error instanceof TelegramError && error.code === 403) {
+          await this.repositories.clientsRepository.update({
+            telegramId: subscriber.clientTelegramId,
+            blockedAt: new Date(),
+          });
+          return;
+        }
+
+        console.error(`Не удалось отправить уведомление об обновлении ${subscriber.clientTelegramId}:`, error);
+        return;
+      }
+    }
+  }
+
+  // Берёт аренду или продлевает свою; false — проверку ведёт другой процесс
+  private holdLease(): Promise<boolean> {
+    return this.repositories.leasesRepository.acquire(LEASE_NAME, this.leaseOwner, LEASE_TTL);
+  }
+
+  private async pause(): Promise<void> {
+    if (this.delay > 0) await new Promise((resolve) => setTimeout(resolve, this.delay));
+  }
+
+  private async throttle(): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextSlotAt);
+    this.nextSlotAt = slot + 1000 / this.options.rate;
+
+    if (slot > now) {
+      await new Promise((resolve) => setTimeout(resolve, slot - now));
+    }
+  }
+}
+
+export { GuidelineWatcher, GuidelineWatcherOptions };
@@ -0,0 +1,200 @@
+import http from "http";
+import { InlineKeyboardMarkup, User } from "telegraf/types";
+import { close, listen, readBody, sendJSON } from "./localServer";
+
+type FakeMessage = {
+  message_id: number;
+  chatId: number;
+  from: User;
+  text?: string;
+  document?: { file_id: string; file_name?: string };
+  reply_markup?: InlineKeyboardMarkup;
+  deleted: boolean;
+};
+
+type FakeAPICall = {
+  method: string;
+  payload: Record<string, any>;
+};
+
+class FakeTelegramAPIError extends Error {
+  constructor(
+    readonly code: number,
+    readonly description: string
+  ) {
+    super(description);
+  }
+}
+
+// Содержимое файлов, которые бот скачивает через getFile; распознаватель в сценариях его не разбирает
+const FILE_CONTENT = Buffer.from("OggS");
+
+const BOT_USER: User = { id: 1000000, is_bot: true, first_name: "DocTime.MedX", username: "doctime_medx_bot" };
+
+// Поддельный Bot API: Telegraf ходит сюда вместо api.telegram.org (опция telegram.apiRoot).
+// Хранит отправленные ботом сообщения, чтобы сценарий мог читать чат и нажимать кнопки.
+class FakeTelegramAPI {
+  readonly botUser = BOT_USER;
+  readonly calls: FakeAPICall[] = [];
+  private messages: FakeMessage[] = [];
+  private nextMessageId = 1;
+  private rejectedHTML: string | null = null;
+  private server: http.Server;
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("Fake Telegram API Error:", error);
+        sendJSON(res, 500, { ok: false, error_code: 500, description: String(error) });
+      });
+    });
+  }
+
+  start(): Promise<string> {
+    return listen(this.server);
+  }
+
+  stop(): Promise<void> {
+    return close(this.server);
+  }
+
+  // Сообщения пользователя и бота нумеруются одним счётчиком, как в настоящем чате
+  addMessage(message: Omit<FakeMessage, "message_id" | "deleted">): FakeMessage {
+    const created = { ...message, message_id: this.nextMessageId++, deleted: false };
+    this.messages.push(created);
+
+    return created;
+  }
+
+  getChat(chatId: number): FakeMessage[] {
+    return this.messages.filter((message) => message.chatId === chatId && !message.deleted);
+  }
+
+  // HTML-сообщения с этим фрагментом отклоняются так же, как Telegram отклоняет неверную разметку; null — принимаются все
+  rejectHTML(fragment: string | null): void {
+    this.rejectedHTML = fragment;
+  }
+
+  getCalls(method: string): FakeAPICall[] {
+    return this.calls.filter((call) => call.method === method);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    if (req.url?.startsWith("/file/")) {
+      res.writeHead(200, { "Content-Type": "application/octet-stream" });
+      res.end(FILE_CONTENT);
+      return;
+    }
+
+    const method = (req.url ?? "").split("/").pop() ?? "";
+    const payload = this.parsePayload(req.headers["content-type"] ?? "", await readBody(req));
+    this.calls.push({ method, payload });
+
+    try {
+      sendJSON(res, 200, { ok: true, result: this.callMethod(method, payload) });
+    } catch (error) {
+      if (!(error instanceof FakeTelegramAPIError)) throw error;
+      sendJSON(res, error.code, { ok: false, error_code: error.code, description: error.description });
+    }
+  }
+
+  // Файлы Telegraf отправляет multipart-формой; из неё нужны только простые поля и имя файла
+  private parsePayload(contentType: string, body: Buffer): Record<string, any> {
+    if (!body.length) return {};
+    if (contentType.includes("application/json")) return JSON.parse(body.toString("utf8"));
+
+    const payload: Record<string, any> = {};
+    const text = body.toString("utf8");
+
+    for (const match of Array.from(
+      text.matchAll(/name="([^"]+)"(?:; filename="([^"]*)")?[^\r]*\r\n(?:[^\r]+\r\n)*\r\n/g)
+    )) {
+      if (match[2] !== undefined) {
+        payload[match[1]] = { filename: match[2] };
+        continue;
+      }
+
+      const valueStart = (match.index ?? 0) + match[0].length;
+      const value = text.slice(valueStart, text.indexOf("\r\n--", valueStart));
+      payload[match[1]] = value.startsWith("{") ? JSON.parse(value) : value;
+    }
+
+    return payload;
+  }
+
+  private findMessage(chatId: number, messageId: number): FakeMessage {
+    const message = this.messages.find((item) => item.chatId === chatId && item.message_id === messageId);
+    if (!message || message.deleted) throw new FakeTelegramAPIError(400, "Bad Request: message not found");
+
+    return message;
+  }
+
+  private toTelegramMessage(message: FakeMessage) {
+    return {
+      message_id: message.message_id,
+      date: Math.floor(Date.now() / 1000),
+      chat: { id: message.chatId, type: "private" },
+      from: message.from,
+      ...(message.text !== undefined ? { text: message.text } : {}),
+      ...(message.document ? { document: { ...message.document, file_unique_id: message.document.file_id } } : {}),
+      ...(message.reply_markup ? { reply_markup: message.reply_markup } : {}),
+    };
+  }
+
+  private callMethod(method: string, payload: Record<string, any>): unknown {
+    const chatId = Number(payload.chat_id);
+
+    if (this.rejectedHTML !== null && payload.parse_mode === "HTML" && payload.text?.includes(this.rejectedHTML)) {
+      throw new FakeTelegramAPIError(400, "Bad Request: can't parse entities: Unsupported start tag");
+    }
+
+    switch (method) {
+      case "getMe":
+        return this.botUser;
+
+      case "getFile":
+        return { file_id: payload.file_id, file_unique_id: payload.file_id, file_path: `voice/${payload.file_id}.oga` };
+
+      case "sendMessage":
+        return this.toTelegramMessage(
+          this.addMessage({ chatId, from: this.botUser, text: payload.text, reply_markup: payload.reply_markup })
+        );
+
+      case "sendDocument": {
+        const fileId = typeof payload.document === "string" ? payload.document : `file-${this.nextMessageId}`;
+        const fileName = typeof payload.document === "object" ? payload.document.filename : undefined;
+
+        return this.toTelegramMessage(
+          this.addMessage({ chatId, from: this.botUser, document: { file_id: fileId, file_name: fileName } })
+        );
+      }
+
+      case "editMessageText": {
+        const message = this.findMessage(chatId, Number(payload.message_id));
+        message.text = payload.text;
+        message.reply_markup = payload.reply_markup;
+
+        return this.toTelegramMessage(message);
+      }
+
+      case "editMessageReplyMarkup": {
+        const message = this.findMessage(chatId, Number(payload.message_id));
+        message.reply_markup = payload.reply_markup;
+
+        return this.toTelegramMessage(message);
+      }
+
+      case "deleteMessage":
+        this.findMessage(chatId, Number(payload.message_id)).deleted = true;
+        return true;
+
+      case "copyMessage":
+        return { message_id: this.nextMessageId++ };
+
+      default:
+        return true;
+    }
+  }
+}
+
+export { FakeAPICall, FakeMessage, FakeTelegramAPI };
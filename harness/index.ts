@@ -0,0 +1,141 @@
+import { Telegraf, Telegram } from "telegraf";
+import { User } from "telegraf/types";
+import { AccessMode, BotContext, MedicalBot } from "..";
+import { LRUCache } from "../cache";
+import { DiagnosisIndex } from "../diagnosisIndex";
+import { GuidelineWatcher } from "../guidelineWatcher";
+import { ICDDictionary } from "../icd";
+import { StubSpeechRecognizer } from "../speech";
+import { MemoryRateLimiter } from "../rateLimit/memoryRateLimiter";
+import { RateLimitConfig } from "../rateLimit";
+import { MemoryRepositories } from "../repositories";
+import { APIRepository } from "../repositories/apiRepository";
+import { MemorySessionStore } from "../sessions";
+import { IDiagnosis, ISection } from "../types/knowledgeBase";
+import { FakeAPICall, FakeMessage, FakeTelegramAPI } from "./fakeTelegramAPI";
+import { KnowledgeBaseData, MockFailure, MockKnowledgeBase } from "./mockKnowledgeBase";
+import { DEFAULT_USER, TelegramSimulator } from "./telegramSimulator";
+
+type HarnessOptions = {
+  adminIds?: number[];
+  accessMode?: AccessMode;
+  // Таймаут запроса к базе знаний, мс; в сценариях с задержкой ответа он должен быть меньше задержки
+  apiTimeout?: number;
+};
+
+type Harness = {
+  bot: MedicalBot;
+  user: TelegramSimulator;
+  knowledgeBase: MockKnowledgeBase;
+  telegramAPI: FakeTelegramAPI;
+  // Клиент Bot API, направленный на FakeTelegramAPI: для фоновых задач, которые сценарий создаёт сам
+  telegram: Telegram;
+  repositories: MemoryRepositories;
+  // Распознаватель голосовых сообщений: сценарий задаёт ему текст или ошибку
+  speechRecognizer: StubSpeechRecognizer;
+  // Проверка обновлений рекомендаций не запускается сама: сценарий вызывает check()
+  guidelineWatcher: GuidelineWatcher;
+  // Ещё один пользователь того же бота
+  createUser(user: User): TelegramSimulator;
+  stop(): Promise<void>;
+};
+
+const VOICE_MAX_DURATION = 30;
+const VOICE_MAX_FILE_SIZE = 64 * 1024;
+const VOICE_DOWNLOAD_TIMEOUT = 5000;
+
+const CACHE_OPTIONS = { ttl: 60 * 1000, staleTtl: 60 * 1000, maxSize: 100 };
+
+// В сценариях лимиты не должны срабатывать, если сценарий не проверяет их специально
+const UNLIMITED = { capacity: 1000, refillPerMinute: 1000 };
+const RATE_LIMIT_CONFIG: RateLimitConfig = {
+  store: "memory",
+  search: { user: UNLIMITED, global: UNLIMITED },
+  section: { user: UNLIMITED, global: UNLIMITED },
+};
+
+// Собирает MedicalBot целиком в памяти процесса: база знаний и Bot API — локальные HTTP-серверы,
+// репозитории, сессии, кэши и лимиты — реализации без MySQL
+async function createHarness(data: KnowledgeBaseData, options: HarnessOptions = {}): Promise<Harness> {
+  const knowledgeBase = new MockKnowledgeBase(data);
+  const telegramAPI = new FakeTelegramAPI();
+  const [apiBaseURL, apiRoot] = await Promise.all([knowledgeBase.start(), telegramAPI.start()]);
+
+  const telegraf = new Telegraf<BotContext>("123456:harness", { telegram: { apiRoot } });
+
+  const apiRepository = new APIRepository(
+    apiBaseURL,
+    {
+      diagnoses: new LRUCache<IDiagnosis[]>(CACHE_OPTIONS),
+      sections: new LRUCache<ISection[]>(CACHE_OPTIONS),
+      section: new LRUCache<string>(CACHE_OPTIONS),
+    },
+    {
+      timeout: options.apiTimeout ?? 1000,
+      retries: 0,
+      retryBaseDelay: 10,
+      failureThreshold: 100,
+      resetTimeout: 1000,
+    }
+  );
+  const repositories = new MemoryRepositories(apiRepository);
+  const speechRecognizer = new StubSpeechRecognizer();
+  const guidelineWatcher = new GuidelineWatcher(telegraf.telegram, repositories, {
+    interval: 0,
+    requestDelay: 0,
+    maxBackoff: 0,
+    rate: 1000,
+  });
+
+  const bot = new MedicalBot(
+    {
+      bot: telegraf,
+      sessionStore: new MemorySessionStore(),
+      repositories,
+      rateLimiter: new MemoryRateLimiter(),
+      documentCache: new LRUCache<string>(CACHE_OPTIONS),
+      icdDictionary: new ICDDictionary(),
+      diagnosisIndex: new DiagnosisIndex(repositories.knownDiagnosesRepository, { loadLimit: 1000 }),
+      speechRecognizer,
+      guidelineWatcher,
+    },
+    {
+      adminIds: options.adminIds ?? [],
+      inlineOptions: { debounce: 0, limit: 1000, window: 60 * 1000 },
+      broadcastOptions: { rate: 1000, batchSize: 100 },
+      accessMode: options.accessMode ?? "open",
+      rateLimitConfig: RATE_LIMIT_CONFIG,
+      voiceMaxDuration: VOICE_MAX_DURATION,
+      voiceMaxFileSize: VOICE_MAX_FILE_SIZE,
+      voiceDownloadTimeout: VOICE_DOWNLOAD_TIMEOUT,
+    }
+  );
+
+  return {
+    bot,
+    user: new TelegramSimulator(telegraf, telegramAPI, DEFAULT_USER),
+    knowledgeBase,
+    telegramAPI,
+    telegram: telegraf.telegram,
+    repositories,
+    speechRecognizer,
+    guidelineWatcher,
+    createUser: (user) => new TelegramSimulator(telegraf, telegramAPI, user),
+    stop: async () => {
+      await Promise.all([knowledgeBase.stop(), telegramAPI.stop()]);
+    },
+  };
+}
+
+export {
+  FakeAPICall,
+  FakeMessage,
+  FakeTelegramAPI,
+  Harness,
+  HarnessOptions,
+  KnowledgeBaseData,
+  MockFailure,
+  MockKnowledgeBase,
+  TelegramSimulator,
+  createHarness,
+};
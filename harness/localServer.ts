@@ -0,0 +1,39 @@
+import http from "http";
+import { AddressInfo } from "net";
+
+// Запуск на свободном порту 127.0.0.1; возвращает базовый адрес сервера
+function listen(server: http.Server): Promise<string> {
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      server.off("error", reject);
+      resolve(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+  });
+}
+
+// Висящие запросы (например, имитация таймаута) обрываются сразу
+function close(server: http.Server): Promise<void> {
+  if (!server.listening) return Promise.resolve();
+
+  const closed = new Promise<void>((resolve) => server.close(() => resolve()));
+  server.closeAllConnections();
+
+  return closed;
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on("data", (chunk: Buffer) => chunks.push(chunk));
+    req.on("end", () => resolve(Buffer.concat(chunks)));
+    req.on("error", reject);
+  });
+}
+
+function sendJSON(res: http.ServerResponse, status: number, body: unknown): void {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export { close, listen, readBody, sendJSON };
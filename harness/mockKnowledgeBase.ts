@@ -0,0 +1,92 @@
+import http from "http";
+import { close, listen, sendJSON } from "./localServer";
+
+// Диагноз → раздел → Markdown-содержимое
+type KnowledgeBaseData = { [diagnosis: string]: { [section: string]: string } };
+
+// status — ответ с этим кодом, delay — ответ с задержкой, чтобы клиент упёрся в таймаут
+type MockFailure = { status: number } | { delay: number };
+
+const SECTIONS_PATH_PATTERN = /^\/diagnoses\/([^/]+)\/sections$/;
+const SECTION_PATH_PATTERN = /^\/diagnoses\/([^/]+)\/sections\/([^/]+)$/;
+const MIN_QUERY_WORD_LENGTH = 3;
+
+// Локальная замена API базы знаний с теми же эндпоинтами, что вызывает APIRepository
+class MockKnowledgeBase {
+  readonly requests: string[] = [];
+  private server: http.Server;
+  private failure: MockFailure | null = null;
+
+  constructor(private readonly data: KnowledgeBaseData) {
+    this.server = http.createServer((req, res) => this.handleRequest(req, res));
+  }
+
+  start(): Promise<string> {
+    return listen(this.server);
+  }
+
+  stop(): Promise<void> {
+    return close(this.server);
+  }
+
+  // Действует на все следующие запросы, пока не вызван setFailure(null)
+  setFailure(failure: MockFailure | null): void {
+    this.failure = failure;
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    this.requests.push(`${req.method} ${decodeURIComponent(url.pathname)}${url.search}`);
+
+    if (url.pathname === "/") {
+      sendJSON(res, 200, { status: "ok" });
+      return;
+    }
+
+    if (this.failure && "status" in this.failure) {
+      sendJSON(res, this.failure.status, { error: "Mock failure" });
+      return;
+    }
+
+    if (this.failure && "delay" in this.failure) {
+      await new Promise((resolve) => setTimeout(resolve, (this.failure as { delay: number }).delay));
+      if (res.destroyed) return;
+    }
+
+    const [status, body] = this.route(url);
+    sendJSON(res, status, body);
+  }
+
+  private route(url: URL): [number, unknown] {
+    if (url.pathname === "/diagnoses/similar") {
+      const query = url.searchParams.get("diagnosis") ?? "";
+      return [200, { diagnoses: this.findSimilar(query) }];
+    }
+
+    const sectionMatch = url.pathname.match(SECTION_PATH_PATTERN);
+    if (sectionMatch) {
+      const content = this.data[decodeURIComponent(sectionMatch[1])]?.[decodeURIComponent(sectionMatch[2])];
+      return content === undefined ? [404, { error: "Section not found" }] : [200, { content }];
+    }
+
+    const sectionsMatch = url.pathname.match(SECTIONS_PATH_PATTERN);
+    if (sectionsMatch) {
+      const sections = this.data[decodeURIComponent(sectionsMatch[1])];
+      return sections ? [200, { sections: Object.keys(sections) }] : [404, { error: "Diagnosis not found" }];
+    }
+
+    return [404, { error: "Not found" }];
+  }
+
+  // Диагноз подходит, если содержит хотя бы одно слово запроса
+  private findSimilar(query: string): string[] {
+    const words = query
+      .toLowerCase()
+      .split(/\s+/)
+      .filter((word) => word.length >= MIN_QUERY_WORD_LENGTH);
+
+    return Object.keys(this.data).filter((diagnosis) => words.some((word) => diagnosis.toLowerCase().includes(word)));
+  }
+}
+
+export { KnowledgeBaseData, MockFailure, MockKnowledgeBase };
@@ -0,0 +1,111 @@
+import { Telegraf } from "telegraf";
+import { Update, User } from "telegraf/types";
+import { FakeMessage, FakeTelegramAPI } from "./fakeTelegramAPI";
+
+const DEFAULT_USER: User = {
+  id: 100001,
+  is_bot: false,
+  first_name: "Тест",
+  username: "test_doctor",
+  language_code: "ru",
+};
+
+// Пользователь в личном чате с ботом: формирует обновления Telegram и передаёт их прямо в bot.handleUpdate.
+// Ответы бота уходят в FakeTelegramAPI, откуда их читают методы ниже.
+class TelegramSimulator {
+  private nextUpdateId = 1;
+
+  constructor(
+    private readonly bot: Telegraf<any>,
+    private readonly api: FakeTelegramAPI,
+    readonly user: User = DEFAULT_USER
+  ) {}
+
+  // Команды получают сущность bot_command, иначе Telegraf не распознает их
+  async sendText(text: string): Promise<void> {
+    const message = this.api.addMessage({ chatId: this.user.id, from: this.user, text });
+    const command = text.match(/^\/\w+/);
+
+    await this.dispatch({
+      update_id: this.nextUpdateId++,
+      message: {
+        message_id: message.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: this.user.id, type: "private", first_name: this.user.first_name },
+        from: this.user,
+        text,
+        ...(command ? { entities: [{ type: "bot_command", offset: 0, length: command[0].length }] } : {}),
+      },
+    });
+  }
+
+  // Голосовое сообщение: текст для него задаёт StubSpeechRecognizer из harness
+  async sendVoice(duration: number, fileSize?: number): Promise<void> {
+    const message = this.api.addMessage({ chatId: this.user.id, from: this.user });
+    const fileId = `voice-${message.message_id}`;
+
+    await this.dispatch({
+      update_id: this.nextUpdateId++,
+      message: {
+        message_id: message.message_id,
+        date: Math.floor(Date.now() / 1000),
+        chat: { id: this.user.id, type: "private", first_name: this.user.first_name },
+        from: this.user,
+        voice: { file_id: fileId, file_unique_id: fileId, duration, mime_type: "audio/ogg", file_size: fileSize },
+      },
+    });
+  }
+
+  // Кнопка ищется в самом новом сообщении, где она есть; message позволяет нажать кнопку в старом сообщении
+  async clickButton(label: string, message?: FakeMessage): Promise<void> {
+    const messages = message ? [message] : this.getMessages().reverse();
+
+    for (const candidate of messages) {
+      const button = candidate.reply_markup?.inline_keyboard.flat().find((item) => item.text === label);
+      if (!button || !("callback_data" in button)) continue;
+
+      await this.dispatch({
+        update_id: this.nextUpdateId++,
+        callback_query: {
+          id: String(this.nextUpdateId),
+          from: this.user,
+          chat_instance: String(this.user.id),
+          data: button.callback_data,
+          message: {
+            message_id: candidate.message_id,
+            date: Math.floor(Date.now() / 1000),
+            chat: { id: this.user.id, type: "private", first_name: this.user.first_name },
+            from: candidate.from,
+            text: candidate.text ?? "",
+            ...(candidate.reply_markup ? { reply_markup: candidate.reply_markup } : {}),
+          },
+        },
+      });
+      return;
+    }
+
+    throw new Error(`Кнопка «${label}» не найдена в чате`);
+  }
+
+  // Видимые сообщения чата от старых к новым
+  getMessages(): FakeMessage[] {
+    return this.api.getChat(this.user.id);
+  }
+
+  lastMessage(): FakeMessage | undefined {
+    return this.getMessages()
+      .filter((message) => message.from.is_bot)
+      .pop();
+  }
+
+  // Всплывающее уведомление после последнего нажатия кнопки
+  lastCallbackAnswer(): string | undefined {
+    return this.api.getCalls("answerCallbackQuery").pop()?.payload.text;
+  }
+
+  private async dispatch(update: Update): Promise<void> {
+    await this.bot.handleUpdate(update);
+  }
+}
+
+export { DEFAULT_USER, TelegramSimulator };
@@ -0,0 +1,15 @@
+import { ru } from "./locales/ru";
+
+type PluralForm = "one" | "few" | "many" | "other";
+
+// Для сообщений с числом: форма выбирается по параметру count, other обязательна
+type PluralMessage = Partial<Record<PluralForm, string>> & { other: string };
+
+type Message = string | PluralMessage;
+
+// Русский каталог — основной: ключи остальных языков проверяются по нему
+type MessageKey = keyof typeof ru;
+
+type Catalog = Record<MessageKey, Message>;
+
+export { Catalog, Message, MessageKey, PluralForm, PluralMessage };
@@ -0,0 +1,58 @@
+import { Catalog, MessageKey } from "./catalog";
+import { pluralForm } from "./plural";
+import { ru } from "./locales/ru";
+import { en } from "./locales/en";
+import { kk } from "./locales/kk";
+
+type Locale = "ru" | "en" | "kk";
+
+type TranslationParams = Record<string, string | number>;
+
+type Translator = (key: MessageKey, params?: TranslationParams) => string;
+
+const DEFAULT_LOCALE: Locale = "ru";
+
+const catalogs: Record<Locale, Catalog> = { ru, en, kk };
+
+// Названия языков для переключателя — каждое на своём языке
+const LOCALE_NAMES: Record<Locale, string> = {
+  ru: "🇷🇺 Русский",
+  en: "🇬🇧 English",
+  kk: "🇰🇿 Қазақша",
+};
+
+function isLocale(value: unknown): value is Locale {
+  return typeof value === "string" && value in catalogs;
+}
+
+// language_code из Telegram — тег IETF вроде "en-US"; неизвестные языки получают язык по умолчанию
+function detectLocale(languageCode: string | undefined): Locale {
+  const language = languageCode?.split("-")[0].toLowerCase();
+
+  return isLocale(language) ? language : DEFAULT_LOCALE;
+}
+
+function translate(locale: Locale, key: MessageKey, params: TranslationParams = {}): string {
+  const message = catalogs[locale][key] ?? catalogs[DEFAULT_LOCALE][key];
+  const template =
+    typeof message === "string" ? message : (message[pluralForm(locale, Number(params.count))] ?? message.other);
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+function createTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
+
+export {
+  Locale,
+  MessageKey,
+  TranslationParams,
+  Translator,
+  DEFAULT_LOCALE,
+  LOCALE_NAMES,
+  isLocale,
+  detectLocale,
+  translate,
+  createTranslator,
+};
@@ -0,0 +1,138 @@
+import { Catalog } from "../catalog";
+
+const en: Catalog = {
+  "button.enterDiagnosis": "Enter a diagnosis",
+  "button.newDiagnosis": "Enter a new diagnosis",
+  "button.recent": "🕘 Recent",
+  "button.favorites": "⭐ Favorites",
+  "button.addFavorite": "⭐ Add to favorites",
+  "button.share": "🔗 Share",
+  "button.download": "📄 Download",
+  "button.backToSections": "Back to sections",
+  "button.clearHistory": "🗑 Clear history",
+  "button.sendToColleague": "Send to a colleague",
+  "button.openInBot": "Open in the bot",
+  "button.voiceSearch": "🔍 Search",
+  "button.voiceRetype": "✏️ Type instead",
+  "button.subscribe": "🔔 Follow",
+  "button.unsubscribe": "🔕 Unfollow",
+  "button.openGuideline": "📖 Open",
+
+  "welcome.text":
+    "👋 Hello, doctor!\nI am DocTime.MedX, your medical knowledge base.\nAsk a question and I will help you find current clinical guidelines, check a protocol or advise on diagnostics and treatment.\n\n🩺 Let's start: what would you like to look into?",
+
+  "diagnosis.ask": "Enter a diagnosis name or an ICD-10 code (for example, J45.0):",
+  "diagnosis.searching": "Searching for similar diagnoses...",
+  "diagnosis.noResults": "Nothing was found for your query. Try another diagnosis or rephrase it.",
+  "diagnosis.found": {
+    one: "Found {count} diagnosis. Choose the right one:",
+    other: "Found {count} diagnoses. Choose the right one:",
+  },
+  "diagnosis.suggestions": "Did you mean...",
+  "diagnosis.offline": "The knowledge base is unavailable right now. Similar diagnoses from the saved list:",
+  "diagnosis.loading": "Loading information...",
+
+  "sections.title": "Available sections:",
+  "sections.none": "There is no information available for this diagnosis.",
+  "section.loading": "Loading content...",
+  "section.diagnostics": "Diagnostics",
+  "section.treatment": "Treatment",
+
+  "question.hint":
+    "💬 Ask a question about this diagnosis, for example «dosage in children», and I will find the answer in its sections. To search for another diagnosis, tap «{newDiagnosis}».",
+  "question.searching": "Looking for the answer in the diagnosis sections...",
+  "question.noResults":
+    "No answer to this question was found in the diagnosis sections. Try rephrasing it or open the relevant section.",
+  "question.openSection": "📖 {section}",
+
+  "icd.usage": "Add an ICD-10 code after the command, for example: /icd J45.0",
+  "icd.invalid":
+    "«{code}» does not look like an ICD-10 code. A code is a Latin letter followed by digits, for example J45 or J45.0.",
+  "icd.searching": "Looking for diagnoses with code {code}...",
+  "icd.noResults": "No guidelines for code {code} were found in the knowledge base.",
+  "icd.noResultsNamed": "{code} — {name}. No guidelines with this code were found in the knowledge base.",
+
+  "voice.recognizing": "🎙 Recognizing the voice message...",
+  "voice.confirm": "🎙 Recognized: <b>{text}</b>\n\nSearch for this diagnosis?",
+  "voice.empty": "Could not make out any speech. Record the message again or type the diagnosis.",
+  "voice.failed": "Could not recognize the voice message. Try again or type the diagnosis.",
+  "voice.tooLong": "The voice message is too long. Name the diagnosis in {seconds} seconds or less.",
+  "voice.tooLarge": "The voice message file is too large. Record a shorter message or type the diagnosis.",
+
+  "favorites.title": "⭐ *Favorites*\n\nChoose a bookmark to open it. ⬆ moves a bookmark up, ✖ removes it.",
+  "favorites.empty": "Your favorites are empty. Open a diagnosis or a section and tap «⭐ Add to favorites».",
+  "favorites.unknownTarget": "Could not determine what to add to favorites",
+  "favorites.added": "⭐ Added to favorites",
+  "favorites.exists": "Already in favorites",
+  "favorites.addFailed": "Could not add to favorites",
+  "favorites.removed": "Removed from favorites",
+  "favorites.removeFailed": "Could not remove the bookmark",
+  "favorites.moveFailed": "Could not move the bookmark",
+
+  "subscriptions.added": "🔔 I will let you know when this guideline is updated",
+  "subscriptions.removed": "🔕 No longer following updates",
+  "subscriptions.failed": "Could not change the subscription",
+  "subscriptions.unknownTarget": "Could not determine the diagnosis to follow",
+
+  "updates.title": "🔔 <b>Guideline updated: {diagnosis}</b>",
+  "updates.sectionAdded": "➕ New section: {section}",
+  "updates.sectionRemoved": "➖ Section removed: {section}",
+  "updates.sectionChanged": "✏️ Section changed: {section} (+{added} −{removed})",
+  "updates.moreLines": "…and more changed lines: {count}",
+  "updates.moreSections": "…and more changed sections: {count}",
+
+  "history.title": "🕘 *Recent diagnoses*\n\nChoose a diagnosis to open its sections:",
+  "history.empty": "Your history is empty.",
+  "history.cleared": "History cleared",
+  "history.clearFailed": "Could not clear history",
+
+  "share.link": "🔗 Link to the section «{section}»:\n{link}",
+  "share.failed": "Could not create a link",
+
+  "document.preparing": "Preparing the document...",
+  "document.contents": "Contents",
+  "document.diagnosis": "Diagnosis",
+  "document.date": "Date",
+
+  "inline.open": "Open DocTime.MedX",
+  "inline.tooManyRequests": "Too many requests, please wait a minute",
+  "inline.searchFailed": "Search failed, please try later",
+  "inline.sections": "Sections:",
+  "inline.noSections": "Sections are unavailable.",
+  "inline.continuation": "Continued in the bot",
+
+  "errors.retry": "{message}. Please try again.",
+  "errors.sectionNotFound": "Section not found",
+  "errors.staleButton": "This button is out of date. Please use the latest message from the bot.",
+  "errors.infoNotFound": "Information not found",
+  "errors.favoriteNotFound": "Bookmark not found",
+  "errors.favoritesLoadFailed": "Could not load favorites",
+  "errors.subscriptionNotFound": "Subscription not found — you may have already unfollowed",
+  "errors.search": "An error occurred while searching for diagnoses. Please try later.",
+  "errors.load": "An error occurred while loading information. Please try later.",
+  "errors.contentNotFound": "The requested information was not found in the knowledge base.",
+  "errors.apiUnavailable":
+    "⚠️ The service is temporarily unavailable. We are already fixing it — try again in a few minutes.",
+  "errors.apiTimeout": "The knowledge base is taking too long to respond. Please repeat your request.",
+  "errors.apiNotFound": "Nothing was found in the knowledge base for your query.",
+  "errors.unsupportedMessage": "Please use text messages to enter a diagnosis, or use the menu commands.",
+
+  "rateLimit.short": "Too many requests, please wait a little",
+  "rateLimit.message": "⏳ Too many requests. Please wait a little and try again.",
+
+  "access.denied": "No access to the bot",
+  "access.blocked": "⛔ Access to the bot is closed. If this is a mistake, contact the administrator.",
+  "access.invite": "🔒 DocTime.MedX is available by invitation.\n\nSend your invite code to continue.",
+  "access.pending":
+    "⏳ Your access request has been sent to the administrators. We will let you know once it is reviewed.",
+  "access.unavailable": "The service is temporarily unavailable, please try later.",
+  "access.invalidCode": "The code is invalid, expired or already used. Check it and send it again.",
+  "access.codeCheckFailed": "Could not check the code. Please try again.",
+  "access.granted": "✅ Access to the bot is open. Tap /start to begin.",
+
+  "language.choose": "Choose the interface language:",
+  "language.changed": "Interface language: English",
+  "language.changeFailed": "Could not change the language",
+};
+
+export { en };
@@ -0,0 +1,138 @@
+import { Catalog } from "../catalog";
+
+const kk: Catalog = {
+  "button.enterDiagnosis": "Диагноз енгізу",
+  "button.newDiagnosis": "Жаңа диагноз енгізу",
+  "button.recent": "🕘 Соңғылары",
+  "button.favorites": "⭐ Таңдаулылар",
+  "button.addFavorite": "⭐ Таңдаулыларға қосу",
+  "button.share": "🔗 Бөлісу",
+  "button.download": "📄 Жүктеп алу",
+  "button.backToSections": "Бөлімдерге оралу",
+  "button.clearHistory": "🗑 Тарихты тазалау",
+  "button.sendToColleague": "Әріптеске жіберу",
+  "button.openInBot": "Ботта ашу",
+  "button.voiceSearch": "🔍 Іздеу",
+  "button.voiceRetype": "✏️ Мәтінмен енгізу",
+  "button.subscribe": "🔔 Бақылау",
+  "button.unsubscribe": "🔕 Бақылауды тоқтату",
+  "button.openGuideline": "📖 Ашу",
+
+  "welcome.text":
+    "👋 Сәлеметсіз бе, дәрігер!\nМен — DocTime.MedX, сіздің медициналық білім қорыңыз.\nСұрақ қойыңыз — өзекті клиникалық ұсынымдарды табуға, хаттаманы тексеруге немесе диагностика мен емдеу бойынша кеңес беруге көмектесемін.\n\n🩺 Бастайық: қандай сұрақты қарастырғыңыз келеді?",
+
+  "diagnosis.ask": "Диагноз атауын немесе АХЖ-10 кодын енгізіңіз (мысалы, J45.0):",
+  "diagnosis.searching": "Ұқсас диагноздарды іздеп жатырмын...",
+  "diagnosis.noResults":
+    "Сұрауыңыз бойынша ештеңе табылмады. Басқа диагнозды енгізіп көріңіз немесе тұжырымды нақтылаңыз.",
+  "diagnosis.found": {
+    one: "{count} диагноз табылды. Сәйкесін таңдаңыз:",
+    other: "{count} диагноз табылды. Сәйкесін таңдаңыз:",
+  },
+  "diagnosis.suggestions": "Мүмкін, сіз мынаны меңзедіңіз...",
+  "diagnosis.offline": "Білім базасы қазір қолжетімсіз. Сақталған тізімдегі ұқсас диагноздар:",
+  "diagnosis.loading": "Ақпаратты жүктеп жатырмын...",
+
+  "sections.title": "Қолжетімді бөлімдер:",
+  "sections.none": "Таңдалған диагноз бойынша қолжетімді ақпарат жоқ.",
+  "section.loading": "Мазмұнды жүктеп жатырмын...",
+  "section.diagnostics": "Диагностика",
+  "section.treatment": "Емдеу",
+
+  "question.hint":
+    "💬 Осы диагноз бойынша сұрақ қойыңыз, мысалы «балалардағы дозалау», мен жауапты бөлімдерден табамын. Басқа диагнозды іздеу үшін «{newDiagnosis}» батырмасын басыңыз.",
+  "question.searching": "Диагноз бөлімдерінен жауап іздеп жатырмын...",
+  "question.noResults":
+    "Диагноз бөлімдерінен бұл сұраққа жауап табылмады. Сұрақты басқаша тұжырымдаңыз немесе қажетті бөлімді ашыңыз.",
+  "question.openSection": "📖 {section}",
+
+  "icd.usage": "Командадан кейін АХЖ-10 кодын көрсетіңіз, мысалы: /icd J45.0",
+  "icd.invalid": "«{code}» АХЖ-10 кодына ұқсамайды. Код латын әрпі мен сандардан тұрады, мысалы J45 немесе J45.0.",
+  "icd.searching": "{code} коды бар диагноздарды іздеп жатырмын...",
+  "icd.noResults": "{code} коды үшін білім базасында ұсынымдар табылмады.",
+  "icd.noResultsNamed": "{code} — {name}. Білім базасында осы кодпен ұсынымдар табылмады.",
+
+  "voice.recognizing": "🎙 Дауыстық хабарламаны танып жатырмын...",
+  "voice.confirm": "🎙 Танылды: <b>{text}</b>\n\nОсы диагнозды іздеу керек пе?",
+  "voice.empty": "Сөзді ажырату мүмкін болмады. Хабарламаны қайта жазыңыз немесе диагнозды мәтінмен енгізіңіз.",
+  "voice.failed": "Дауыстық хабарламаны тану мүмкін болмады. Қайталап көріңіз немесе диагнозды мәтінмен енгізіңіз.",
+  "voice.tooLong": "Дауыстық хабарлама тым ұзын. Диагнозды қысқарақ, {seconds} секундтан аспайтындай атаңыз.",
+  "voice.tooLarge":
+    "Дауыстық хабарлама файлы тым үлкен. Қысқарақ хабарлама жазыңыз немесе диагнозды мәтінмен енгізіңіз.",
+
+  "favorites.title": "⭐ *Таңдаулылар*\n\nАшу үшін бетбелгіні таңдаңыз. ⬆ бетбелгіні жоғары көтереді, ✖ жояды.",
+  "favorites.empty":
+    "Таңдаулыларда әзірге ештеңе жоқ. Диагнозды немесе бөлімді ашып, «⭐ Таңдаулыларға қосу» батырмасын басыңыз.",
+  "favorites.unknownTarget": "Таңдаулыларға нені қосу керегін анықтау мүмкін болмады",
+  "favorites.added": "⭐ Таңдаулыларға қосылды",
+  "favorites.exists": "Таңдаулыларда бар",
+  "favorites.addFailed": "Таңдаулыларға қосу мүмкін болмады",
+  "favorites.removed": "Таңдаулылардан жойылды",
+  "favorites.removeFailed": "Бетбелгіні жою мүмкін болмады",
+  "favorites.moveFailed": "Бетбелгіні жылжыту мүмкін болмады",
+
+  "subscriptions.added": "🔔 Ұсыным жаңартылғанда хабарлаймын",
+  "subscriptions.removed": "🔕 Жаңартуларды бақылау тоқтатылды",
+  "subscriptions.failed": "Жазылымды өзгерту мүмкін болмады",
+  "subscriptions.unknownTarget": "Жазылу үшін диагнозды анықтау мүмкін болмады",
+
+  "updates.title": "🔔 <b>«{diagnosis}» ұсынымы жаңартылды</b>",
+  "updates.sectionAdded": "➕ Жаңа бөлім: {section}",
+  "updates.sectionRemoved": "➖ Бөлім жойылды: {section}",
+  "updates.sectionChanged": "✏️ Бөлім өзгерді: {section} (+{added} −{removed})",
+  "updates.moreLines": "…тағы өзгерген жолдар: {count}",
+  "updates.moreSections": "…тағы өзгерген бөлімдер: {count}",
+
+  "history.title": "🕘 *Соңғы диагноздар*\n\nБөлімдерін ашу үшін диагнозды таңдаңыз:",
+  "history.empty": "Тарих әзірге бос.",
+  "history.cleared": "Тарих тазаланды",
+  "history.clearFailed": "Тарихты тазалау мүмкін болмады",
+
+  "share.link": "🔗 «{section}» бөліміне сілтеме:\n{link}",
+  "share.failed": "Сілтеме жасау мүмкін болмады",
+
+  "document.preparing": "Құжатты дайындап жатырмын...",
+  "document.contents": "Мазмұны",
+  "document.diagnosis": "Диагноз",
+  "document.date": "Күні",
+
+  "inline.open": "DocTime.MedX ашу",
+  "inline.tooManyRequests": "Сұраулар тым көп, бір минут күтіңіз",
+  "inline.searchFailed": "Іздеу қатесі, кейінірек көріңіз",
+  "inline.sections": "Бөлімдер:",
+  "inline.noSections": "Бөлімдер қолжетімсіз.",
+  "inline.continuation": "Жалғасы — ботта",
+
+  "errors.retry": "{message}. Қайталап көріңіз.",
+  "errors.sectionNotFound": "Бөлім табылмады",
+  "errors.staleButton": "Бұл батырма ескірген. Боттың соңғы хабарламасын пайдаланыңыз.",
+  "errors.infoNotFound": "Ақпарат табылмады",
+  "errors.favoriteNotFound": "Бетбелгі табылмады",
+  "errors.favoritesLoadFailed": "Таңдаулыларды жүктеу мүмкін болмады",
+  "errors.subscriptionNotFound": "Жазылым табылмады — мүмкін, сіз бақылауды тоқтатқансыз",
+  "errors.search": "Диагноздарды іздеу кезінде қате пайда болды. Кейінірек көріңіз.",
+  "errors.load": "Ақпаратты жүктеу кезінде қате пайда болды. Кейінірек көріңіз.",
+  "errors.contentNotFound": "Сұралған ақпарат білім қорынан табылмады.",
+  "errors.apiUnavailable": "⚠️ Қызмет уақытша қолжетімсіз. Қалпына келтіріп жатырмыз — бірнеше минуттан кейін көріңіз.",
+  "errors.apiTimeout": "Білім қоры тым ұзақ жауап бермей тұр. Сұрауды қайталап көріңіз.",
+  "errors.apiNotFound": "Сұрауыңыз бойынша білім қорынан ештеңе табылмады.",
+  "errors.unsupportedMessage": "Диагнозды енгізу үшін мәтіндік хабарламаларды немесе мәзір командаларын пайдаланыңыз.",
+
+  "rateLimit.short": "Сұраулар тым көп, біраз күтіңіз",
+  "rateLimit.message": "⏳ Сұраулар тым көп. Біраз күтіп, қайталап көріңіз.",
+
+  "access.denied": "Ботқа қолжетімділік жоқ",
+  "access.blocked": "⛔ Ботқа қолжетімділік жабық. Егер бұл қате болса, әкімшіге хабарласыңыз.",
+  "access.invite": "🔒 DocTime.MedX шақыру арқылы қолжетімді.\n\nЖалғастыру үшін шақыру кодын жіберіңіз.",
+  "access.pending": "⏳ Қолжетімділікке өтініміңіз әкімшілерге жіберілді. Қаралған бойда хабарлаймыз.",
+  "access.unavailable": "Қызмет уақытша қолжетімсіз, кейінірек көріңіз.",
+  "access.invalidCode": "Код жарамсыз, мерзімі өткен немесе қолданылған. Тексеріп, қайта жіберіңіз.",
+  "access.codeCheckFailed": "Кодты тексеру мүмкін болмады. Қайталап көріңіз.",
+  "access.granted": "✅ Ботқа қолжетімділік ашылды. Бастау үшін /start басыңыз.",
+
+  "language.choose": "Интерфейс тілін таңдаңыз:",
+  "language.changed": "Интерфейс тілі: қазақша",
+  "language.changeFailed": "Тілді ауыстыру мүмкін болмады",
+};
+
+export { kk };
@@ -0,0 +1,137 @@
+const ru = {
+  "button.enterDiagnosis": "Ввести диагноз",
+  "button.newDiagnosis": "Ввести новый диагноз",
+  "button.recent": "🕘 Недавние",
+  "button.favorites": "⭐ Избранное",
+  "button.addFavorite": "⭐ В избранное",
+  "button.share": "🔗 Поделиться",
+  "button.download": "📄 Скачать",
+  "button.backToSections": "Назад к разделам",
+  "button.clearHistory": "🗑 Очистить историю",
+  "button.sendToColleague": "Отправить коллеге",
+  "button.openInBot": "Открыть в боте",
+  "button.voiceSearch": "🔍 Искать",
+  "button.voiceRetype": "✏️ Ввести текстом",
+  "button.subscribe": "🔔 Следить",
+  "button.unsubscribe": "🔕 Не следить",
+  "button.openGuideline": "📖 Открыть",
+
+  "welcome.text":
+    "👋 Здравствуйте, доктор!\nЯ — DocTime.MedX, ваша медицинская база знаний.\nЗадайте вопрос — и я помогу найти актуальные клинические рекомендации, проверить протокол или подсказать по диагностике и лечению.\n\n🩺 Давайте начнём: какой запрос хотите разобрать?",
+
+  "diagnosis.ask": "Введите название диагноза или код МКБ-10 (например, J45.0):",
+  "diagnosis.searching": "Ищу похожие диагнозы...",
+  "diagnosis.noResults":
+    "По вашему запросу ничего не найдено. Попробуйте ввести другой диагноз или уточнить формулировку.",
+  "diagnosis.found": {
+    one: "Найден {count} диагноз. Выберите подходящий:",
+    few: "Найдено {count} диагноза. Выберите подходящий:",
+    many: "Найдено {count} диагнозов. Выберите подходящий:",
+    other: "Найдено {count} диагноза. Выберите подходящий:",
+  },
+  "diagnosis.suggestions": "Возможно, вы имели в виду...",
+  "diagnosis.offline": "База знаний сейчас недоступна. Похожие диагнозы из сохранённого списка:",
+  "diagnosis.loading": "Загружаю информацию...",
+
+  "sections.title": "Доступные разделы:",
+  "sections.none": "Для выбранного диагноза нет доступной информации.",
+  "section.loading": "Загружаю содержимое...",
+  "section.diagnostics": "Диагностика",
+  "section.treatment": "Лечение",
+
+  "question.hint":
+    "💬 Задайте вопрос по этому диагнозу, например «дозировка у детей», и я найду ответ в разделах. Чтобы искать другой диагноз, нажмите «{newDiagnosis}».",
+  "question.searching": "Ищу ответ в разделах диагноза...",
+  "question.noResults":
+    "В разделах диагноза не нашлось ответа на этот вопрос. Попробуйте переформулировать его или откройте нужный раздел.",
+  "question.openSection": "📖 {section}",
+
+  "icd.usage": "Укажите код МКБ-10 после команды, например: /icd J45.0",
+  "icd.invalid": "«{code}» не похоже на код МКБ-10. Код состоит из латинской буквы и цифр, например J45 или J45.0.",
+  "icd.searching": "Ищу диагнозы с кодом {code}...",
+  "icd.noResults": "Для кода {code} в базе знаний не найдено рекомендаций.",
+  "icd.noResultsNamed": "{code} — {name}. В базе знаний не найдено рекомендаций с этим кодом.",
+
+  "voice.recognizing": "🎙 Распознаю голосовое сообщение...",
+  "voice.confirm": "🎙 Распознано: <b>{text}</b>\n\nИскать этот диагноз?",
+  "voice.empty": "Не удалось разобрать речь. Запишите сообщение ещё раз или введите диагноз текстом.",
+  "voice.failed": "Не удалось распознать голосовое сообщение. Попробуйте ещё раз или введите диагноз текстом.",
+  "voice.tooLong": "Голосовое сообщение слишком длинное. Назовите диагноз короче — не дольше {seconds} с.",
+  "voice.tooLarge": "Файл голосового сообщения слишком большой. Запишите сообщение короче или введите диагноз текстом.",
+
+  "favorites.title": "⭐ *Избранное*\n\nВыберите закладку, чтобы открыть её. ⬆ поднимает закладку выше, ✖ удаляет.",
+  "favorites.empty": "В избранном пока ничего нет. Откройте диагноз или раздел и нажмите «⭐ В избранное».",
+  "favorites.unknownTarget": "Не удалось определить, что добавить в избранное",
+  "favorites.added": "⭐ Добавлено в избранное",
+  "favorites.exists": "Уже есть в избранном",
+  "favorites.addFailed": "Не удалось добавить в избранное",
+  "favorites.removed": "Удалено из избранного",
+  "favorites.removeFailed": "Не удалось удалить закладку",
+  "favorites.moveFailed": "Не удалось переместить закладку",
+
+  "subscriptions.added": "🔔 Сообщу, когда рекомендация обновится",
+  "subscriptions.removed": "🔕 Больше не слежу за обновлениями",
+  "subscriptions.failed": "Не удалось изменить подписку",
+  "subscriptions.unknownTarget": "Не удалось определить диагноз для подписки",
+
+  "updates.title": "🔔 <b>Обновлена рекомендация «{diagnosis}»</b>",
+  "updates.sectionAdded": "➕ Новый раздел: {section}",
+  "updates.sectionRemoved": "➖ Удалён раздел: {section}",
+  "updates.sectionChanged": "✏️ Изменён раздел: {section} (+{added} −{removed})",
+  "updates.moreLines": "…и ещё изменённых строк: {count}",
+  "updates.moreSections": "…и ещё изменённых разделов: {count}",
+
+  "history.title": "🕘 *Недавние диагнозы*\n\nВыберите диагноз, чтобы открыть его разделы:",
+  "history.empty": "История пока пуста.",
+  "history.cleared": "История очищена",
+  "history.clearFailed": "Не удалось очистить историю",
+
+  "share.link": "🔗 Ссылка на раздел «{section}»:\n{link}",
+  "share.failed": "Не удалось создать ссылку",
+
+  "document.preparing": "Готовлю документ...",
+  "document.contents": "Содержание",
+  "document.diagnosis": "Диагноз",
+  "document.date": "Дата",
+
+  "inline.open": "Открыть DocTime.MedX",
+  "inline.tooManyRequests": "Слишком много запросов, подождите минуту",
+  "inline.searchFailed": "Ошибка поиска, попробуйте позже",
+  "inline.sections": "Разделы:",
+  "inline.noSections": "Разделы недоступны.",
+  "inline.continuation": "Продолжение — в боте",
+
+  "errors.retry": "{message}. Пожалуйста, попробуйте снова.",
+  "errors.sectionNotFound": "Раздел не найден",
+  "errors.staleButton": "Эта кнопка устарела. Воспользуйтесь последним сообщением бота.",
+  "errors.infoNotFound": "Информация не найдена",
+  "errors.favoriteNotFound": "Закладка не найдена",
+  "errors.favoritesLoadFailed": "Не удалось загрузить избранное",
+  "errors.subscriptionNotFound": "Подписка не найдена — возможно, вы уже отписались",
+  "errors.search": "Произошла ошибка при поиске диагнозов. Попробуйте позже.",
+  "errors.load": "Произошла ошибка при загрузке информации. Попробуйте позже.",
+  "errors.contentNotFound": "Запрошенная информация не найдена в базе знаний.",
+  "errors.apiUnavailable":
+    "⚠️ Сервис временно недоступен. Мы уже работаем над восстановлением — попробуйте через несколько минут.",
+  "errors.apiTimeout": "База знаний слишком долго не отвечает. Попробуйте повторить запрос.",
+  "errors.apiNotFound": "По вашему запросу ничего не найдено в базе знаний.",
+  "errors.unsupportedMessage": "Пожалуйста, используйте текстовые сообщения для ввода диагноза или команды меню.",
+
+  "rateLimit.short": "Слишком много запросов, подождите немного",
+  "rateLimit.message": "⏳ Слишком много запросов. Подождите немного и попробуйте снова.",
+
+  "access.denied": "Нет доступа к боту",
+  "access.blocked": "⛔ Доступ к боту закрыт. Если это ошибка, обратитесь к администратору.",
+  "access.invite": "🔒 DocTime.MedX доступен по приглашению.\n\nОтправьте код приглашения, чтобы продолжить.",
+  "access.pending": "⏳ Ваша заявка на доступ отправлена администраторам. Мы сообщим, как только её рассмотрят.",
+  "access.unavailable": "Сервис временно недоступен, попробуйте позже.",
+  "access.invalidCode": "Код недействителен, истёк или уже использован. Проверьте его и отправьте ещё раз.",
+  "access.codeCheckFailed": "Не удалось проверить код. Пожалуйста, попробуйте снова.",
+  "access.granted": "✅ Доступ к боту открыт. Нажмите /start, чтобы начать.",
+
+  "language.choose": "Выберите язык интерфейса:",
+  "language.changed": "Язык интерфейса: русский",
+  "language.changeFailed": "Не удалось сменить язык",
+};
+
+export { ru };
@@ -0,0 +1,18 @@
+import { PluralForm } from "./catalog";
+
+// Правила CLDR для поддерживаемых языков; в казахском, как и в английском, форм две
+function pluralForm(locale: string, count: number): PluralForm {
+  if (locale !== "ru") return count === 1 ? "one" : "other";
+
+  if (!Number.isInteger(count)) return "other";
+
+  const mod10 = count % 10;
+  const mod100 = count % 100;
+
+  if (mod10 === 1 && mod100 !== 11) return "one";
+  if (mod10 >= 2 && mod10 <= 4 && (mod100 < 12 || mod100 > 14)) return "few";
+
+  return "many";
+}
+
+export { pluralForm };
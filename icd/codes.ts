@@ -0,0 +1,51 @@
+// Рубрика МКБ-10 — латинская буква и две цифры, подрубрика — ещё одна-две цифры после точки: J45, J45.0
+const ICD_CODE = "[A-ZАВЕКМНОРСТХ]\\d{2}(?:[.,]\\d{1,2})?";
+const ICD_CODE_PATTERN = new RegExp(`(?:^|[^A-Za-zА-Яа-яЁё0-9])(${ICD_CODE})(?![0-9A-Za-zА-Яа-яЁё])`, "gi");
+const EXACT_ICD_CODE_PATTERN = new RegExp(`^${ICD_CODE}$`, "i");
+
+// Кириллические буквы, которые на вид не отличить от латинских: в русской раскладке код набирают ими
+const CYRILLIC_LOOKALIKES: Record<string, string> = {
+  А: "A",
+  В: "B",
+  Е: "E",
+  К: "K",
+  М: "M",
+  Н: "H",
+  О: "O",
+  Р: "P",
+  С: "C",
+  Т: "T",
+  Х: "X",
+};
+
+function normalizeICDCode(code: string): string {
+  return code
+    .trim()
+    .toUpperCase()
+    .replace(/[АВЕКМНОРСТХ]/g, (letter) => CYRILLIC_LOOKALIKES[letter])
+    .replace(",", ".");
+}
+
+// Код, если всё сообщение — один код МКБ-10; иначе null
+function parseICDCode(text: string): string | null {
+  return EXACT_ICD_CODE_PATTERN.test(text.trim()) ? normalizeICDCode(text) : null;
+}
+
+// Все коды из текста без повторов, в порядке появления
+function extractICDCodes(text: string): string[] {
+  const codes = Array.from(text.matchAll(ICD_CODE_PATTERN), (match) => normalizeICDCode(match[1]));
+  return codes.filter((code, index) => codes.indexOf(code) === index);
+}
+
+// Рубрика подрубрики: J45.0 → J45; для рубрики — null
+function getParentICDCode(code: string): string | null {
+  const dot = code.indexOf(".");
+  return dot === -1 ? null : code.slice(0, dot);
+}
+
+// J45.0 относится к J45, а J45 — к J45.0: так сопоставляются коды разной точности
+function isRelatedICDCode(a: string, b: string): boolean {
+  return a === b || getParentICDCode(a) === b || getParentICDCode(b) === a;
+}
+
+export { normalizeICDCode, parseICDCode, extractICDCodes, getParentICDCode, isRelatedICDCode };
@@ -0,0 +1,134 @@
+import { readFileSync } from "fs";
+import { array, object, optional, string } from "../repositories/apiRepository/schema";
+import { getParentICDCode, normalizeICDCode } from "./codes";
+
+type ICDEntry = {
+  code: string;
+  name: string;
+  // Названия клинических рекомендаций, под которыми диагноз встречается в базе знаний
+  synonyms?: string[];
+};
+
+// Встроенный справочник: частые рубрики и подрубрики МКБ-10. Полный справочник подключается файлом, см. ICDDictionary.load
+const ICD10_ENTRIES: ICDEntry[] = [
+  { code: "A09", name: "Диарея и гастроэнтерит предположительно инфекционного происхождения" },
+  { code: "A15", name: "Туберкулез органов дыхания", synonyms: ["Туберкулез у взрослых"] },
+  { code: "B18", name: "Хронический вирусный гепатит" },
+  { code: "B20", name: "Болезнь, вызванная вирусом иммунодефицита человека", synonyms: ["ВИЧ-инфекция у взрослых"] },
+  { code: "C34", name: "Злокачественное новообразование бронхов и легкого", synonyms: ["Рак легкого"] },
+  { code: "C50", name: "Злокачественное новообразование молочной железы", synonyms: ["Рак молочной железы"] },
+  {
+    code: "C61",
+    name: "Злокачественное новообразование предстательной железы",
+    synonyms: ["Рак предстательной железы"],
+  },
+  { code: "D50", name: "Железодефицитная анемия" },
+  { code: "E03", name: "Другие формы гипотиреоза", synonyms: ["Гипотиреоз"] },
+  { code: "E05", name: "Тиреотоксикоз", synonyms: ["Тиреотоксикоз с диффузным зобом"] },
+  { code: "E10", name: "Инсулинзависимый сахарный диабет", synonyms: ["Сахарный диабет 1 типа"] },
+  { code: "E11", name: "Инсулиннезависимый сахарный диабет", synonyms: ["Сахарный диабет 2 типа"] },
+  { code: "E66", name: "Ожирение" },
+  { code: "E78", name: "Нарушения обмена липопротеинов", synonyms: ["Нарушения липидного обмена", "Дислипидемия"] },
+  { code: "F20", name: "Шизофрения" },
+  { code: "F32", name: "Депрессивный эпизод" },
+  { code: "F41", name: "Другие тревожные расстройства", synonyms: ["Тревожное расстройство"] },
+  { code: "G35", name: "Рассеянный склероз" },
+  { code: "G40", name: "Эпилепсия" },
+  { code: "G43", name: "Мигрень" },
+  { code: "I10", name: "Эссенциальная (первичная) гипертензия", synonyms: ["Артериальная гипертензия"] },
+  { code: "I11", name: "Гипертензивная болезнь сердца" },
+  { code: "I20", name: "Стенокардия", synonyms: ["Стабильная ишемическая болезнь сердца"] },
+  { code: "I21", name: "Острый инфаркт миокарда" },
+  { code: "I25", name: "Хроническая ишемическая болезнь сердца" },
+  { code: "I48", name: "Фибрилляция и трепетание предсердий" },
+  { code: "I50", name: "Сердечная недостаточность", synonyms: ["Хроническая сердечная недостаточность"] },
+  { code: "I63", name: "Инфаркт мозга", synonyms: ["Ишемический инсульт"] },
+  { code: "I83", name: "Варикозное расширение вен нижних конечностей" },
+  { code: "J01", name: "Острый синусит" },
+  { code: "J02", name: "Острый фарингит" },
+  { code: "J03", name: "Острый тонзиллит" },
+  { code: "J06", name: "Острые инфекции верхних дыхательных путей множественной и неуточненной локализации" },
+  { code: "J18", name: "Пневмония без уточнения возбудителя", synonyms: ["Внебольничная пневмония"] },
+  { code: "J20", name: "Острый бронхит" },
+  { code: "J44", name: "Другая хроническая обструктивная легочная болезнь", synonyms: ["ХОБЛ"] },
+  { code: "J45", name: "Астма", synonyms: ["Бронхиальная астма"] },
+  { code: "J45.0", name: "Астма с преобладанием аллергического компонента" },
+  { code: "J45.1", name: "Неаллергическая астма" },
+  { code: "J45.8", name: "Смешанная астма" },
+  { code: "J45.9", name: "Астма неуточненная" },
+  { code: "J46", name: "Астматический статус" },
+  { code: "K21", name: "Гастроэзофагеальный рефлюкс", synonyms: ["Гастроэзофагеальная рефлюксная болезнь"] },
+  { code: "K25", name: "Язва желудка" },
+  { code: "K26", name: "Язва двенадцатиперстной кишки" },
+  { code: "K29", name: "Гастрит и дуоденит" },
+  { code: "K29.0", name: "Острый геморрагический гастрит" },
+  { code: "K29.1", name: "Другие острые гастриты", synonyms: ["Острый гастрит"] },
+  { code: "K29.5", name: "Хронический гастрит неуточненный", synonyms: ["Хронический гастрит"] },
+  { code: "K35", name: "Острый аппендицит" },
+  { code: "K80", name: "Желчнокаменная болезнь" },
+  { code: "K81", name: "Холецистит" },
+  { code: "K85", name: "Острый панкреатит" },
+  { code: "K86.1", name: "Другие хронические панкреатиты", synonyms: ["Хронический панкреатит"] },
+  { code: "L20", name: "Атопический дерматит" },
+  { code: "L40", name: "Псориаз" },
+  { code: "M05", name: "Серопозитивный ревматоидный артрит", synonyms: ["Ревматоидный артрит"] },
+  { code: "M10", name: "Подагра" },
+  { code: "M17", name: "Гонартроз", synonyms: ["Гонартроз и сходные с ним клинические состояния"] },
+  { code: "M81", name: "Остеопороз без патологического перелома", synonyms: ["Остеопороз"] },
+  { code: "N18", name: "Хроническая болезнь почки" },
+  { code: "N20", name: "Камни почки и мочеточника", synonyms: ["Мочекаменная болезнь"] },
+  { code: "N30", name: "Цистит" },
+  { code: "N39.0", name: "Инфекция мочевыводящих путей без установленной локализации" },
+  { code: "S72", name: "Перелом бедренной кости" },
+  { code: "U07.1", name: "COVID-19, вирус идентифицирован", synonyms: ["Новая коронавирусная инфекция COVID-19"] },
+];
+
+const entriesSchema = array(object({ code: string, name: string, synonyms: optional(array(string)) }));
+
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase().replace(/ё/g, "е").replace(/\s+/g, " ");
+}
+
+// Код → название и обратный поиск кода по названию диагноза
+class ICDDictionary {
+  private byCode = new Map<string, ICDEntry>();
+  private byName = new Map<string, string>();
+
+  constructor(entries: ICDEntry[] = ICD10_ENTRIES) {
+    entries.forEach((entry) => this.add(entry));
+  }
+
+  // Для подрубрики без своей записи отдаётся запись рубрики
+  get(code: string): ICDEntry | undefined {
+    const normalized = normalizeICDCode(code);
+    const parent = getParentICDCode(normalized);
+
+    return this.byCode.get(normalized) ?? (parent ? this.byCode.get(parent) : undefined);
+  }
+
+  findCode(diagnosis: string): string | null {
+    return this.byName.get(normalizeName(diagnosis)) ?? null;
+  }
+
+  // Более поздняя запись с тем же кодом заменяет прежнюю
+  private add(entry: ICDEntry): void {
+    const code = normalizeICDCode(entry.code);
+    this.byCode.set(code, { ...entry, code });
+
+    [entry.name, ...(entry.synonyms ?? [])].forEach((name) => this.byName.set(normalizeName(name), code));
+  }
+
+  // Встроенный справочник, дополненный записями из JSON-файла: [{ "code": "J45.0", "name": "..." }]
+  static load(file?: string): ICDDictionary {
+    if (!file) return new ICDDictionary();
+
+    const entries = entriesSchema(JSON.parse(readFileSync(file, "utf8")), file);
+
+    return new ICDDictionary([
+      ...ICD10_ENTRIES,
+      ...entries.map((entry) => ({ ...entry, synonyms: entry.synonyms ?? [] })),
+    ]);
+  }
+}
+
+export { ICDEntry, ICDDictionary, ICD10_ENTRIES };
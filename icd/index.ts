@@ -0,0 +1,88 @@
+import { KnowledgeBaseClient } from "../repositories/apiRepository";
+import { IDiagnosis } from "../types/knowledgeBase";
+import { getSectionKey } from "../utils/sectionKeys";
+import { extractICDCodes, getParentICDCode, isRelatedICDCode, normalizeICDCode, parseICDCode } from "./codes";
+import { ICD10_ENTRIES, ICDDictionary, ICDEntry } from "./dictionary";
+
+// Сколько кодов показывать в значке; у рекомендации их бывает несколько десятков
+const ICD_BADGE_LIMIT = 2;
+
+// Связывает диагнозы базы знаний с кодами МКБ-10: по коду находит диагнозы, по диагнозу — его коды
+class ICDResolver {
+  constructor(
+    private readonly client: KnowledgeBaseClient,
+    private readonly dictionary: ICDDictionary
+  ) {}
+
+  getEntry(code: string): ICDEntry | undefined {
+    return this.dictionary.get(code);
+  }
+
+  // Источники по убыванию точности: код из ответа API, раздел «МКБ» рекомендации, встроенный справочник.
+  // Раздел «МКБ» запрашивается отдельно, поэтому коды так берутся только для одного открытого диагноза.
+  // sections — уже загруженный список разделов, чтобы не запрашивать его повторно
+  async getCodes(diagnosis: IDiagnosis, sections?: string[]): Promise<string[]> {
+    if (diagnosis.icd) return this.getKnownCodes(diagnosis);
+
+    try {
+      const titles = sections ?? (await this.client.getSectionList(diagnosis.name)).map((section) => section.title);
+      const icdSection = titles.find((title) => getSectionKey(title) === "icd");
+
+      if (icdSection) {
+        const codes = extractICDCodes(await this.client.getSection(diagnosis.name, icdSection));
+        if (codes.length) return codes;
+      }
+    } catch (error) {
+      console.error(`Не удалось получить коды МКБ для ${diagnosis.name}:`, error);
+    }
+
+    return this.getKnownCodes(diagnosis);
+  }
+
+  // Коды без обращения к API: для списков вариантов и когда база знаний недоступна
+  getKnownCodes(diagnosis: IDiagnosis): string[] {
+    if (diagnosis.icd) return [normalizeICDCode(diagnosis.icd)];
+
+    const code = this.dictionary.findCode(diagnosis.name);
+    return code ? [code] : [];
+  }
+
+  // База знаний ищет по тексту, поэтому запрашивается и сам код, и его название из справочника.
+  // Диагнозы с подходящим известным кодом идут первыми; если код не подтвердился ни у одного, остаются все найденные
+  async findDiagnoses(code: string): Promise<IDiagnosis[]> {
+    const entry = this.dictionary.get(code);
+    const queries = [code, ...(entry ? [entry.name, ...(entry.synonyms ?? [])] : [])];
+
+    const found: IDiagnosis[] = [];
+    for (const diagnoses of await Promise.all(queries.map((query) => this.client.getDiagnoses(query)))) {
+      diagnoses.forEach((diagnosis) => {
+        if (!found.some((item) => item.name === diagnosis.name)) found.push(diagnosis);
+      });
+    }
+
+    const matches = found.filter((diagnosis) =>
+      this.getKnownCodes(diagnosis).some((item) => isRelatedICDCode(item, code))
+    );
+
+    return matches.length ? matches : found;
+  }
+}
+
+function formatICDBadge(codes: string[]): string {
+  if (!codes.length) return "";
+
+  return codes.slice(0, ICD_BADGE_LIMIT).join(", ") + (codes.length > ICD_BADGE_LIMIT ? "…" : "");
+}
+
+export {
+  ICDResolver,
+  ICDDictionary,
+  ICDEntry,
+  ICD10_ENTRIES,
+  extractICDCodes,
+  formatICDBadge,
+  getParentICDCode,
+  isRelatedICDCode,
+  normalizeICDCode,
+  parseICDCode,
+};
@@ -1,256 +1,1503 @@
-import { Telegraf, Markup, Context } from "telegraf";
+import { Telegraf, Markup, Context, TelegramError, Composer } from "telegraf";
+import { InlineQueryResult } from "telegraf/types";
 import { config } from "dotenv";
-import fs from "fs";
 import path from "path";
 import { createHash } from "crypto";
-import { Repositories } from "./repositories";
+import { APICacheConfig, APIHTTPOptions, Repositories, RepositoryLayer } from "./repositories";
+import { Cache, createCache } from "./cache";
+import { APIError, APINotFoundError, APITimeoutError, APIUnavailableError } from "./repositories/apiRepository";
 import createDatabase from "./database";
+import { SessionStore, createSessionStore } from "./sessions";
+import { BroadcastDraft, UserState } from "./types/session";
+import { paginate } from "./utils/paginator";
+import { escapeHTML, renderMarkdown, toPlainText } from "./utils/markdownRenderer";
+import { IFavorite } from "./types/favorite";
+import { IClientEvent } from "./types/clientEvent";
+import { ClientStatus, IClient } from "./types/client";
+import { InlineQueryThrottle, InlineQueryThrottleOptions } from "./utils/inlineQueryThrottle";
+import { BroadcastSender, BroadcastSenderOptions } from "./broadcasts";
+import {
+  DEFAULT_LOCALE,
+  LOCALE_NAMES,
+  Locale,
+  MessageKey,
+  Translator,
+  createTranslator,
+  detectLocale,
+  isLocale,
+} from "./i18n";
+import { getSectionKey, isHiddenSection, sortSections } from "./utils/sectionKeys";
+import { SectionDocument, searchSections } from "./utils/sectionSearch";
+import { DocumentSection, buildDocument, buildDocumentFileName } from "./utils/documentExport";
+import {
+  ConversationEvent,
+  INITIAL_STATE,
+  hasDiagnosis,
+  nextState,
+  parseVersionedCallback,
+  resolveCallback,
+  storeCallback,
+  versionCallback,
+  versioned,
+} from "./conversation";
+import { RateLimitConfig, RateLimitKind, RateLimiter, createRateLimiter } from "./rateLimit";
+import { HTTPServer } from "./server";
+import { errorsTotal, metrics, speechRecognitionsTotal, updatesTotal } from "./metrics";
+import { ICDDictionary, ICDResolver, formatICDBadge, parseICDCode } from "./icd";
+import { IDiagnosis } from "./types/knowledgeBase";
+import { DiagnosisIndex, DiagnosisIndexOptions, switchKeyboardLayout } from "./diagnosisIndex";
+import { CommandSpeechRecognizerOptions, SpeechRecognizer, createSpeechRecognizer } from "./speech";
+import { GuidelineWatcher, GuidelineWatcherOptions } from "./guidelineWatcher";
+
+const HISTORY_LIMIT = 10;
+const INLINE_MIN_QUERY_LENGTH = 3;
+const DEEP_LINK_TOKEN_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+const INLINE_RESULTS_LIMIT = 5;
+const WELCOME_RECENT_LIMIT = 3;
+const ADMIN_STATS_DEFAULT_DAYS = 7;
+const ADMIN_TOP_LIMIT = 10;
+const ADMIN_USER_EVENTS_LIMIT = 15;
+const ADMIN_BROADCASTS_LIMIT = 5;
+const QUESTION_SNIPPETS_LIMIT = 3;
+const SUGGESTIONS_LIMIT = 5;
+// Распознанный текст идёт в поиск и историю, где запрос ограничен 512 символами
+const VOICE_TRANSCRIPT_LIMIT = 512;
+const INVITE_CODE_PATTERN = /^[A-Za-z0-9]{8}$/;
+// Кнопки, после которых бот загружает разделы из API
+const SECTION_LOAD_ACTION_PATTERN =
+  /^(v\d+:)?(select_diagnosis:|open_diagnosis:|select_section:|back_to_sections$|section_page:|favorite_open:|subscription_open:|download:)/;
+// Значения кнопок выбора диагноза и раздела; старые вытесняются, чтобы сессия не росла бесконечно
+const CALLBACK_MAP_OPTIONS = { limit: 200, ttl: 24 * 60 * 60 * 1000 };
+// Не чаще одного предупреждения о лимите за этот интервал, чтобы не отвечать на флуд флудом
+const RATE_LIMIT_NOTICE_INTERVAL = 10 * 1000;
+// Сколько при остановке ждать обработки уже полученных обновлений
+const SHUTDOWN_DRAIN_TIMEOUT = 10 * 1000;
+// Как долго роли администраторов из БД действуют без перечитывания; после повышения роли лимиты снимаются не позже
+const ADMIN_ROLES_TTL = 60 * 1000;
+// Через сколько повторить загрузку ролей, если БД не ответила
+const ADMIN_ROLES_RETRY = 10 * 1000;
+
+// Лимит Telegram — 4096 символов; остаток уходит на заголовок раздела и выравнивание таблиц
+const SECTION_PAGE_LIMIT = 3500;
 
 config();
 
-interface UserState {
-  diagnosis?: string;
-  sections?: string[];
-  messageIds?: number[];
-  callbackMap?: { [key: string]: string };
-  currentSection?: string;
+// open — бот доступен всем, invite — только по коду приглашения, approval — после одобрения администратором
+type AccessMode = "open" | "invite" | "approval";
+
+type LaunchOptions = {
+  mode: "polling" | "webhook";
+  // Публичный адрес вебхука; путь из него же принимает HTTP-сервер
+  webhookURL: string;
+  webhookSecret: string;
+  // Порт для вебхука, /healthz и /metrics; 0 — сервер не запускается
+  httpPort: number;
+};
+
+interface BotContext extends Context {
+  userState?: UserState;
+  isAdmin?: boolean;
+  clientStatus?: ClientStatus;
+  locale: Locale;
+  t: Translator;
 }
 
-interface BotContext extends Context {
-  userState?: UserState;
-}
+// Внешние зависимости бота: в продакшене — Telegram и MySQL, в сценариях из harness — подделки в памяти
+type MedicalBotDependencies = {
+  bot: Telegraf<BotContext>;
+  sessionStore: SessionStore;
+  repositories: RepositoryLayer;
+  rateLimiter: RateLimiter;
+  documentCache: Cache<string>;
+  icdDictionary: ICDDictionary;
+  diagnosisIndex: DiagnosisIndex;
+  // null — голосовые сообщения не принимаются
+  speechRecognizer: SpeechRecognizer | null;
+  guidelineWatcher: GuidelineWatcher;
+};
+
+type MedicalBotOptions = {
+  adminIds: number[];
+  inlineOptions: InlineQueryThrottleOptions;
+  broadcastOptions: BroadcastSenderOptions;
+  accessMode: AccessMode;
+  rateLimitConfig: RateLimitConfig;
+  // Самое длинное голосовое сообщение, которое бот распознаёт, секунд
+  voiceMaxDuration: number;
+  // Самый большой файл голосового сообщения, байт; больший файл не скачивается
+  voiceMaxFileSize: number;
+  // Сколько ждать скачивания файла голосового сообщения, мс
+  voiceDownloadTimeout: number;
+};
+
+class MedicalBot {
+  private bot: Telegraf<BotContext>;
+  private sessionStore: SessionStore;
+  private repositories: RepositoryLayer;
+  private adminIds: number[];
+  private inlineThrottle: InlineQueryThrottle;
+  private broadcastSender: BroadcastSender;
+  private accessMode: AccessMode;
+  private rateLimiter: RateLimiter;
+  private rateLimitConfig: RateLimitConfig;
+  private rateLimitNotices = new Map<number, number>();
+  private adminRoles: { ids: Set<number>; loadedAt: number; loading?: Promise<void> } = {
+    ids: new Set(),
+    loadedAt: 0,
+  };
+  private launchOptions?: LaunchOptions;
+  private httpServer?: HTTPServer;
+  private inFlightUpdates = 0;
+  private documentCache: Cache<string>;
+  private icdResolver: ICDResolver;
+  private diagnosisIndex: DiagnosisIndex;
+  private speechRecognizer: SpeechRecognizer | null;
+  private voiceMaxDuration: number;
+  private voiceMaxFileSize: number;
+  private voiceDownloadTimeout: number;
+  private guidelineWatcher: GuidelineWatcher;
+
+  constructor(dependencies: MedicalBotDependencies, options: MedicalBotOptions) {
+    this.bot = dependencies.bot;
+    this.sessionStore = dependencies.sessionStore;
+    this.repositories = dependencies.repositories;
+    this.rateLimiter = dependencies.rateLimiter;
+    this.documentCache = dependencies.documentCache;
+    this.diagnosisIndex = dependencies.diagnosisIndex;
+    this.speechRecognizer = dependencies.speechRecognizer;
+    this.guidelineWatcher = dependencies.guidelineWatcher;
+    this.icdResolver = new ICDResolver(this.repositories.apiRepository, dependencies.icdDictionary);
+
+    this.adminIds = options.adminIds;
+    this.accessMode = options.accessMode;
+    this.rateLimitConfig = options.rateLimitConfig;
+    this.voiceMaxDuration = options.voiceMaxDuration;
+    this.voiceMaxFileSize = options.voiceMaxFileSize;
+    this.voiceDownloadTimeout = options.voiceDownloadTimeout;
+    this.inlineThrottle = new InlineQueryThrottle(options.inlineOptions);
+    this.broadcastSender = new BroadcastSender(this.bot.telegram, this.repositories, options.broadcastOptions);
+    this.setupBot();
+  }
+
+  private setupBot(): void {
+    this.setupMiddlewares();
+    this.setupHandlers();
+
+    this.bot.catch((error, ctx) => {
+      errorsTotal.inc({ source: "unhandled" });
+      console.error(`Необработанная ошибка (${ctx.updateType}):`, error);
+    });
+  }
+
+  private setupMiddlewares(): void {
+    // Счётчик нужен, чтобы при остановке дождаться обработки уже полученных обновлений
+    this.bot.use(async (ctx, next) => {
+      updatesTotal.inc({ type: ctx.updateType });
+      this.inFlightUpdates++;
+
+      try {
+        await next();
+      } finally {
+        this.inFlightUpdates--;
+      }
+    });
+
+    // До загрузки клиента язык берётся из Telegram; сохранённый выбор подставляется ниже
+    this.bot.use((ctx, next) => {
+      this.setLocale(ctx, detectLocale(ctx.from?.language_code));
+      return next();
+    });
+
+    // Лимиты проверяются до загрузки клиента: флуд не должен занимать пул соединений.
+    // Роль берётся из кэша, чтобы администраторы из БД не отличались от администраторов из ADMIN_IDS
+    this.bot.use(async (ctx, next) => {
+      const userId = ctx.from?.id;
+      const kind = this.getRateLimitKind(ctx);
+      if (!userId || !kind) return next();
+
+      ctx.isAdmin = await this.isAdminUser(userId);
+      if (ctx.isAdmin) return next();
+
+      if (await this.tryConsumeRateLimit(kind, userId)) return next();
+
+      await this.sendRateLimitNotice(ctx, userId);
+    });
+
+    this.bot.use(async (ctx, next) => {
+      const user = ctx.from;
+      if (!user) return next();
+
+      const client = await this.syncUserData(user);
+      // Без клиента из БД остаётся роль, определённая перед проверкой лимитов
+      ctx.isAdmin = client ? this.adminIds.includes(user.id) || client.role === "admin" : !!ctx.isAdmin;
+      ctx.clientStatus = client?.status;
+      if (isLocale(client?.language)) this.setLocale(ctx, client.language);
+
+      const userState = (await this.sessionStore.getUserState(user.id)) || {
+        messageIds: [],
+        callbackMap: {},
+      };
+
+      ctx.userState = userState;
+      return next();
+    });
+
+    // Закрытый режим: без активного доступа пользователь видит только экран ввода кода или ожидания
+    this.bot.use(async (ctx, next) => {
+      if (!ctx.from || ctx.isAdmin || ctx.clientStatus === "active") return next();
+
+      // Если БД недоступна, в открытом режиме пропускаем всех, как и раньше
+      if (!ctx.clientStatus && this.accessMode === "open") return next();
+      if (ctx.clientStatus === "pending" && this.accessMode === "open") return next();
+
+      await this.handleRestrictedAccess(ctx);
+    });
+  }
+
+  private setLocale(ctx: BotContext, locale: Locale): void {
+    ctx.locale = locale;
+    ctx.t = createTranslator(locale);
+  }
+
+  private getRateLimitKind(ctx: BotContext): RateLimitKind | null {
+    const data = ctx.callbackQuery && "data" in ctx.callbackQuery ? ctx.callbackQuery.data : undefined;
+    if (data) return SECTION_LOAD_ACTION_PATTERN.test(data) ? "section" : null;
+
+    // Распознавание речи дороже поиска, поэтому голосовые сообщения тратят тот же лимит
+    if (ctx.message && "voice" in ctx.message) return "search";
+
+    const text = ctx.message && "text" in ctx.message ? ctx.message.text.trim() : "";
+    if (!text) return null;
+
+    // /start с параметром открывает диагноз или раздел по ссылке
+    if (text.startsWith("/start ")) return "section";
+    if (text.startsWith("/icd ")) return "search";
+
+    return text.startsWith("/") ? null : "search";
+  }
+
+  private async isAdminUser(userId: number): Promise<boolean> {
+    if (this.adminIds.includes(userId)) return true;
+
+    const roles = this.adminRoles;
+    if (Date.now() - roles.loadedAt > ADMIN_ROLES_TTL) {
+      roles.loading ??= this.repositories.clientsRepository
+        .getAll({ role: "admin" })
+        .then((admins) => {
+          roles.ids = new Set(admins.map(({ telegramId }) => Number(telegramId)));
+          roles.loadedAt = Date.now();
+        })
+        // Если БД недоступна, действуют роли из последней успешной загрузки; повторный запрос — через ADMIN_ROLES_RETRY
+        .catch((error) => {
+          console.error("Ошибка при загрузке ролей администраторов:", error);
+          roles.loadedAt = Date.now() - ADMIN_ROLES_TTL + ADMIN_ROLES_RETRY;
+        })
+        .finally(() => (roles.loading = undefined));
+
+      await roles.loading;
+    }
+
+    return roles.ids.has(userId);
+  }
+
+  // Сначала личная корзина, потом общая: иначе один пользователь мог бы исчерпать общий лимит
+  private async tryConsumeRateLimit(kind: RateLimitKind, userId: number): Promise<boolean> {
+    const limits = this.rateLimitConfig[kind];
+
+    try {
+      return (
+        (await this.rateLimiter.consume(`${kind}:user:${userId}`, limits.user)) &&
+        (await this.rateLimiter.consume(`${kind}:global`, limits.global))
+      );
+    } catch (error) {
+      console.error("Ошибка проверки лимита запросов:", error);
+      return true;
+    }
+  }
+
+  private async sendRateLimitNotice(ctx: BotContext, userId: number): Promise<void> {
+    if (ctx.callbackQuery) {
+      await ctx.answerCbQuery(ctx.t("rateLimit.short")).catch(console.log);
+      return;
+    }
+
+    const now = Date.now();
+    if (now - (this.rateLimitNotices.get(userId) ?? 0) < RATE_LIMIT_NOTICE_INTERVAL) return;
+
+    for (const [id, notifiedAt] of this.rateLimitNotices) {
+      if (now - notifiedAt >= RATE_LIMIT_NOTICE_INTERVAL) this.rateLimitNotices.delete(id);
+    }
+    this.rateLimitNotices.set(userId, now);
+
+    await ctx.reply(ctx.t("rateLimit.message")).catch(console.log);
+  }
+
+  private async syncUserData(user: any): Promise<IClient | null> {
+    try {
+      const client = await this.repositories.clientsRepository.getOne({
+        telegramId: user.id,
+      });
+
+      const userData = {
+        telegramId: user.id,
+        username: user.username ?? user.id.toString(),
+        firstName: user.first_name,
+        lastName: user.last_name ?? null,
+      };
+
+      if (!client) {
+        const status: ClientStatus = this.accessMode === "open" ? "active" : "pending";
+        const language = detectLocale(user.language_code);
+        await this.repositories.clientsRepository.create({ ...userData, language, status });
+
+        if (this.accessMode === "approval") {
+          this.requestAccessApproval(userData).catch((error) =>
+            console.error("Ошибка отправки заявки на доступ:", error)
+          );
+        }
+
+        return { ...userData, language, role: "user", status, blockedAt: null, createdAt: new Date() };
+      }
+
+      // Клиентам, зарегистрированным до появления языков, сохраняем язык из Telegram
+      await this.repositories.clientsRepository.update({
+        ...userData,
+        blockedAt: null,
+        ...(client.language ? {} : { language: detectLocale(user.language_code) }),
+      });
+
+      return client;
+    } catch (error) {
+      console.error("Ошибка синхронизации пользователя:", error);
+      return null;
+    }
+  }
+
+  // Доступ
+  private async handleRestrictedAccess(ctx: BotContext): Promise<void> {
+    if (ctx.inlineQuery) {
+      await ctx
+        .answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: { text: ctx.t("access.denied"), start_parameter: "access" },
+        })
+        .catch(console.log);
+      return;
+    }
+
+    if (ctx.callbackQuery) {
+      await ctx.answerCbQuery(ctx.t("access.denied"), { show_alert: true }).catch(console.log);
+      return;
+    }
+
+    // Служебные обновления (например, my_chat_member) оставляем без ответа
+    if (!ctx.message) return;
+
+    if (ctx.clientStatus === "pending" && this.accessMode === "invite") {
+      const text = "text" in ctx.message ? ctx.message.text.trim() : "";
+      const code = text.startsWith("/start") ? text.slice("/start".length).trim() : text;
+
+      if (INVITE_CODE_PATTERN.test(code)) {
+        await this.redeemInviteCode(ctx, code);
+        return;
+      }
+    }
+
+    try {
+      await this.clearPreviousMessages(ctx);
+      const message = await ctx.reply(ctx.t(this.describeRestrictedAccess(ctx.clientStatus)));
+      await this.saveMessageId(ctx, message.message_id);
+    } catch (error) {
+      console.error("Ошибка при показе экрана доступа:", error);
+    }
+  }
+
+  private describeRestrictedAccess(status: ClientStatus | undefined): MessageKey {
+    if (status === "blocked") return "access.blocked";
+    if (status === "pending" && this.accessMode === "invite") return "access.invite";
+    if (status === "pending" && this.accessMode === "approval") return "access.pending";
+
+    return "access.unavailable";
+  }
+
+  private async redeemInviteCode(ctx: BotContext, code: string): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    try {
+      await this.clearPreviousMessages(ctx);
+
+      if (!(await this.repositories.inviteCodesRepository.redeem(code))) {
+        const message = await ctx.reply(ctx.t("access.invalidCode"));
+        await this.saveMessageId(ctx, message.message_id);
+        return;
+      }
+
+      await this.repositories.clientsRepository.update({ telegramId: userId, status: "active" });
+      ctx.clientStatus = "active";
+
+      await this.sendWelcomeMessage(ctx);
+    } catch (error) {
+      console.error("Ошибка активации кода приглашения:", error);
+      await ctx.reply(ctx.t("access.codeCheckFailed")).catch(console.log);
+    }
+  }
+
+  private async requestAccessApproval(user: Pick<IClient, "telegramId" | "username" | "firstName" | "lastName">) {
+    const admins = await this.repositories.clientsRepository.getAll({ role: "admin" });
+    const adminIds = new Set([...this.adminIds, ...admins.map(({ telegramId }) => telegramId)]);
+
+    const text = [
+      "🆕 <b>Заявка на доступ</b>",
+      "",
+      `${escapeHTML([user.firstName, user.lastName].filter(Boolean).join(" "))}`,
+      `ID: <code>${user.telegramId}</code>`,
+      `Username: @${escapeHTML(user.username)}`,
+    ].join("\n");
+
+    const keyboard = Markup.inlineKeyboard([
+      Markup.button.callback("✅ Одобрить", `access_approve:${user.telegramId}`),
+      Markup.button.callback("❌ Отклонить", `access_reject:${user.telegramId}`),
+    ]);
+
+    for (const adminId of adminIds) {
+      await this.bot.telegram.sendMessage(adminId, text, { parse_mode: "HTML", ...keyboard }).catch(console.log);
+    }
+  }
+
+  private async setClientStatus(client: IClient, status: ClientStatus): Promise<void> {
+    await this.repositories.clientsRepository.update({ telegramId: client.telegramId, status });
+
+    const t = createTranslator(isLocale(client.language) ? client.language : DEFAULT_LOCALE);
+    const text = t(status === "active" ? "access.granted" : "access.blocked");
+
+    await this.bot.telegram.sendMessage(client.telegramId, text).catch(console.log);
+  }
+
+  private setupHandlers(): void {
+    // Команды администраторов; для остальных пользователей их не существует
+    this.bot.use(Composer.optional((ctx) => !!ctx.isAdmin, this.createAdminComposer()));
+
+    // Команды
+    this.bot.start((ctx) => this.handleStart(ctx, ctx.payload));
+    this.bot.command("new_diagnosis", (ctx) => this.handleNewDiagnosis(ctx));
+    this.bot.command("favorites", (ctx) => this.handleFavorites(ctx));
+    this.bot.command("history", (ctx) => this.handleHistory(ctx));
+    this.bot.command("language", (ctx) => this.handleLanguage(ctx));
+    this.bot.command("icd", (ctx) => this.handleICDCommand(ctx, ctx.payload.trim()));
+
+    // Обработка текстовых сообщений
+    this.bot.on("text", (ctx) => this.handleTextInput(ctx));
+    this.bot.on("voice", (ctx) => this.handleVoice(ctx));
+
+    // Кнопки с версией состояния нажаты в старом сообщении, если версия не совпадает с текущей
+    this.bot.on("callback_query", async (ctx, next) => {
+      const payload = "data" in ctx.callbackQuery ? parseVersionedCallback(ctx.callbackQuery.data) : null;
+      if (!payload || payload.version === (ctx.userState?.stateVersion ?? 0)) return next();
+
+      await this.rejectStaleButton(ctx);
+    });
+
+    // Обработка callback-кнопок
+    this.bot.action(versioned("select_diagnosis:(.+)"), (ctx) =>
+      this.handleDiagnosisSelection(ctx, "select_diagnosis")
+    );
+    this.bot.action(/open_diagnosis:(.+)/, (ctx) => this.handleDiagnosisSelection(ctx, "open_diagnosis"));
+    this.bot.action(versioned("select_section:(.+)"), (ctx) => this.handleSectionSelection(ctx));
+    this.bot.action("new_diagnosis", (ctx) => this.handleNewDiagnosis(ctx));
+    this.bot.action(versioned("back_to_sections"), (ctx) => this.handleBackToSections(ctx));
+    this.bot.action(versioned("section_page:(\\d+)"), (ctx) => this.handleSectionPage(ctx));
+    this.bot.action("noop", (ctx) => ctx.answerCbQuery());
+    this.bot.action(versioned("share_section"), (ctx) => this.handleShareSection(ctx));
+    this.bot.action(versioned("download:(diagnosis|section)"), (ctx) => this.handleDownload(ctx));
+    this.bot.action(versioned("favorite_add:(diagnosis|section)"), (ctx) => this.handleFavoriteAdd(ctx));
+    this.bot.action(/favorite_open:(\d+)/, (ctx) => this.handleFavoriteOpen(ctx));
+    this.bot.action(/favorite_remove:(\d+)/, (ctx) => this.handleFavoriteRemove(ctx));
+    this.bot.action(versioned("subscription_toggle"), (ctx) => this.handleSubscriptionToggle(ctx));
+    this.bot.action(/subscription_open:(\d+)/, (ctx) => this.handleSubscriptionOpen(ctx));
+    this.bot.action(/subscription_remove:(\d+)/, (ctx) => this.handleSubscriptionRemove(ctx));
+    this.bot.action(versioned("voice_confirm"), (ctx) => this.handleVoiceConfirm(ctx));
+    this.bot.action(/favorite_up:(\d+)/, (ctx) => this.handleFavoriteMoveUp(ctx));
+    this.bot.action("favorites", (ctx) => this.handleFavorites(ctx));
+    this.bot.action("history", (ctx) => this.handleHistory(ctx));
+    this.bot.action("history_clear", (ctx) => this.handleHistoryClear(ctx));
+    this.bot.action(/language:(\w+)/, (ctx) => this.handleLanguageSelection(ctx));
+
+    // Кнопки из сообщений, отправленных до смены формата данных
+    this.bot.on("callback_query", (ctx) => this.rejectStaleButton(ctx));
+
+    // Inline-режим
+    this.bot.on("inline_query", (ctx) => this.handleInlineQuery(ctx));
+
+    // Обработка прочих сообщений
+    this.bot.on("message", (ctx) => this.handleOtherMessages(ctx));
+  }
+
+  private createAdminComposer(): Composer<BotContext> {
+    const admin = new Composer<BotContext>();
+
+    const commands: [string, (ctx: BotContext, payload: string) => Promise<void>][] = [
+      ["stats", (ctx, payload) => this.handleAdminStats(ctx, payload)],
+      ["user", (ctx, payload) => this.handleAdminUser(ctx, payload)],
+      ["cache_clear", (ctx, payload) => this.handleAdminCacheClear(ctx, payload)],
+      ["sessions_reset", (ctx, payload) => this.handleAdminSessionsReset(ctx, payload)],
+      ["broadcast", (ctx, payload) => this.handleAdminBroadcast(ctx, payload)],
+      ["broadcast_status", (ctx) => this.handleAdminBroadcastStatus(ctx)],
+      ["broadcast_cancel", (ctx, payload) => this.handleAdminBroadcastCancel(ctx, payload)],
+      ["invite", (ctx, payload) => this.handleAdminInvite(ctx, payload)],
+      ["block", (ctx, payload) => this.handleAdminSetStatus(ctx, payload, "blocked")],
+      ["unblock", (ctx, payload) => this.handleAdminSetStatus(ctx, payload, "active")],
+    ];
+
+    for (const [command, handler] of commands) {
+      admin.command(command, async (ctx) => {
+        const payload = ctx.payload.trim();
+        this.auditAdminAction(ctx, command, payload);
+
+        try {
+          await handler(ctx, payload);
+        } catch (error) {
+          console.error(`Ошибка выполнения /${command}:`, error);
+          await ctx.reply(`Не удалось выполнить /${command}`).catch(console.log);
+        }
+      });
+    }
+
+    admin.action("broadcast_confirm", (ctx) => this.handleAdminBroadcastConfirm(ctx));
+    admin.action("broadcast_edit", (ctx) => this.handleAdminBroadcastEdit(ctx));
+    admin.action("broadcast_discard", (ctx) => this.handleAdminBroadcastDiscard(ctx));
+    admin.action(/access_approve:(\d+)/, (ctx) => this.handleAdminAccessDecision(ctx, "active"));
+    admin.action(/access_reject:(\d+)/, (ctx) => this.handleAdminAccessDecision(ctx, "blocked"));
+
+    // Пока ждём текст рассылки, следующее сообщение администратора (кроме команд) становится её содержимым
+    admin.on("message", async (ctx, next) => {
+      const text = "text" in ctx.message ? ctx.message.text : "";
+      if (ctx.userState?.broadcastDraft?.step !== "awaiting_message" || text.startsWith("/")) return next();
+
+      await this.handleAdminBroadcastMessage(ctx, ctx.chat.id, ctx.message.message_id);
+    });
+
+    return admin;
+  }
+
+  private auditAdminAction(ctx: BotContext, action: string, payload: string): void {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    this.repositories.adminAuditRepository
+      .create({ adminTelegramId: userId, action, payload: payload ? payload.slice(0, 1024) : null })
+      .catch(console.log);
+  }
+
+  // Команды администраторов
+  private async handleAdminStats(ctx: BotContext, payload: string): Promise<void> {
+    const days = Number(payload) > 0 ? Math.floor(Number(payload)) : ADMIN_STATS_DEFAULT_DAYS;
+    const period = { from: new Date(Date.now() - days * 24 * 60 * 60 * 1000), to: new Date() };
+    const events = this.repositories.clientEventsRepository;
+
+    const [clientsCount, activeClients, counts, topDiagnoses, topSections, zeroResults] = await Promise.all([
+      this.repositories.clientsRepository.count(),
+      events.countClients(period),
+      events.countByType(period),
+      events.getTopDiagnoses(period, ADMIN_TOP_LIMIT),
+      events.getTopSections(period, ADMIN_TOP_LIMIT),
+      events.getZeroResultQueries(period),
+    ]);
+
+    const lines = [
+      `📊 <b>Статистика за ${days} дн.</b>`,
+      "",
+      `Пользователей всего: ${clientsCount}`,
+      `Активных за период: ${activeClients}`,
+      "",
+      "<b>События:</b>",
+      ...counts.map(
+        ({ type, count, averageLatencyMs }) =>
+          `• ${type}: ${count}${averageLatencyMs !== null ? ` (≈${averageLatencyMs} мс)` : ""}`
+      ),
+      "",
+      "<b>Популярные диагнозы:</b>",
+      ...topDiagnoses.map(({ diagnosis, count }, index) => `${index + 1}. ${escapeHTML(diagnosis)} — ${count}`),
+      "",
+      "<b>Популярные разделы:</b>",
+      ...topSections.map(
+        ({ diagnosis, section, count }, index) =>
+          `${index + 1}. ${escapeHTML(diagnosis)} / ${escapeHTML(section)} — ${count}`
+      ),
+      "",
+      "<b>Запросы без результатов:</b>",
+      ...zeroResults
+        .slice(0, ADMIN_TOP_LIMIT)
+        .map(({ day, query, count }) => `• ${day}: ${escapeHTML(query)} — ${count}`),
+    ];
+
+    await ctx.replyWithHTML(lines.join("\n"));
+  }
+
+  private async handleAdminUser(ctx: BotContext, payload: string): Promise<void> {
+    const telegramId = Number(payload);
+    if (!telegramId) {
+      await ctx.reply("Использование: /user <telegram id>");
+      return;
+    }
+
+    const client = await this.repositories.clientsRepository.getOne({ telegramId });
+    if (!client) {
+      await ctx.reply(`Пользователь ${telegramId} не найден`);
+      return;
+    }
+
+    const events = await this.repositories.clientEventsRepository.getByClient(telegramId, ADMIN_USER_EVENTS_LIMIT);
+
+    const lines = [
+      `👤 <b>${escapeHTML([client.firstName, client.lastName].filter(Boolean).join(" "))}</b>`,
+      `ID: <code>${client.telegramId}</code>`,
+      `Username: @${escapeHTML(client.username)}`,
+      `Роль: ${client.role}`,
+      `Доступ: ${client.status}`,
+      `Зарегистрирован: ${new Date(client.createdAt).toLocaleString("ru-RU")}`,
+      "",
+      "<b>Последние действия:</b>",
+      ...(events.length
+        ? events.map((event) => {
+            const subject = [event.query, event.diagnosis, event.section, event.error].filter(Boolean).join(" / ");
+            return `• ${new Date(event.createdAt).toLocaleString("ru-RU")} ${event.type}: ${escapeHTML(subject)}`;
+          })
+        : ["нет"]),
+    ];
+
+    await ctx.replyWithHTML(lines.join("\n"));
+  }
+
+  private async handleAdminCacheClear(ctx: BotContext, diagnosis: string): Promise<void> {
+    if (diagnosis) {
+      await this.repositories.apiRepository.invalidateDiagnosis(diagnosis);
+      await ctx.reply(`Кэш для диагноза «${diagnosis}» очищен`);
+      return;
+    }
+
+    await this.repositories.apiRepository.clearCache();
+    await ctx.reply("Кэш API очищен");
+  }
+
+  private async handleAdminSessionsReset(ctx: BotContext, payload: string): Promise<void> {
+    const telegramId = Number(payload);
+
+    if (payload && !telegramId) {
+      await ctx.reply("Использование: /sessions_reset [telegram id]");
+      return;
+    }
+
+    if (telegramId) {
+      await this.sessionStore.deleteUserState(telegramId);
+      await ctx.reply(`Сессия пользователя ${telegramId} сброшена`);
+      return;
+    }
+
+    await this.sessionStore.clearAllSessions();
+    await ctx.reply("Все сессии сброшены");
+  }
+
+  private async handleAdminInvite(ctx: BotContext, payload: string): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const [maxUses = 1, days] = payload.split(/\s+/).filter(Boolean).map(Number);
+
+    if (!(maxUses > 0) || (days !== undefined && !(days > 0))) {
+      await ctx.reply("Использование: /invite [число активаций] [срок в днях]");
+      return;
+    }
+
+    const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+    const code = await this.repositories.inviteCodesRepository.create({
+      maxUses: Math.floor(maxUses),
+      expiresAt,
+      createdBy: userId,
+    });
+
+    const lines = [
+      `🎟 Код приглашения: <code>${code}</code>`,
+      `Активаций: ${Math.floor(maxUses)}`,
+      `Действует до: ${expiresAt ? expiresAt.toLocaleString("ru-RU") : "бессрочно"}`,
+      "",
+      `Ссылка: https://t.me/${ctx.me}?start=${code}`,
+    ];
+
+    await ctx.replyWithHTML(lines.join("\n"));
+  }
+
+  private async handleAdminSetStatus(ctx: BotContext, payload: string, status: ClientStatus): Promise<void> {
+    const telegramId = Number(payload);
+    if (!telegramId) {
+      await ctx.reply(`Использование: /${status === "blocked" ? "block" : "unblock"} <telegram id>`);
+      return;
+    }
+
+    const client = await this.repositories.clientsRepository.getOne({ telegramId });
+    if (!client) {
+      await ctx.reply(`Пользователь ${telegramId} не найден`);
+      return;
+    }
+
+    await this.setClientStatus(client, status);
+    await ctx.reply(`Доступ пользователя ${telegramId}: ${status}`);
+  }
+
+  private async handleAdminAccessDecision(ctx: BotContext, status: ClientStatus): Promise<void> {
+    const telegramId = Number(((ctx as any).match as RegExpMatchArray)[1]);
+    this.auditAdminAction(ctx, status === "active" ? "access_approve" : "access_reject", String(telegramId));
+
+    try {
+      const client = await this.repositories.clientsRepository.getOne({ telegramId });
+
+      if (!client) {
+        await ctx.answerCbQuery("Пользователь не найден");
+        return;
+      }
+
+      // Заявку могли уже рассмотреть другие администраторы
+      if (client.status === "pending") {
+        await this.setClientStatus(client, status);
+      }
+
+      const verdict =
+        client.status !== "pending"
+          ? `Уже рассмотрена: ${client.status}`
+          : status === "active"
+            ? "✅ Одобрено"
+            : "❌ Отклонено";
+
+      await ctx.answerCbQuery(verdict);
+      await ctx.editMessageReplyMarkup(Markup.inlineKeyboard([Markup.button.callback(verdict, "noop")]).reply_markup);
+    } catch (error) {
+      console.error("Ошибка при рассмотрении заявки на доступ:", error);
+      await ctx.answerCbQuery("Не удалось обработать заявку").catch(console.log);
+    }
+  }
+
+  private async updateBroadcastDraft(ctx: BotContext, broadcastDraft: BroadcastDraft | undefined): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    await this.sessionStore.updateUserState(userId, { broadcastDraft });
+    if (ctx.userState) ctx.userState.broadcastDraft = broadcastDraft;
+  }
+
+  private async handleAdminBroadcast(ctx: BotContext, payload: string): Promise<void> {
+    const segmentDays = payload ? Number(payload) : null;
+
+    if (segmentDays !== null && !(segmentDays > 0)) {
+      await ctx.reply("Использование: /broadcast [N] — всем или только активным за последние N дней");
+      return;
+    }
+
+    const recipients = await this.repositories.broadcastsRepository.countRecipients(segmentDays);
+    await this.updateBroadcastDraft(ctx, { step: "awaiting_message", segmentDays });
+
+    await ctx.reply(
+      `📣 Новая рассылка (${segmentDays ? `активные за ${segmentDays} дн.` : "все пользователи"}, получателей: ${recipients}).\n\nОтправьте сообщение, которое нужно разослать: текст, фото или документ.`,
+      Markup.inlineKeyboard([Markup.button.callback("✖ Отмена", "broadcast_discard")])
+    );
+  }
+
+  private async handleAdminBroadcastMessage(ctx: BotContext, chatId: number, messageId: number): Promise<void> {
+    const draft = ctx.userState?.broadcastDraft;
+    if (!draft) return;
+
+    await this.updateBroadcastDraft(ctx, {
+      ...draft,
+      step: "confirm",
+      sourceChatId: chatId,
+      sourceMessageId: messageId,
+    });
+
+    const recipients = await this.repositories.broadcastsRepository.countRecipients(draft.segmentDays);
+
+    await ctx.reply("Предпросмотр рассылки:");
+    await ctx.telegram.copyMessage(chatId, chatId, messageId);
+    await ctx.reply(
+      `Отправить это сообщение ${recipients} пользователям?`,
+      Markup.inlineKeyboard([
+        [Markup.button.callback("✅ Отправить", "broadcast_confirm")],
+        [
+          Markup.button.callback("✏️ Изменить", "broadcast_edit"),
+          Markup.button.callback("✖ Отмена", "broadcast_discard"),
+        ],
+      ])
+    );
+  }
+
+  private async handleAdminBroadcastConfirm(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const draft = ctx.userState?.broadcastDraft;
+    await ctx.answerCbQuery().catch(console.log);
+
+    if (!userId || draft?.step !== "confirm" || !draft.sourceChatId || !draft.sourceMessageId) {
+      await ctx.reply("Черновик рассылки не найден. Начните заново: /broadcast");
+      return;
+    }
+
+    try {
+      const broadcastId = await this.repositories.broadcastsRepository.create({
+        adminTelegramId: userId,
+        sourceChatId: draft.sourceChatId,
+        sourceMessageId: draft.sourceMessageId,
+        segmentDays: draft.segmentDays,
+      });
+
+      await this.updateBroadcastDraft(ctx, undefined);
+      this.auditAdminAction(ctx, "broadcast_confirm", String(broadcastId));
+      this.broadcastSender.start(broadcastId);
+
+      const broadcast = await this.repositories.broadcastsRepository.getOne(broadcastId);
+      await ctx.editMessageText(
+        `📣 Рассылка #${broadcastId} запущена, получателей: ${broadcast?.total ?? 0}.\nПрогресс: /broadcast_status`
+      );
+    } catch (error) {
+      console.error("Ошибка при создании рассылки:", error);
+      await ctx.reply("Не удалось запустить рассылку");
+    }
+  }
+
+  private async handleAdminBroadcastEdit(ctx: BotContext): Promise<void> {
+    const draft = ctx.userState?.broadcastDraft;
+    await ctx.answerCbQuery().catch(console.log);
+    if (!draft) return;
+
+    await this.updateBroadcastDraft(ctx, { step: "awaiting_message", segmentDays: draft.segmentDays });
+    await ctx.editMessageText("Отправьте новый вариант сообщения для рассылки.");
+  }
+
+  private async handleAdminBroadcastDiscard(ctx: BotContext): Promise<void> {
+    await ctx.answerCbQuery().catch(console.log);
+    await this.updateBroadcastDraft(ctx, undefined);
+    await ctx.editMessageText("Рассылка отменена.");
+  }
+
+  private async handleAdminBroadcastStatus(ctx: BotContext): Promise<void> {
+    const broadcasts = await this.repositories.broadcastsRepository.getLatest(ADMIN_BROADCASTS_LIMIT);
+
+    if (!broadcasts.length) {
+      await ctx.reply("Рассылок пока не было");
+      return;
+    }
+
+    const lines = broadcasts.map(
+      (broadcast) =>
+        `#${broadcast.id} ${broadcast.status} от ${new Date(broadcast.createdAt).toLocaleString("ru-RU")}: ` +
+        `доставлено ${broadcast.sent}/${broadcast.total}, заблокировали ${broadcast.blocked}, ошибок ${broadcast.failed}`
+    );
+
+    await ctx.reply(lines.join("\n"));
+  }
+
+  private async handleAdminBroadcastCancel(ctx: BotContext, payload: string): Promise<void> {
+    const broadcastId = Number(payload);
+    const broadcast = broadcastId ? await this.repositories.broadcastsRepository.getOne(broadcastId) : null;
+
+    if (!broadcast || broadcast.status !== "sending") {
+      await ctx.reply("Использование: /broadcast_cancel <id активной рассылки>");
+      return;
+    }
+
+    await this.repositories.broadcastsRepository.updateStatus(broadcastId, "cancelled");
+    await ctx.reply(`Рассылка #${broadcastId} остановлена`);
+  }
+
+  // Основные обработчики
+  private async handleStart(ctx: BotContext, payload: string): Promise<void> {
+    await this.clearPreviousMessages(ctx);
+    await this.transition(ctx, "start");
+
+    if (DEEP_LINK_TOKEN_PATTERN.test(payload) && (await this.openDeepLink(ctx, payload))) return;
+
+    await this.sendWelcomeMessage(ctx);
+  }
+
+  // Единственный выход из режима вопросов: следующий текст снова ищет диагноз
+  private async handleNewDiagnosis(ctx: BotContext): Promise<void> {
+    await this.clearPreviousMessages(ctx);
+    await this.transition(ctx, "ask_diagnosis");
+    await this.askForDiagnosis(ctx);
+  }
+
+  private async handleTextInput(ctx: BotContext): Promise<void> {
+    const userInput = (ctx.message as any)?.text.trim();
+    const userId = ctx.from?.id;
+
+    if (userInput.startsWith("/") || !userId) return;
+
+    await this.clearPreviousMessages(ctx);
+
+    // Код МКБ-10 ищется в любом состоянии: вопросом по диагнозу он быть не может
+    const icdCode = parseICDCode(userInput);
+    if (icdCode) {
+      await this.processICDCode(ctx, icdCode);
+      return;
+    }
+
+    const state = ctx.userState?.state ?? INITIAL_STATE;
+    if (hasDiagnosis(state) && ctx.userState?.diagnosis) {
+      await this.processQuestion(ctx, ctx.userState.diagnosis, userInput);
+      return;
+    }
+
+    await this.processDiagnosisInput(ctx, userInput);
+  }
+
+  private async handleICDCommand(ctx: BotContext, payload: string): Promise<void> {
+    await this.clearPreviousMessages(ctx);
+
+    if (!payload) {
+      const message = await ctx.reply(ctx.t("icd.usage"));
+      await this.saveMessageId(ctx, message.message_id);
+      return;
+    }
+
+    const code = parseICDCode(payload);
+    if (!code) {
+      const message = await ctx.reply(ctx.t("icd.invalid", { code: payload }));
+      await this.saveMessageId(ctx, message.message_id);
+      return;
+    }
+
+    await this.processICDCode(ctx, code);
+  }
 
-interface SessionData {
-  [userId: number]: UserState;
-}
+  // select_diagnosis — выбор из результатов поиска, open_diagnosis — из истории, доступен в любом состоянии
+  private async handleDiagnosisSelection(ctx: BotContext, event: "select_diagnosis" | "open_diagnosis"): Promise<void> {
+    const hash = ((ctx as any).match as RegExpMatchArray)[1];
+    const diagnosis = await this.resolveCallbackMapping(ctx, `diagnosis:${hash}`);
 
-class SessionManager {
-  private sessionFile: string;
-  private sessionData: SessionData = {};
+    // Значение кнопки вытеснено из сессии: сообщение слишком старое
+    if (!diagnosis) {
+      await this.rejectStaleButton(ctx);
+      return;
+    }
 
-  constructor(sessionFileName: string = "session.json") {
-    this.sessionFile = path.join(__dirname, sessionFileName);
-    this.loadSessions();
+    await this.clearPreviousMessages(ctx);
+    await this.processSelectedDiagnosis(ctx, diagnosis, event);
   }
 
-  private loadSessions(): void {
-    try {
-      if (!fs.existsSync(this.sessionFile)) return;
+  private async handleSectionSelection(ctx: BotContext): Promise<void> {
+    const hash = ((ctx as any).match as RegExpMatchArray)[1];
+    const sectionTitle = await this.resolveCallbackMapping(ctx, `section:${hash}`);
+    const diagnosis = ctx.userState?.diagnosis;
 
-      const data = fs.readFileSync(this.sessionFile, "utf8");
-      const parsedData = JSON.parse(data);
+    if (!sectionTitle || !diagnosis) {
+      await this.rejectStaleButton(ctx);
+      return;
+    }
 
-      this.sessionData = Object.fromEntries(
-        Object.entries(parsedData).map(([userId, state]: [string, any]) => {
-          if (state.callbackMap && Array.isArray(state.callbackMap)) {
-            state.callbackMap = new Map(state.callbackMap);
-          }
-          return [userId, state];
-        })
-      );
+    await this.clearPreviousMessages(ctx);
+    await this.processSelectedSection(ctx, diagnosis, sectionTitle, "select_section");
+  }
 
-      console.log(`Сессии загружены из ${this.sessionFile}`);
-    } catch (error) {
-      console.error("Ошибка при загрузке сессий:", error);
-      this.sessionData = {};
+  private async handleBackToSections(ctx: BotContext): Promise<void> {
+    if (!(await this.transition(ctx, "back_to_sections"))) {
+      await this.rejectStaleButton(ctx);
+      return;
     }
+
+    await this.clearPreviousMessages(ctx);
+    await this.showSections(ctx);
+  }
+
+  private async handleSectionPage(ctx: BotContext): Promise<void> {
+    const page = Number(((ctx as any).match as RegExpMatchArray)[1]);
+    await ctx.answerCbQuery().catch(console.log);
+    await this.showSectionPage(ctx, page);
+  }
+
+  private async handleFavorites(ctx: BotContext): Promise<void> {
+    await this.clearPreviousMessages(ctx);
+    await this.showFavorites(ctx);
   }
 
-  private saveSessions(): void {
+  private async handleFavoriteAdd(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const type = ((ctx as any).match as RegExpMatchArray)[1];
+    const diagnosis = ctx.userState?.diagnosis;
+    const section = type === "section" ? ctx.userState?.currentSection : null;
+
+    if (!diagnosis || section === undefined) {
+      await ctx.answerCbQuery(ctx.t("favorites.unknownTarget")).catch(console.log);
+      return;
+    }
+
     try {
-      const serializableData = Object.fromEntries(
-        Object.entries(this.sessionData).map(([userId, state]) => {
-          const serializableState = { ...state };
-          if (state.callbackMap instanceof Map) {
-            serializableState.callbackMap = Array.from(state.callbackMap.entries());
-          }
-          return [userId, serializableState];
-        })
-      );
+      const created = await this.repositories.favoritesRepository.create({
+        clientTelegramId: userId,
+        diagnosis,
+        section,
+      });
 
-      fs.writeFileSync(this.sessionFile, JSON.stringify(serializableData, null, 2));
+      await ctx.answerCbQuery(ctx.t(created ? "favorites.added" : "favorites.exists"));
     } catch (error) {
-      console.error("Ошибка при сохранении сессий:", error);
+      console.error("Ошибка при добавлении в избранное:", error);
+      await ctx.answerCbQuery(ctx.t("favorites.addFailed")).catch(console.log);
     }
   }
 
-  getUserState(userId: number): UserState | undefined {
-    return this.sessionData[userId];
-  }
+  private async handleFavoriteOpen(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-  setUserState(userId: number, state: UserState): void {
-    this.sessionData[userId] = state;
-    this.saveSessions();
-  }
+    const id = Number(((ctx as any).match as RegExpMatchArray)[1]);
+    await ctx.answerCbQuery().catch(console.log);
+    await this.clearPreviousMessages(ctx);
 
-  updateUserState(userId: number, update: Partial<UserState>): void {
-    if (!this.sessionData[userId]) {
-      this.sessionData[userId] = {};
+    const favorite = await this.repositories.favoritesRepository.getOne(id, userId);
+    if (!favorite) {
+      await this.sendErrorMessage(ctx, "errors.favoriteNotFound");
+      return;
     }
-    this.sessionData[userId] = { ...this.sessionData[userId], ...update };
-    this.saveSessions();
+
+    await this.openDiagnosisOrSection(ctx, favorite.diagnosis, favorite.section);
   }
 
-  deleteUserState(userId: number): void {
-    if (this.sessionData[userId]) {
-      delete this.sessionData[userId];
-      this.saveSessions();
+  private async handleSubscriptionToggle(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const diagnosis = ctx.userState?.diagnosis;
+    if (!userId) return;
+
+    if (!diagnosis) {
+      await ctx.answerCbQuery(ctx.t("subscriptions.unknownTarget")).catch(console.log);
+      return;
     }
-  }
 
-  clearAllSessions(): void {
-    this.sessionData = {};
-    this.saveSessions();
+    try {
+      const repository = this.repositories.subscriptionsRepository;
+      const subscription = await repository.find(userId, diagnosis);
+
+      if (subscription) await repository.delete(subscription.id, userId);
+      else await repository.create({ clientTelegramId: userId, diagnosis });
+
+      await ctx.answerCbQuery(ctx.t(subscription ? "subscriptions.removed" : "subscriptions.added"));
+      await this.relabelPressedButton(ctx, ctx.t(subscription ? "button.subscribe" : "button.unsubscribe"));
+    } catch (error) {
+      console.error("Ошибка при изменении подписки:", error);
+      await ctx.answerCbQuery(ctx.t("subscriptions.failed")).catch(console.log);
+    }
   }
-}
 
-class MedicalBot {
-  private bot: Telegraf<BotContext>;
-  private sessionManager: SessionManager;
-  private repositories: Repositories;
-
-  constructor(
-    token: string,
-    apiBaseURL: string,
-    dbHost: string,
-    dbPort: number,
-    dbPassword: string,
-    dbDatabase: string,
-    dbUser: string
-  ) {
-    this.bot = new Telegraf<BotContext>(token);
-    this.sessionManager = new SessionManager();
-
-    const database = createDatabase({
-      host: dbHost,
-      port: dbPort,
-      password: dbPassword,
-      database: dbDatabase,
-      user: dbUser,
-    });
+  // Кнопки из уведомления об обновлении рекомендации
+  private async handleSubscriptionOpen(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
 
-    this.repositories = new Repositories(database, apiBaseURL);
-    this.setupBot();
+    const id = Number(((ctx as any).match as RegExpMatchArray)[1]);
+    await ctx.answerCbQuery().catch(console.log);
+    await this.clearPreviousMessages(ctx);
+
+    const subscription = await this.repositories.subscriptionsRepository.getOne(id, userId);
+    if (!subscription) {
+      await this.sendErrorMessage(ctx, "errors.subscriptionNotFound");
+      return;
+    }
+
+    await this.openDiagnosisOrSection(ctx, subscription.diagnosis, null);
   }
 
-  private setupBot(): void {
-    this.setupMiddlewares();
-    this.setupHandlers();
+  private async handleSubscriptionRemove(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const id = Number(((ctx as any).match as RegExpMatchArray)[1]);
+
+    try {
+      await this.repositories.subscriptionsRepository.delete(id, userId);
+      await ctx.answerCbQuery(ctx.t("subscriptions.removed"));
+      // Без подписки кнопка «Открыть» уже не сработает
+      await ctx.editMessageReplyMarkup(undefined).catch(() => {});
+    } catch (error) {
+      console.error("Ошибка при отписке от обновлений:", error);
+      await ctx.answerCbQuery(ctx.t("subscriptions.failed")).catch(console.log);
+    }
   }
 
-  private setupMiddlewares(): void {
-    this.bot.use(async (ctx, next) => {
-      const user = ctx.from;
-      if (!user) return next();
+  private async handleShareSection(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const diagnosis = ctx.userState?.diagnosis;
+    const sectionTitle = ctx.userState?.currentSection;
+    if (!userId) return;
 
-      await this.syncUserData(user);
+    if (!diagnosis || !sectionTitle) {
+      await ctx.answerCbQuery(ctx.t("errors.sectionNotFound")).catch(console.log);
+      return;
+    }
 
-      const userState = this.sessionManager.getUserState(user.id) || {
-        messageIds: [],
-        callbackMap: {},
-      };
+    try {
+      const link = await this.createDeepLink(ctx, diagnosis, sectionTitle);
+      await ctx.answerCbQuery();
 
-      ctx.userState = userState;
-      return next();
-    });
+      const message = await ctx.replyWithHTML(
+        ctx.t("share.link", { section: escapeHTML(sectionTitle), link: escapeHTML(link) }),
+        Markup.inlineKeyboard([
+          Markup.button.url(
+            ctx.t("button.sendToColleague"),
+            `https://t.me/share/url?url=${encodeURIComponent(link)}&text=${encodeURIComponent(
+              `${diagnosis} — ${sectionTitle}`
+            )}`
+          ),
+        ])
+      );
+      await this.saveMessageId(ctx, message.message_id);
+    } catch (error) {
+      console.error("Ошибка при создании ссылки:", error);
+      await ctx.answerCbQuery(ctx.t("share.failed")).catch(console.log);
+    }
   }
 
-  private async syncUserData(user: any): Promise<void> {
+  private async handleDownload(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const target = ((ctx as any).match as RegExpMatchArray)[1];
+    const diagnosis = ctx.userState?.diagnosis;
+    const sectionTitle = target === "section" ? ctx.userState?.currentSection : undefined;
+    if (!userId) return;
+
+    if (!diagnosis || (target === "section" && !sectionTitle)) {
+      await ctx.answerCbQuery(ctx.t("errors.sectionNotFound")).catch(console.log);
+      return;
+    }
+
+    await ctx.answerCbQuery(ctx.t("document.preparing")).catch(console.log);
+
     try {
-      const client = await this.repositories.clientsRepository.getOne({
-        telegramId: user.id,
+      const sections = sectionTitle
+        ? [sectionTitle]
+        : sortSections(
+            (await this.repositories.apiRepository.getSections(diagnosis)).filter(
+              (section) => !isHiddenSection(section)
+            )
+          );
+
+      // Документ для печати не должен молча терять разделы, поэтому любая ошибка прерывает сборку
+      const documentSections = await Promise.all(
+        sections.map(async (section): Promise<DocumentSection> => ({
+          title: this.formatSectionTitle(ctx, section),
+          content: await this.repositories.apiRepository.getSection(diagnosis, section),
+        }))
+      );
+
+      const html = buildDocument({
+        diagnosis,
+        sections: documentSections,
+        labels: {
+          contents: ctx.t("document.contents"),
+          diagnosis: ctx.t("document.diagnosis"),
+          date: ctx.t("document.date"),
+        },
+        date: new Date().toLocaleDateString(ctx.locale),
+        locale: ctx.locale,
       });
 
-      const userData = {
-        telegramId: user.id,
-        username: user.username ?? user.id.toString(),
-        firstName: user.first_name,
-        lastName: user.last_name ?? null,
-      };
+      const fileName = sectionTitle
+        ? buildDocumentFileName(diagnosis, this.formatSectionTitle(ctx, sectionTitle))
+        : buildDocumentFileName(diagnosis);
 
-      if (!client) {
-        await this.repositories.clientsRepository.create(userData);
-      } else {
-        await this.repositories.clientsRepository.update(userData);
-      }
+      // Сообщение с файлом не попадает в saveMessageId: документ должен остаться в чате
+      await this.sendDocument(ctx, html, fileName);
     } catch (error) {
-      console.error("Ошибка синхронизации пользователя:", error);
+      console.error("Ошибка при подготовке документа:", error);
+      this.trackEvent(ctx, { type: "error", diagnosis, section: sectionTitle, error });
+      await this.sendLoadError(ctx, error);
     }
   }
 
-  private setupHandlers(): void {
-    // Команды
-    this.bot.start((ctx) => this.handleStart(ctx));
-    this.bot.command("new_diagnosis", (ctx) => this.handleNewDiagnosis(ctx));
+  // Повторно отправленный документ с тем же содержимым уходит по file_id, без загрузки файла
+  private async sendDocument(ctx: BotContext, content: string, fileName: string): Promise<void> {
+    const contentHash = this.generateHash(content);
+    const cached = await this.documentCache.get(contentHash).catch((error) => {
+      console.error("Ошибка чтения кеша документов:", error);
+      return undefined;
+    });
 
-    // Обработка текстовых сообщений
-    this.bot.on("text", (ctx) => this.handleTextInput(ctx));
+    if (cached && cached.expiresAt > Date.now()) {
+      try {
+        await ctx.replyWithDocument(cached.value);
+        return;
+      } catch (error) {
+        console.error("Не удалось отправить документ из кеша:", error);
+      }
+    }
 
-    // Обработка callback-кнопок
-    this.bot.action(/select_diagnosis:(.+)/, (ctx) => this.handleDiagnosisSelection(ctx));
-    this.bot.action(/select_section:(.+)/, (ctx) => this.handleSectionSelection(ctx));
-    this.bot.action("new_diagnosis", (ctx) => this.handleNewDiagnosis(ctx));
-    this.bot.action("back_to_sections", (ctx) => this.handleBackToSections(ctx));
+    const message = await ctx.replyWithDocument({ source: Buffer.from(content, "utf8"), filename: fileName });
+    await this.documentCache.set(contentHash, message.document.file_id).catch(console.error);
+  }
 
-    // Обработка прочих сообщений
-    this.bot.on("message", (ctx) => this.handleOtherMessages(ctx));
+  private async handleFavoriteRemove(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const id = Number(((ctx as any).match as RegExpMatchArray)[1]);
+
+    try {
+      await this.repositories.favoritesRepository.delete(id, userId);
+      await ctx.answerCbQuery(ctx.t("favorites.removed"));
+      await this.refreshFavorites(ctx, userId);
+    } catch (error) {
+      console.error("Ошибка при удалении из избранного:", error);
+      await ctx.answerCbQuery(ctx.t("favorites.removeFailed")).catch(console.log);
+    }
   }
 
-  // Основные обработчики
-  private async handleStart(ctx: BotContext): Promise<void> {
-    await this.clearPreviousMessages(ctx);
-    await this.sendWelcomeMessage(ctx);
+  private async handleFavoriteMoveUp(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const id = Number(((ctx as any).match as RegExpMatchArray)[1]);
+
+    try {
+      await this.repositories.favoritesRepository.moveUp(id, userId);
+      await ctx.answerCbQuery();
+      await this.refreshFavorites(ctx, userId);
+    } catch (error) {
+      console.error("Ошибка при изменении порядка избранного:", error);
+      await ctx.answerCbQuery(ctx.t("favorites.moveFailed")).catch(console.log);
+    }
   }
 
-  private async handleNewDiagnosis(ctx: BotContext): Promise<void> {
+  private async handleHistory(ctx: BotContext): Promise<void> {
     await this.clearPreviousMessages(ctx);
-    await this.askForDiagnosis(ctx);
+    await this.showHistory(ctx);
   }
 
-  private async handleTextInput(ctx: BotContext): Promise<void> {
-    const userInput = (ctx.message as any)?.text.trim();
+  private async handleHistoryClear(ctx: BotContext): Promise<void> {
     const userId = ctx.from?.id;
+    if (!userId) return;
 
-    if (userInput.startsWith("/") || !userId) return;
+    try {
+      await this.repositories.searchHistoryRepository.deleteAll(userId);
+      await this.sessionStore.updateUserState(userId, { historyId: undefined });
+      if (ctx.userState) ctx.userState.historyId = undefined;
 
-    await this.clearPreviousMessages(ctx);
-    await this.processDiagnosisInput(ctx, userInput);
+      await ctx.answerCbQuery(ctx.t("history.cleared"));
+      await this.clearPreviousMessages(ctx);
+      await this.showHistory(ctx);
+    } catch (error) {
+      console.error("Ошибка при очистке истории:", error);
+      await ctx.answerCbQuery(ctx.t("history.clearFailed")).catch(console.log);
+    }
   }
 
-  private async handleDiagnosisSelection(ctx: BotContext): Promise<void> {
+  private async handleLanguage(ctx: BotContext): Promise<void> {
     await this.clearPreviousMessages(ctx);
-    const hash = ((ctx as any).match as RegExpMatchArray)[1];
-    const diagnosis = await this.resolveCallbackMapping(ctx, `diagnosis:${hash}`);
 
-    if (!diagnosis) {
-      await this.sendErrorMessage(ctx, "Диагноз не найден");
+    const keyboard = (Object.keys(LOCALE_NAMES) as Locale[]).map((locale) => [
+      Markup.button.callback(`${locale === ctx.locale ? "✓ " : ""}${LOCALE_NAMES[locale]}`, `language:${locale}`),
+    ]);
+
+    const message = await ctx.reply(ctx.t("language.choose"), Markup.inlineKeyboard(keyboard));
+    await this.saveMessageId(ctx, message.message_id);
+  }
+
+  private async handleLanguageSelection(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const locale = ((ctx as any).match as RegExpMatchArray)[1];
+    if (!userId || !isLocale(locale)) return;
+
+    try {
+      await this.repositories.clientsRepository.update({ telegramId: userId, language: locale });
+      this.setLocale(ctx, locale);
+
+      await ctx.answerCbQuery(ctx.t("language.changed"));
+      await this.clearPreviousMessages(ctx);
+      await this.sendWelcomeMessage(ctx);
+    } catch (error) {
+      console.error("Ошибка при смене языка:", error);
+      await ctx.answerCbQuery(ctx.t("language.changeFailed")).catch(console.log);
+    }
+  }
+
+  // Запрос вида «диагноз» ищет диагнозы, «диагноз / раздел» — разделы первого найденного диагноза
+  private async handleInlineQuery(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    const query = ctx.inlineQuery?.query.trim() ?? "";
+    if (!userId || !ctx.inlineQuery) return;
+
+    const startButton = { text: ctx.t("inline.open"), start_parameter: "inline" };
+
+    if (query.length < INLINE_MIN_QUERY_LENGTH) {
+      await ctx.answerInlineQuery([], { cache_time: 0, button: startButton }).catch(console.log);
+      return;
+    }
+
+    if (!(await this.inlineThrottle.debounce(userId))) return;
+
+    if (!this.inlineThrottle.tryAcquire(userId)) {
+      await ctx
+        .answerInlineQuery([], {
+          cache_time: 0,
+          is_personal: true,
+          button: { text: ctx.t("inline.tooManyRequests"), start_parameter: "inline" },
+        })
+        .catch(console.log);
       return;
     }
 
-    await this.processSelectedDiagnosis(ctx, diagnosis);
+    const [diagnosisQuery, sectionQuery] = query.split("/").map((part) => part.trim());
+    const startedAt = Date.now();
+
+    try {
+      const results =
+        sectionQuery === undefined
+          ? await this.buildInlineDiagnosisResults(ctx, diagnosisQuery)
+          : await this.buildInlineSectionResults(ctx, diagnosisQuery, sectionQuery);
+
+      this.trackEvent(ctx, {
+        type: "search",
+        source: "inline",
+        query,
+        resultCount: results.length,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      // Результаты переведены на язык пользователя и содержат созданные для него ссылки: общий кэш Telegram не годится
+      await ctx.answerInlineQuery(results, { cache_time: 300, is_personal: true, button: startButton });
+    } catch (error) {
+      console.error("Error answering inline query:", error);
+      this.trackEvent(ctx, { type: "error", source: "inline", query, latencyMs: Date.now() - startedAt, error });
+
+      await ctx
+        .answerInlineQuery([], {
+          cache_time: 0,
+          button: {
+            text: this.describeAPIError(ctx, error) ?? ctx.t("inline.searchFailed"),
+            start_parameter: "inline",
+          },
+        })
+        .catch(console.log);
+    }
   }
 
-  private async handleSectionSelection(ctx: BotContext): Promise<void> {
+  // Голосовое сообщение распознаётся локально; поиск начинается только после того, как пользователь подтвердит текст
+  private async handleVoice(ctx: BotContext): Promise<void> {
+    const voice = ctx.message && "voice" in ctx.message ? ctx.message.voice : undefined;
+    if (!voice) return;
+
+    if (!this.speechRecognizer) {
+      await this.handleOtherMessages(ctx);
+      return;
+    }
+
     await this.clearPreviousMessages(ctx);
-    const hash = ((ctx as any).match as RegExpMatchArray)[1];
-    const sectionTitle = await this.resolveCallbackMapping(ctx, `section:${hash}`);
 
-    if (!sectionTitle) {
-      await this.sendErrorMessage(ctx, "Раздел не найден");
+    if (voice.duration > this.voiceMaxDuration) {
+      speechRecognitionsTotal.inc({ outcome: "too_long" });
+      const message = await ctx.reply(ctx.t("voice.tooLong", { seconds: this.voiceMaxDuration }));
+      await this.saveMessageId(ctx, message.message_id);
+      return;
+    }
+
+    // Размер известен из обновления, поэтому слишком большой файл отклоняется без скачивания
+    if ((voice.file_size ?? 0) > this.voiceMaxFileSize) {
+      speechRecognitionsTotal.inc({ outcome: "too_large" });
+      const message = await ctx.reply(ctx.t("voice.tooLarge"));
+      await this.saveMessageId(ctx, message.message_id);
       return;
     }
 
-    await this.processSelectedSection(ctx, sectionTitle);
+    const recognizingMessage = await ctx.reply(ctx.t("voice.recognizing"));
+    await this.saveMessageId(ctx, recognizingMessage.message_id);
+
+    const startedAt = Date.now();
+
+    try {
+      const transcript = await this.speechRecognizer.transcribe({
+        audio: await this.downloadFile(ctx, voice.file_id),
+        language: ctx.locale,
+        mimeType: voice.mime_type ?? "audio/ogg",
+      });
+      speechRecognitionsTotal.inc({ outcome: transcript ? "success" : "empty" });
+
+      await this.clearPreviousMessages(ctx);
+      await this.showVoiceConfirmation(ctx, transcript.slice(0, VOICE_TRANSCRIPT_LIMIT));
+    } catch (error) {
+      speechRecognitionsTotal.inc({ outcome: "error" });
+      console.error("Ошибка распознавания голосового сообщения:", error);
+      this.trackEvent(ctx, { type: "error", source: "voice", latencyMs: Date.now() - startedAt, error });
+
+      await this.clearPreviousMessages(ctx);
+      const message = await ctx.reply(
+        ctx.t("voice.failed"),
+        Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
+      );
+      await this.saveMessageId(ctx, message.message_id);
+    }
   }
 
-  private async handleBackToSections(ctx: BotContext): Promise<void> {
+  private async showVoiceConfirmation(ctx: BotContext, transcript: string): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    if (!transcript) {
+      const message = await ctx.reply(
+        ctx.t("voice.empty"),
+        Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
+      );
+      await this.saveMessageId(ctx, message.message_id);
+      return;
+    }
+
+    await this.sessionStore.updateUserState(userId, { voiceTranscript: transcript });
+    if (ctx.userState) ctx.userState.voiceTranscript = transcript;
+
+    const message = await ctx.replyWithHTML(
+      ctx.t("voice.confirm", { text: escapeHTML(transcript) }),
+      Markup.inlineKeyboard([
+        [Markup.button.callback(ctx.t("button.voiceSearch"), this.callbackData(ctx, "voice_confirm"))],
+        [Markup.button.callback(ctx.t("button.voiceRetype"), "new_diagnosis")],
+      ])
+    );
+    await this.saveMessageId(ctx, message.message_id);
+  }
+
+  // Распознанный текст всегда ищется как новый диагноз, даже если сейчас открыт другой
+  private async handleVoiceConfirm(ctx: BotContext): Promise<void> {
+    const transcript = ctx.userState?.voiceTranscript;
+
+    if (!transcript) {
+      await this.rejectStaleButton(ctx);
+      return;
+    }
+
+    await ctx.answerCbQuery().catch(console.log);
     await this.clearPreviousMessages(ctx);
-    await this.showSections(ctx);
+    await this.transition(ctx, "ask_diagnosis", { voiceTranscript: undefined });
+    await this.processDiagnosisInput(ctx, transcript);
+  }
+
+  // Таймаут покрывает и чтение тела: зависшее скачивание не должно держать обработчик обновления.
+  // Content-Length проверяется ещё раз на случай, если в обновлении не было размера файла
+  private async downloadFile(ctx: BotContext, fileId: string): Promise<Buffer> {
+    const link = await ctx.telegram.getFileLink(fileId);
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.voiceDownloadTimeout);
+
+    try {
+      const response = await fetch(link, { signal: controller.signal });
+      if (!response.ok) throw new Error(`File download failed with status ${response.status}`);
+
+      const size = Number(response.headers.get("content-length") || 0);
+      if (size > this.voiceMaxFileSize) {
+        controller.abort();
+        throw new Error(`File is too large: ${size} bytes`);
+      }
+
+      return Buffer.from(await response.arrayBuffer());
+    } finally {
+      clearTimeout(timer);
+    }
   }
 
   private async handleOtherMessages(ctx: BotContext): Promise<void> {
     await this.clearPreviousMessages(ctx);
-    await ctx.replyWithMarkdown("Пожалуйста, используйте текстовые сообщения для ввода диагноза или команды меню.");
+    await ctx.replyWithMarkdown(ctx.t("errors.unsupportedMessage"));
   }
 
   // Вспомогательные методы
@@ -269,16 +1516,73 @@ class MedicalBot {
     const hash = this.generateHash(originalValue);
     const key = `${type}:${hash}`;
 
-    ctx.userState.callbackMap = ctx.userState.callbackMap || {};
-    ctx.userState.callbackMap[key] = originalValue;
+    ctx.userState.callbackMap = storeCallback(ctx.userState.callbackMap, key, originalValue, CALLBACK_MAP_OPTIONS);
 
-    this.sessionManager.updateUserState(userId, { callbackMap: ctx.userState.callbackMap });
+    await this.sessionStore.updateUserState(userId, { callbackMap: ctx.userState.callbackMap });
     return hash;
   }
 
-  private async resolveCallbackMapping(ctx: BotContext, callbackData: string): Promise<string | null> {
-    const userId = ctx.from?.id;
-    return (userId && ctx.userState?.callbackMap?.[callbackData]) || null;
+  private async resolveCallbackMapping(ctx: BotContext, callbackData: string): Promise<string | null> {
+    const userId = ctx.from?.id;
+    return (userId && resolveCallback(ctx.userState?.callbackMap, callbackData)) || null;
+  }
+
+  private callbackData(ctx: BotContext, action: string): string {
+    return versionCallback(ctx.userState?.stateVersion ?? 0, action);
+  }
+
+  // Недопустимый переход означает нажатие старой кнопки или гонку обновлений
+  private async transition(
+    ctx: BotContext,
+    event: ConversationEvent,
+    update: Partial<UserState> = {}
+  ): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId || !ctx.userState) return false;
+
+    const current = ctx.userState.state ?? INITIAL_STATE;
+    const state = nextState(current, event);
+
+    if (!state) {
+      console.warn(`Недопустимый переход ${current} -> ${event} для пользователя ${userId}`);
+      return false;
+    }
+
+    const changes: Partial<UserState> = { ...update, state, stateVersion: (ctx.userState.stateVersion ?? 0) + 1 };
+    await this.sessionStore.updateUserState(userId, changes);
+    Object.assign(ctx.userState, changes);
+
+    return true;
+  }
+
+  // Меняет подпись нажатой кнопки, остальная клавиатура сообщения остаётся прежней
+  private async relabelPressedButton(ctx: BotContext, text: string): Promise<void> {
+    const query = ctx.callbackQuery;
+    if (!query || !("data" in query) || !query.message || !("reply_markup" in query.message)) return;
+
+    const inlineKeyboard = query.message.reply_markup?.inline_keyboard;
+    if (!inlineKeyboard) return;
+
+    await ctx
+      .editMessageReplyMarkup({
+        inline_keyboard: inlineKeyboard.map((row) =>
+          row.map((button) =>
+            "callback_data" in button && button.callback_data === query.data ? { ...button, text } : button
+          )
+        ),
+      })
+      .catch(console.log);
+  }
+
+  private async rejectStaleButton(ctx: BotContext): Promise<void> {
+    if (!ctx.callbackQuery) {
+      await this.sendErrorMessage(ctx, "errors.staleButton");
+      return;
+    }
+
+    await ctx.answerCbQuery(ctx.t("errors.staleButton"), { show_alert: true }).catch(console.log);
+    // Убираем кнопки, чтобы их не нажимали снова
+    await ctx.editMessageReplyMarkup(undefined).catch(() => {});
   }
 
   private async clearPreviousMessages(ctx: BotContext): Promise<void> {
@@ -294,7 +1598,7 @@ class MedicalBot {
         }
       }
 
-      this.sessionManager.updateUserState(userId, {
+      await this.sessionStore.updateUserState(userId, {
         messageIds: [],
         callbackMap: ctx.userState.callbackMap,
       });
@@ -307,36 +1611,129 @@ class MedicalBot {
     }
   }
 
-  private saveMessageId(ctx: BotContext, messageId: number): void {
+  private trackEvent(
+    ctx: BotContext,
+    event: Partial<Omit<IClientEvent, "id" | "clientTelegramId" | "createdAt" | "error">> &
+      Pick<IClientEvent, "type"> & { error?: unknown }
+  ): void {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const { error, ...rest } = event;
+    if (event.type === "error") errorsTotal.inc({ source: event.source ?? "chat" });
+
+    this.repositories.clientEventsRepository
+      .create({
+        ...rest,
+        clientTelegramId: userId,
+        error: error === undefined ? null : error instanceof Error ? `${error.name}: ${error.message}` : String(error),
+      })
+      .catch(console.log);
+  }
+
+  // Каждая запись истории — один поиск: запрос, затем выбранный диагноз и раздел.
+  // Если выбор уже сделан, новый выбор начинает следующую запись.
+  private async recordHistory(
+    ctx: BotContext,
+    entry: { query?: string; diagnosis?: string; section?: string }
+  ): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const repository = this.repositories.searchHistoryRepository;
+
+    try {
+      let historyId: number;
+
+      if (entry.query) {
+        historyId = await repository.create({
+          clientTelegramId: userId,
+          query: entry.query,
+          diagnosis: null,
+          section: null,
+        });
+      } else {
+        const current = ctx.userState?.historyId ? await repository.getOne(ctx.userState.historyId, userId) : null;
+        const sameDiagnosis = current?.diagnosis === entry.diagnosis;
+
+        const canUpdate = entry.section
+          ? current && (!current.diagnosis || sameDiagnosis) && !current.section
+          : current && !current.diagnosis;
+
+        if (current && canUpdate) {
+          historyId = current.id;
+          await repository.update({
+            id: current.id,
+            clientTelegramId: userId,
+            diagnosis: entry.diagnosis ?? null,
+            ...(entry.section ? { section: entry.section } : {}),
+          });
+        } else {
+          historyId = await repository.create({
+            clientTelegramId: userId,
+            query: sameDiagnosis ? (current?.query ?? null) : null,
+            diagnosis: entry.diagnosis ?? null,
+            section: entry.section ?? null,
+          });
+        }
+      }
+
+      await this.sessionStore.updateUserState(userId, { historyId });
+      if (ctx.userState) ctx.userState.historyId = historyId;
+    } catch (error) {
+      console.error("Ошибка при записи истории:", error);
+    }
+  }
+
+  private async buildRecentDiagnosisButtons(ctx: BotContext, limit: number) {
+    const userId = ctx.from?.id;
+    if (!userId) return [];
+
+    try {
+      const diagnoses = await this.repositories.searchHistoryRepository.getRecentDiagnoses(userId, limit);
+
+      return await Promise.all(
+        diagnoses.map(async (diagnosis) => {
+          const hash = await this.storeCallbackMapping(ctx, diagnosis, "diagnosis");
+          return [Markup.button.callback(diagnosis, `open_diagnosis:${hash}`)];
+        })
+      );
+    } catch (error) {
+      console.error("Ошибка при загрузке истории:", error);
+      return [];
+    }
+  }
+
+  private async saveMessageId(ctx: BotContext, messageId: number): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId || !ctx.userState) return;
 
     const messageIds = ctx.userState.messageIds || [];
     messageIds.push(messageId);
 
-    this.sessionManager.updateUserState(userId, { messageIds });
+    await this.sessionStore.updateUserState(userId, { messageIds });
     ctx.userState.messageIds = messageIds;
   }
 
   // Методы взаимодействия с пользователем
   private async sendWelcomeMessage(ctx: BotContext): Promise<void> {
-    const welcomeText = `👋 Здравствуйте, доктор!
-Я — DocTime.MedX, ваша медицинская база знаний.
-Задайте вопрос — и я помогу найти актуальные клинические рекомендации, проверить протокол или подсказать по диагностике и лечению.
+    const welcomeText = ctx.t("welcome.text");
 
-🩺 Давайте начнём: какой запрос хотите разобрать?`;
+    const recentButtons = await this.buildRecentDiagnosisButtons(ctx, WELCOME_RECENT_LIMIT);
+    const keyboard = [
+      [Markup.button.callback(ctx.t("button.enterDiagnosis"), "new_diagnosis")],
+      ...(recentButtons.length ? [[Markup.button.callback(ctx.t("button.recent"), "history")], ...recentButtons] : []),
+      [Markup.button.callback(ctx.t("button.favorites"), "favorites")],
+    ];
 
-    const message = await ctx.replyWithMarkdown(
-      welcomeText,
-      Markup.inlineKeyboard([Markup.button.callback("Ввести диагноз", "new_diagnosis")])
-    );
+    const message = await ctx.replyWithMarkdown(welcomeText, Markup.inlineKeyboard(keyboard));
 
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
   private async askForDiagnosis(ctx: BotContext): Promise<void> {
-    const message = await ctx.replyWithMarkdown("Введите название диагноза, который вас интересует:");
-    this.saveMessageId(ctx, message.message_id);
+    const message = await ctx.replyWithMarkdown(ctx.t("diagnosis.ask"));
+    await this.saveMessageId(ctx, message.message_id);
   }
 
   private async processDiagnosisInput(ctx: BotContext, userInput: string): Promise<void> {
@@ -344,70 +1741,166 @@ class MedicalBot {
     if (!userId) return;
 
     try {
-      const searchingMessage = await ctx.replyWithMarkdown("Ищу похожие диагнозы...");
-      this.saveMessageId(ctx, searchingMessage.message_id);
+      const searchingMessage = await ctx.replyWithMarkdown(ctx.t("diagnosis.searching"));
+      await this.saveMessageId(ctx, searchingMessage.message_id);
 
-      const similarDiagnoses = await this.repositories.apiRepository.getSimilarDiagnoses(userInput);
+      await this.recordHistory(ctx, { query: userInput });
 
-      // Логирование
-      this.repositories.clientLogsRepository
-        .create({
-          clientTelegramId: userId,
-          text: `Запрос на получение диагнозов от пользователя ${userId}.\n\nЗапрос: ${userInput}\n\nОтвет:\n${similarDiagnoses.join(
-            ", "
-          )}`,
-        })
-        .catch(console.log);
+      const startedAt = Date.now();
+      const similarDiagnoses = await this.repositories.apiRepository.getDiagnoses(userInput);
+
+      this.trackEvent(ctx, {
+        type: "search",
+        query: userInput,
+        resultCount: similarDiagnoses.length,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      this.diagnosisIndex.add(similarDiagnoses);
 
       if (similarDiagnoses.length === 0) {
-        await this.showNoResultsFound(ctx);
+        await this.showSuggestions(ctx, userInput);
         return;
       }
 
+      await this.transition(ctx, "show_diagnoses");
       await this.showDiagnosisOptions(ctx, similarDiagnoses);
     } catch (error) {
       console.error("Error getting similar diagnoses:", error);
-      await this.sendSearchError(ctx);
+      this.trackEvent(ctx, { type: "error", query: userInput, error });
+
+      // Пока API недоступен, диагнозы предлагаются из локального указателя
+      const apiFailed = error instanceof APIError && !(error instanceof APINotFoundError);
+      const suggestions = apiFailed ? this.diagnosisIndex.search(userInput, SUGGESTIONS_LIMIT) : [];
+      if (!suggestions.length) {
+        await this.sendSearchError(ctx, error);
+        return;
+      }
+
+      await this.transition(ctx, "show_diagnoses");
+      await this.showDiagnosisOptions(ctx, suggestions, { text: ctx.t("diagnosis.offline") });
+    }
+  }
+
+  // Сначала локальный указатель с опечатками и транслитом, затем — если запрос набран не в той раскладке —
+  // повторный поиск в API исправленным запросом
+  private async showSuggestions(ctx: BotContext, userInput: string): Promise<void> {
+    let suggestions = this.diagnosisIndex.search(userInput, SUGGESTIONS_LIMIT);
+
+    const switchedInput = switchKeyboardLayout(userInput);
+    if (!suggestions.length && switchedInput !== userInput.toLowerCase()) {
+      suggestions = (await this.repositories.apiRepository.getDiagnoses(switchedInput)).slice(0, SUGGESTIONS_LIMIT);
+      this.diagnosisIndex.add(suggestions);
+    }
+
+    if (!suggestions.length) {
+      await this.showNoResultsFound(ctx);
+      return;
+    }
+
+    await this.transition(ctx, "show_diagnoses");
+    await this.showDiagnosisOptions(ctx, suggestions, { text: ctx.t("diagnosis.suggestions") });
+  }
+
+  private async processICDCode(ctx: BotContext, code: string): Promise<void> {
+    // Код вводят и при открытом диагнозе: без этого перехода выбор из найденных был бы запрещён
+    await this.transition(ctx, "ask_diagnosis");
+
+    try {
+      const searchingMessage = await ctx.reply(ctx.t("icd.searching", { code }));
+      await this.saveMessageId(ctx, searchingMessage.message_id);
+
+      await this.recordHistory(ctx, { query: code });
+
+      const startedAt = Date.now();
+      const diagnoses = await this.icdResolver.findDiagnoses(code);
+      this.diagnosisIndex.add(diagnoses);
+
+      this.trackEvent(ctx, {
+        type: "search",
+        source: "icd",
+        query: code,
+        resultCount: diagnoses.length,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      if (diagnoses.length === 0) {
+        const entry = this.icdResolver.getEntry(code);
+        const message = await ctx.reply(
+          entry ? ctx.t("icd.noResultsNamed", { code, name: entry.name }) : ctx.t("icd.noResults", { code }),
+          Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
+        );
+        await this.saveMessageId(ctx, message.message_id);
+        return;
+      }
+
+      await this.transition(ctx, "show_diagnoses");
+      await this.showDiagnosisOptions(ctx, diagnoses);
+    } catch (error) {
+      console.error("Error searching by ICD code:", error);
+      this.trackEvent(ctx, { type: "error", source: "icd", query: code, error });
+      await this.sendSearchError(ctx, error);
     }
   }
 
   private async showNoResultsFound(ctx: BotContext): Promise<void> {
     const message = await ctx.replyWithMarkdown(
-      "По вашему запросу ничего не найдено. Попробуйте ввести другой диагноз или уточнить формулировку.",
-      Markup.inlineKeyboard([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")])
+      ctx.t("diagnosis.noResults"),
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
     );
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
-  private async showDiagnosisOptions(ctx: BotContext, diagnoses: string[]): Promise<void> {
-    const uniqueDiagnoses = diagnoses.filter((diagnosis, index) => diagnoses.indexOf(diagnosis) === index);
+  // text заменяет заголовок «Найдено N диагнозов».
+  // Значки только из известных кодов: запрос раздела «МКБ» для каждого варианта задерживал бы весь список
+  private async showDiagnosisOptions(
+    ctx: BotContext,
+    diagnoses: IDiagnosis[],
+    options: { text?: string } = {}
+  ): Promise<void> {
+    const uniqueDiagnoses = diagnoses.filter(
+      (diagnosis, index) => diagnoses.findIndex((item) => item.name === diagnosis.name) === index
+    );
 
+    // Диагноз без известного кода показывается без значка
     const buttons = await Promise.all(
       uniqueDiagnoses.map(async (diagnosis) => {
-        const hash = await this.storeCallbackMapping(ctx, diagnosis, "diagnosis");
-        return [Markup.button.callback(diagnosis, `select_diagnosis:${hash}`)];
+        const hash = await this.storeCallbackMapping(ctx, diagnosis.name, "diagnosis");
+        const codes = this.icdResolver.getKnownCodes(diagnosis);
+        const label = codes.length ? `${formatICDBadge(codes)} · ${diagnosis.name}` : diagnosis.name;
+
+        return [Markup.button.callback(label, this.callbackData(ctx, `select_diagnosis:${hash}`))];
       })
     );
 
-    const keyboard = [...buttons, [Markup.button.callback("Ввести новый диагноз", "new_diagnosis")]];
+    const keyboard = [...buttons, [Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")]];
 
     const message = await ctx.replyWithMarkdown(
-      "Найдены следующие диагнозы. Выберите подходящий:",
+      options.text ?? ctx.t("diagnosis.found", { count: uniqueDiagnoses.length }),
       Markup.inlineKeyboard(keyboard)
     );
 
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
-  private async processSelectedDiagnosis(ctx: BotContext, diagnosis: string): Promise<void> {
+  private async processSelectedDiagnosis(
+    ctx: BotContext,
+    diagnosis: string,
+    event: "select_diagnosis" | "open_diagnosis"
+  ): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId) return;
 
-    this.sessionManager.updateUserState(userId, { diagnosis });
-    if (ctx.userState) ctx.userState.diagnosis = diagnosis;
+    const update = { diagnosis, currentSection: undefined, currentPage: undefined };
+    if (!(await this.transition(ctx, event, update))) {
+      await this.rejectStaleButton(ctx);
+      return;
+    }
+
+    await this.recordHistory(ctx, { diagnosis });
 
-    const loadingMessage = await ctx.replyWithMarkdown(`*${diagnosis}*\n\nЗагружаю информацию...`);
-    this.saveMessageId(ctx, loadingMessage.message_id);
+    const loadingMessage = await ctx.replyWithHTML(`<b>${escapeHTML(diagnosis)}</b>\n\n${ctx.t("diagnosis.loading")}`);
+    await this.saveMessageId(ctx, loadingMessage.message_id);
 
     await this.showSections(ctx);
   }
@@ -417,62 +1910,57 @@ class MedicalBot {
     if (!userId) return;
 
     try {
-      const userState = this.sessionManager.getUserState(userId);
+      const userState = await this.sessionStore.getUserState(userId);
       if (!userState?.diagnosis) {
-        await this.sendErrorMessage(ctx, "Информация не найдена");
+        await this.sendErrorMessage(ctx, "errors.infoNotFound");
         return;
       }
 
+      const startedAt = Date.now();
       const sections = await this.repositories.apiRepository.getSections(userState.diagnosis);
 
-      // Логирование
-      this.repositories.clientLogsRepository
-        .create({
-          clientTelegramId: userId,
-          text: `Запрос на получение секций от пользователя ${userId}.\n\nЗапрос: ${
-            userState.diagnosis
-          }\n\nОтвет:\n${sections.join(", ")}`,
-        })
-        .catch(console.log);
+      this.trackEvent(ctx, {
+        type: "diagnosis_selected",
+        diagnosis: userState.diagnosis,
+        resultCount: sections.length,
+        latencyMs: Date.now() - startedAt,
+      });
 
       if (sections.length === 0) {
         await this.showNoSectionsAvailable(ctx);
         return;
       }
 
-      this.sessionManager.updateUserState(userId, { sections });
-      if (ctx.userState) {
-        ctx.userState.sections = sections;
-      }
-
       await this.displaySectionsList(ctx, userState.diagnosis, sections);
     } catch (error) {
       console.error("Error getting sections:", error);
-      await this.sendLoadError(ctx);
+      this.trackEvent(ctx, { type: "error", diagnosis: ctx.userState?.diagnosis, error });
+      await this.sendLoadError(ctx, error);
     }
   }
 
   private async showNoSectionsAvailable(ctx: BotContext): Promise<void> {
     const message = await ctx.replyWithMarkdown(
-      "Для выбранного диагноза нет доступной информации.",
-      Markup.inlineKeyboard([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")])
+      ctx.t("sections.none"),
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
     );
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
   private async displaySectionsList(ctx: BotContext, diagnosis: string, sections: string[]): Promise<void> {
-    const filteredSections = sections
-      .filter((section) => section !== "МКБ")
-      .sort((a, b) => {
-        const priorityA = a === "Лечение" || a === "Диагностика" ? 0 : 1;
-        const priorityB = b === "Лечение" || b === "Диагностика" ? 0 : 1;
-        return priorityA - priorityB;
-      });
+    const codes = await this.icdResolver.getCodes({ id: diagnosis, name: diagnosis, icd: null }, sections);
+    const subscribed = await this.isSubscribed(ctx, diagnosis);
+    const badge = codes.length ? ` <code>${escapeHTML(formatICDBadge(codes))}</code>` : "";
+
+    const filteredSections = sortSections(sections.filter((section) => !isHiddenSection(section)));
 
     const sectionButtons = await Promise.all(
       filteredSections.map(async (section) => {
         const hash = await this.storeCallbackMapping(ctx, section, "section");
-        return Markup.button.callback(section, `select_section:${hash}`);
+        return Markup.button.callback(
+          this.formatSectionTitle(ctx, section),
+          this.callbackData(ctx, `select_section:${hash}`)
+        );
       })
     );
 
@@ -481,95 +1969,576 @@ class MedicalBot {
       keyboard.push(sectionButtons.slice(i, i + 2));
     }
 
-    keyboard.push([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")]);
-
-    const message = await ctx.replyWithMarkdown(
-      `*${diagnosis}*\n\nДоступные разделы:`,
+    keyboard.push([
+      Markup.button.callback(ctx.t("button.addFavorite"), this.callbackData(ctx, "favorite_add:diagnosis")),
+      Markup.button.callback(ctx.t("button.download"), this.callbackData(ctx, "download:diagnosis")),
+    ]);
+    keyboard.push([
+      Markup.button.callback(
+        ctx.t(subscribed ? "button.unsubscribe" : "button.subscribe"),
+        this.callbackData(ctx, "subscription_toggle")
+      ),
+    ]);
+    keyboard.push([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")]);
+
+    const message = await ctx.replyWithHTML(
+      `<b>${escapeHTML(diagnosis)}</b>${badge}\n\n${ctx.t("question.hint", {
+        newDiagnosis: ctx.t("button.newDiagnosis"),
+      })}\n\n${ctx.t("sections.title")}`,
       Markup.inlineKeyboard(keyboard)
     );
 
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
+  }
+
+  // Если БД недоступна, список разделов всё равно показывается — с кнопкой «Следить»
+  private async isSubscribed(ctx: BotContext, diagnosis: string): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId) return false;
+
+    try {
+      return !!(await this.repositories.subscriptionsRepository.find(userId, diagnosis));
+    } catch (error) {
+      console.error("Ошибка при проверке подписки:", error);
+      return false;
+    }
+  }
+
+  // Ответ ищется локально: все разделы диагноза делятся на абзацы и ранжируются по BM25
+  private async processQuestion(ctx: BotContext, diagnosis: string, question: string): Promise<void> {
+    try {
+      const searchingMessage = await ctx.reply(ctx.t("question.searching"));
+      await this.saveMessageId(ctx, searchingMessage.message_id);
+
+      const startedAt = Date.now();
+      const sections = (await this.repositories.apiRepository.getSections(diagnosis)).filter(
+        (section) => !isHiddenSection(section)
+      );
+
+      // Недоступный раздел не мешает искать в остальных
+      const documents = await Promise.all(
+        sections.map((section) =>
+          this.repositories.apiRepository.getSection(diagnosis, section).then(
+            (content): SectionDocument => ({ section, content }),
+            (error) => {
+              console.error(`Error loading section ${section} for question:`, error);
+              return null;
+            }
+          )
+        )
+      );
+
+      const matches = searchSections(
+        documents.filter((document): document is SectionDocument => document !== null),
+        question,
+        QUESTION_SNIPPETS_LIMIT
+      );
+
+      this.trackEvent(ctx, {
+        type: "question",
+        query: question,
+        diagnosis,
+        resultCount: matches.length,
+        latencyMs: Date.now() - startedAt,
+      });
+
+      const navigation = [
+        [Markup.button.callback(ctx.t("button.backToSections"), this.callbackData(ctx, "back_to_sections"))],
+        [Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")],
+      ];
+
+      if (!matches.length) {
+        const message = await ctx.reply(ctx.t("question.noResults"), Markup.inlineKeyboard(navigation));
+        await this.saveMessageId(ctx, message.message_id);
+        return;
+      }
+
+      const matchedSections = matches
+        .map(({ section }) => section)
+        .filter((section, index, all) => all.indexOf(section) === index);
+
+      const sectionButtons = await Promise.all(
+        matchedSections.map(async (section) => {
+          const hash = await this.storeCallbackMapping(ctx, section, "section");
+          const label = ctx.t("question.openSection", { section: this.formatSectionTitle(ctx, section) });
+          return [Markup.button.callback(label, this.callbackData(ctx, `select_section:${hash}`))];
+        })
+      );
+
+      const text = [
+        `💬 <b>${escapeHTML(diagnosis)}</b>`,
+        `<i>${escapeHTML(question)}</i>`,
+        ...matches.map(
+          ({ section, snippet }) => `<b>${escapeHTML(this.formatSectionTitle(ctx, section))}</b>\n${snippet}`
+        ),
+      ].join("\n\n");
+
+      const message = await ctx.replyWithHTML(text, Markup.inlineKeyboard([...sectionButtons, ...navigation]));
+      await this.saveMessageId(ctx, message.message_id);
+    } catch (error) {
+      console.error("Error answering question:", error);
+      this.trackEvent(ctx, { type: "error", query: question, diagnosis, error });
+      await this.sendLoadError(ctx, error);
+    }
   }
 
-  private async processSelectedSection(ctx: BotContext, sectionTitle: string): Promise<void> {
+  private async processSelectedSection(
+    ctx: BotContext,
+    diagnosis: string,
+    sectionTitle: string,
+    event: "select_section" | "open_section"
+  ): Promise<void> {
     const userId = ctx.from?.id;
     if (!userId) return;
 
-    const userState = this.sessionManager.getUserState(userId);
-    if (!userState?.diagnosis) {
-      await this.sendErrorMessage(ctx, "Информация не найдена");
+    if (!(await this.transition(ctx, event, { diagnosis, currentSection: sectionTitle, currentPage: 0 }))) {
+      await this.rejectStaleButton(ctx);
       return;
     }
 
-    this.sessionManager.updateUserState(userId, { currentSection: sectionTitle });
+    await this.recordHistory(ctx, { diagnosis, section: sectionTitle });
 
-    const loadingMessage = await ctx.replyWithMarkdown(`*${sectionTitle}*\n\nЗагружаю содержимое...`);
-    this.saveMessageId(ctx, loadingMessage.message_id);
+    const loadingMessage = await ctx.replyWithHTML(
+      `<b>${escapeHTML(this.formatSectionTitle(ctx, sectionTitle))}</b>\n\n${ctx.t("section.loading")}`
+    );
+    await this.saveMessageId(ctx, loadingMessage.message_id);
 
     try {
-      const content = await this.repositories.apiRepository.getSection(userState.diagnosis, sectionTitle);
+      const startedAt = Date.now();
+      const content = await this.repositories.apiRepository.getSection(diagnosis, sectionTitle);
+      const pages = this.paginateSection(content);
+
+      this.trackEvent(ctx, {
+        type: "section_viewed",
+        diagnosis,
+        section: sectionTitle,
+        resultCount: pages.length,
+        latencyMs: Date.now() - startedAt,
+      });
 
-      // Логирование
-      this.repositories.clientLogsRepository
-        .create({
-          clientTelegramId: userId,
-          text: `Запрос на получение секции от пользователя ${userId}.\n\nЗапрос: ${sectionTitle}\n\nОтвет:\n${content}`,
+      const message = await this.sendRendered(this.formatSectionTitle(ctx, sectionTitle), pages[0], (text, parseMode) =>
+        ctx.reply(text, {
+          parse_mode: parseMode,
+          ...Markup.inlineKeyboard(this.buildSectionKeyboard(ctx, pages.length, 0)),
         })
-        .catch(console.log);
+      );
 
-      const cleanedContent = content.replace(/###\s/g, "").replace(/###/g, "");
+      await this.saveMessageId(ctx, message.message_id);
+    } catch (error) {
+      console.error("Error loading section content:", error);
+      this.trackEvent(ctx, { type: "error", diagnosis, section: sectionTitle, error });
+      await this.sendLoadError(ctx, error);
+    }
+  }
 
-      const message = await ctx.replyWithMarkdown(
-        `*${sectionTitle}*\n\n${cleanedContent}`,
-        Markup.inlineKeyboard([
-          [Markup.button.callback("Назад к разделам", "back_to_sections")],
-          [Markup.button.callback("Ввести новый диагноз", "new_diagnosis")],
-        ])
+  private async buildInlineDiagnosisResults(ctx: BotContext, query: string): Promise<InlineQueryResult[]> {
+    const diagnoses = await this.repositories.apiRepository.getSimilarDiagnoses(query);
+    const uniqueDiagnoses = diagnoses
+      .filter((diagnosis, index) => diagnoses.indexOf(diagnosis) === index)
+      .slice(0, INLINE_RESULTS_LIMIT);
+
+    return Promise.all(
+      uniqueDiagnoses.map(async (diagnosis): Promise<InlineQueryResult> => {
+        const sections = sortSections(
+          (await this.repositories.apiRepository.getSections(diagnosis).catch(() => [])).filter(
+            (section) => !isHiddenSection(section)
+          )
+        );
+
+        const sectionList = sections.length
+          ? `${ctx.t("inline.sections")}\n${sections
+              .map((section) => `• ${escapeHTML(this.formatSectionTitle(ctx, section))}`)
+              .join("\n")}`
+          : ctx.t("inline.noSections");
+
+        return {
+          type: "article",
+          id: this.generateHash(diagnosis),
+          title: diagnosis,
+          description: sections.slice(0, 3).join(", "),
+          input_message_content: {
+            message_text: `<b>${escapeHTML(diagnosis)}</b>\n\n${sectionList}`,
+            parse_mode: "HTML",
+          },
+          ...(await this.buildInlineBotLink(ctx, diagnosis, null)),
+        };
+      })
+    );
+  }
+
+  private async buildInlineSectionResults(
+    ctx: BotContext,
+    diagnosisQuery: string,
+    sectionQuery: string
+  ): Promise<InlineQueryResult[]> {
+    const [diagnosis] = await this.repositories.apiRepository.getSimilarDiagnoses(diagnosisQuery);
+    if (!diagnosis) return [];
+
+    const sections = await this.repositories.apiRepository.getSections(diagnosis);
+    const matchedSections = sections
+      .filter((section) => section.toLowerCase().includes(sectionQuery.toLowerCase()))
+      .slice(0, INLINE_RESULTS_LIMIT);
+
+    return Promise.all(
+      matchedSections.map(async (section): Promise<InlineQueryResult> => {
+        const content = await this.repositories.apiRepository.getSection(diagnosis, section);
+        const pages = this.paginateSection(content);
+        const continuation = pages.length > 1 ? `\n\n<i>${ctx.t("inline.continuation")}</i>` : "";
+
+        return {
+          type: "article",
+          id: this.generateHash(`${diagnosis}:${section}`),
+          title: section,
+          description: diagnosis,
+          input_message_content: {
+            message_text: `<b>${escapeHTML(diagnosis)}</b>\n<b>${escapeHTML(section)}</b>\n\n${renderMarkdown(
+              pages[0]
+            )}${continuation}`,
+            parse_mode: "HTML",
+          },
+          ...(await this.buildInlineBotLink(ctx, diagnosis, section)),
+        };
+      })
+    );
+  }
+
+  private async buildInlineBotLink(ctx: BotContext, diagnosis: string, section: string | null) {
+    const link = await this.createDeepLink(ctx, diagnosis, section).catch((error) => {
+      console.error("Ошибка при создании ссылки:", error);
+      return `https://t.me/${ctx.me}?start=inline`;
+    });
+
+    return Markup.inlineKeyboard([Markup.button.url(ctx.t("button.openInBot"), link)]);
+  }
+
+  private async createDeepLink(ctx: BotContext, diagnosis: string, section: string | null): Promise<string> {
+    const userId = ctx.from?.id;
+    if (!userId) throw new Error("Cannot create deep link without a user");
+
+    const token = await this.repositories.deepLinksRepository.getOrCreate({
+      diagnosis,
+      section,
+      clientTelegramId: userId,
+    });
+
+    return `https://t.me/${ctx.me}?start=${token}`;
+  }
+
+  // Возвращает false, если токен неизвестен и нужно показать обычное приветствие
+  private async openDeepLink(ctx: BotContext, token: string): Promise<boolean> {
+    const userId = ctx.from?.id;
+    if (!userId) return false;
+
+    try {
+      const deepLink = await this.repositories.deepLinksRepository.getOne(token);
+      if (!deepLink) return false;
+
+      this.repositories.deepLinksRepository.recordClick(token, userId).catch(console.log);
+
+      await this.openDiagnosisOrSection(ctx, deepLink.diagnosis, deepLink.section);
+      return true;
+    } catch (error) {
+      console.error("Ошибка при открытии ссылки:", error);
+      return false;
+    }
+  }
+
+  private async openDiagnosisOrSection(ctx: BotContext, diagnosis: string, section: string | null): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    if (!section) {
+      await this.processSelectedDiagnosis(ctx, diagnosis, "open_diagnosis");
+      return;
+    }
+
+    await this.processSelectedSection(ctx, diagnosis, section, "open_section");
+  }
+
+  // Листание страниц раздела: сообщение редактируется на месте
+  private async showSectionPage(ctx: BotContext, page: number): Promise<void> {
+    const userId = ctx.from?.id;
+    const diagnosis = ctx.userState?.diagnosis;
+    const sectionTitle = ctx.userState?.currentSection;
+    if (!userId) return;
+
+    if (!diagnosis || !sectionTitle) {
+      await this.clearPreviousMessages(ctx);
+      await this.sendErrorMessage(ctx, "errors.sectionNotFound");
+      return;
+    }
+
+    try {
+      const content = await this.repositories.apiRepository.getSection(diagnosis, sectionTitle);
+      const pages = this.paginateSection(content);
+      const currentPage = Math.min(Math.max(page, 0), pages.length - 1);
+
+      await this.sessionStore.updateUserState(userId, { currentPage });
+      if (ctx.userState) ctx.userState.currentPage = currentPage;
+
+      await this.sendRendered(this.formatSectionTitle(ctx, sectionTitle), pages[currentPage], (text, parseMode) =>
+        ctx.editMessageText(text, {
+          parse_mode: parseMode,
+          ...Markup.inlineKeyboard(this.buildSectionKeyboard(ctx, pages.length, currentPage)),
+        })
       );
+    } catch (error) {
+      console.error("Error loading section page:", error);
+      await this.clearPreviousMessages(ctx);
+      await this.sendLoadError(ctx, error);
+    }
+  }
+
+  // Лимит проверяется по HTML, который уйдёт в Telegram: экранирование и теги длиннее исходного Markdown
+  private paginateSection(content: string): string[] {
+    return paginate(content, SECTION_PAGE_LIMIT, (page) => {
+      try {
+        return renderMarkdown(page).length;
+      } catch {
+        return page.length;
+      }
+    });
+  }
+
+  // Markdown из базы знаний уходит в Telegram как HTML, а если разметку не приняли — простым текстом
+  private async sendRendered<T>(
+    title: string,
+    markdown: string,
+    send: (text: string, parseMode?: "HTML") => Promise<T>
+  ): Promise<T> {
+    let html: string | null = null;
 
-      this.saveMessageId(ctx, message.message_id);
+    try {
+      html = `<b>${escapeHTML(title)}</b>\n\n${renderMarkdown(markdown)}`;
     } catch (error) {
-      console.error("Error loading section content:", error);
-      await this.sendLoadError(ctx);
+      console.error("Ошибка при разборе Markdown:", error);
+    }
+
+    if (html !== null) {
+      try {
+        return await send(html, "HTML");
+      } catch (error) {
+        if (!this.isParseError(error)) throw error;
+        console.error("Telegram не принял разметку, отправляю простой текст:", error);
+      }
+    }
+
+    return send(`${title}\n\n${toPlainText(markdown)}`);
+  }
+
+  private isParseError(error: unknown): boolean {
+    return error instanceof TelegramError && error.code === 400 && /entit|parse|tag/i.test(error.description);
+  }
+
+  // Названия известных разделов переводятся; остальные показываются так, как их отдаёт база знаний
+  private formatSectionTitle(ctx: BotContext, title: string): string {
+    const key = getSectionKey(title);
+    return key === "diagnostics" || key === "treatment" ? ctx.t(`section.${key}`) : title;
+  }
+
+  private buildSectionKeyboard(ctx: BotContext, pageCount: number, page: number) {
+    const keyboard = [];
+
+    if (pageCount > 1) {
+      const navigation = [];
+      if (page > 0) navigation.push(Markup.button.callback("◀", this.callbackData(ctx, `section_page:${page - 1}`)));
+      navigation.push(Markup.button.callback(`${page + 1}/${pageCount}`, "noop"));
+      if (page < pageCount - 1)
+        navigation.push(Markup.button.callback("▶", this.callbackData(ctx, `section_page:${page + 1}`)));
+      keyboard.push(navigation);
+    }
+
+    keyboard.push([
+      Markup.button.callback(ctx.t("button.addFavorite"), this.callbackData(ctx, "favorite_add:section")),
+      Markup.button.callback(ctx.t("button.share"), this.callbackData(ctx, "share_section")),
+    ]);
+    keyboard.push([Markup.button.callback(ctx.t("button.download"), this.callbackData(ctx, "download:section"))]);
+    keyboard.push([Markup.button.callback(ctx.t("button.backToSections"), this.callbackData(ctx, "back_to_sections"))]);
+    keyboard.push([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")]);
+
+    return keyboard;
+  }
+
+  private async showFavorites(ctx: BotContext): Promise<void> {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    try {
+      const favorites = await this.repositories.favoritesRepository.getAll(userId);
+
+      const message = favorites.length
+        ? await ctx.replyWithMarkdown(
+            ctx.t("favorites.title"),
+            Markup.inlineKeyboard(this.buildFavoritesKeyboard(ctx, favorites))
+          )
+        : await ctx.replyWithMarkdown(
+            ctx.t("favorites.empty"),
+            Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
+          );
+
+      await this.saveMessageId(ctx, message.message_id);
+    } catch (error) {
+      console.error("Ошибка при загрузке избранного:", error);
+      await this.sendErrorMessage(ctx, "errors.favoritesLoadFailed");
+    }
+  }
+
+  private async showHistory(ctx: BotContext): Promise<void> {
+    const recentButtons = await this.buildRecentDiagnosisButtons(ctx, HISTORY_LIMIT);
+
+    const message = recentButtons.length
+      ? await ctx.replyWithMarkdown(
+          ctx.t("history.title"),
+          Markup.inlineKeyboard([
+            ...recentButtons,
+            [Markup.button.callback(ctx.t("button.clearHistory"), "history_clear")],
+            [Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")],
+          ])
+        )
+      : await ctx.replyWithMarkdown(
+          ctx.t("history.empty"),
+          Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
+        );
+
+    await this.saveMessageId(ctx, message.message_id);
+  }
+
+  // После удаления или перемещения список обновляется в том же сообщении
+  private async refreshFavorites(ctx: BotContext, userId: number): Promise<void> {
+    const favorites = await this.repositories.favoritesRepository.getAll(userId);
+
+    if (!favorites.length) {
+      await this.clearPreviousMessages(ctx);
+      await this.showFavorites(ctx);
+      return;
     }
+
+    await ctx.editMessageReplyMarkup(Markup.inlineKeyboard(this.buildFavoritesKeyboard(ctx, favorites)).reply_markup);
+  }
+
+  private buildFavoritesKeyboard(ctx: BotContext, favorites: IFavorite[]) {
+    const keyboard = favorites.map((favorite, index) => {
+      const title = favorite.section ? `${favorite.diagnosis} — ${favorite.section}` : favorite.diagnosis;
+      const label = title.length > 60 ? `${title.slice(0, 57)}...` : title;
+
+      const row = [Markup.button.callback(label, `favorite_open:${favorite.id}`)];
+      if (index > 0) row.push(Markup.button.callback("⬆", `favorite_up:${favorite.id}`));
+      row.push(Markup.button.callback("✖", `favorite_remove:${favorite.id}`));
+
+      return row;
+    });
+
+    keyboard.push([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")]);
+    return keyboard;
   }
 
-  private async sendErrorMessage(ctx: BotContext, message: string): Promise<void> {
+  private async sendErrorMessage(ctx: BotContext, key: MessageKey): Promise<void> {
     const errorMessage = await ctx.replyWithMarkdown(
-      `${message}. Пожалуйста, попробуйте снова.`,
-      Markup.inlineKeyboard([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")])
+      ctx.t("errors.retry", { message: ctx.t(key) }),
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
     );
-    this.saveMessageId(ctx, errorMessage.message_id);
+    await this.saveMessageId(ctx, errorMessage.message_id);
   }
 
-  private async sendSearchError(ctx: BotContext): Promise<void> {
+  private async sendSearchError(ctx: BotContext, error: unknown): Promise<void> {
+    const text = this.describeAPIError(ctx, error) ?? ctx.t("errors.search");
+
     const message = await ctx.replyWithMarkdown(
-      "Произошла ошибка при поиске диагнозов. Попробуйте позже.",
-      Markup.inlineKeyboard([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")])
+      text,
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
     );
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
-  private async sendLoadError(ctx: BotContext): Promise<void> {
+  private async sendLoadError(ctx: BotContext, error: unknown): Promise<void> {
+    const text =
+      error instanceof APINotFoundError
+        ? ctx.t("errors.contentNotFound")
+        : (this.describeAPIError(ctx, error) ?? ctx.t("errors.load"));
+
     const message = await ctx.replyWithMarkdown(
-      "Произошла ошибка при загрузке информации. Попробуйте позже.",
-      Markup.inlineKeyboard([Markup.button.callback("Ввести новый диагноз", "new_diagnosis")])
+      text,
+      Markup.inlineKeyboard([Markup.button.callback(ctx.t("button.newDiagnosis"), "new_diagnosis")])
     );
-    this.saveMessageId(ctx, message.message_id);
+    await this.saveMessageId(ctx, message.message_id);
   }
 
-  public launch(): void {
-    this.bot.launch(() => {
-      console.log("Бот запущен");
-    });
+  private describeAPIError(ctx: BotContext, error: unknown): string | null {
+    if (error instanceof APIUnavailableError) return ctx.t("errors.apiUnavailable");
+    if (error instanceof APITimeoutError) return ctx.t("errors.apiTimeout");
+    if (error instanceof APINotFoundError) return ctx.t("errors.apiNotFound");
+
+    return null;
+  }
+
+  public launch(options: LaunchOptions): void {
+    this.launchOptions = options;
+
+    if (options.httpPort) {
+      this.httpServer = new HTTPServer(options.httpPort, {
+        webhook:
+          options.mode === "webhook"
+            ? this.bot.webhookCallback(new URL(options.webhookURL).pathname, { secretToken: options.webhookSecret })
+            : undefined,
+        checkHealth: () => this.repositories.checkHealth(),
+        renderMetrics: () => metrics.render(),
+      });
+
+      this.httpServer
+        .start()
+        .then(() => console.log(`HTTP-сервер слушает порт ${options.httpPort}`))
+        .catch((error) => {
+          console.error("Не удалось запустить HTTP-сервер:", error);
+          process.exit(1);
+        });
+    }
+
+    if (options.mode === "webhook") {
+      this.bot.telegram
+        .setWebhook(options.webhookURL, { secret_token: options.webhookSecret })
+        .then(() => console.log("Бот запущен в режиме вебхука"))
+        .catch((error) => {
+          console.error("Не удалось установить вебхук:", error);
+          process.exit(1);
+        });
+    } else {
+      this.bot.launch(() => {
+        console.log("Бот запущен");
+      });
+    }
+
+    this.broadcastSender.resume().catch((error) => console.error("Ошибка при возобновлении рассылок:", error));
+    this.guidelineWatcher.start();
+    this.diagnosisIndex
+      .load()
+      .then(() => console.log(`Указатель диагнозов: ${this.diagnosisIndex.size}`))
+      .catch((error) => console.error("Ошибка при загрузке указателя диагнозов:", error));
 
     process.once("SIGINT", () => this.gracefulShutdown("SIGINT"));
     process.once("SIGTERM", () => this.gracefulShutdown("SIGTERM"));
   }
 
-  private gracefulShutdown(signal: string): void {
+  private async gracefulShutdown(signal: string): Promise<void> {
     console.log("Сохранение сессий перед завершением...");
-    this.bot.stop(signal);
+
+    // Вебхук не удаляем: пока бот перезапускается, Telegram придержит обновления у себя
+    if (this.launchOptions?.mode !== "webhook") this.bot.stop(signal);
+
+    await Promise.all([this.httpServer?.stop(SHUTDOWN_DRAIN_TIMEOUT), this.drainUpdates()]);
+    await Promise.all([this.broadcastSender.stop(), this.guidelineWatcher.stop()]);
+    await this.sessionStore.close();
+  }
+
+  private async drainUpdates(): Promise<void> {
+    const deadline = Date.now() + SHUTDOWN_DRAIN_TIMEOUT;
+
+    while (this.inFlightUpdates > 0 && Date.now() < deadline) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+
+    if (this.inFlightUpdates > 0) {
+      console.error(`Не дождались обработки обновлений: ${this.inFlightUpdates}`);
+    }
   }
 }
 
@@ -583,15 +2552,182 @@ const DB_PASSWORD = process.env.DB_PASSWORD || "";
 const DB_DATABASE = process.env.DB_DATABASE || "";
 const DB_USER = process.env.DB_USER || "";
 
-if (!BOT_TOKEN) {
-  console.error("Please set BOT_TOKEN environment variable");
-  process.exit(1);
+const SESSION_STORE = process.env.SESSION_STORE || "file";
+
+// TTL задаются в секундах
+const CACHE_STALE_TTL = Number(process.env.CACHE_STALE_TTL || 24 * 60 * 60) * 1000;
+const CACHE_CONFIG: APICacheConfig = {
+  store: process.env.CACHE_STORE || "memory",
+  diagnoses: {
+    ttl: Number(process.env.CACHE_DIAGNOSES_TTL || 10 * 60) * 1000,
+    staleTtl: CACHE_STALE_TTL,
+    maxSize: Number(process.env.CACHE_DIAGNOSES_MAX_SIZE || 1000),
+  },
+  sections: {
+    ttl: Number(process.env.CACHE_SECTIONS_TTL || 60 * 60) * 1000,
+    staleTtl: CACHE_STALE_TTL,
+    maxSize: Number(process.env.CACHE_SECTIONS_MAX_SIZE || 1000),
+  },
+  section: {
+    ttl: Number(process.env.CACHE_SECTION_TTL || 60 * 60) * 1000,
+    staleTtl: CACHE_STALE_TTL,
+    maxSize: Number(process.env.CACHE_SECTION_MAX_SIZE || 5000),
+  },
+  documents: {
+    ttl: Number(process.env.CACHE_DOCUMENTS_TTL || 7 * 24 * 60 * 60) * 1000,
+    staleTtl: 0,
+    maxSize: Number(process.env.CACHE_DOCUMENTS_MAX_SIZE || 1000),
+  },
+};
+
+const API_HTTP_OPTIONS: APIHTTPOptions = {
+  timeout: Number(process.env.API_TIMEOUT || 10000),
+  retries: Number(process.env.API_RETRIES || 2),
+  retryBaseDelay: Number(process.env.API_RETRY_BASE_DELAY || 300),
+  failureThreshold: Number(process.env.API_BREAKER_THRESHOLD || 5),
+  resetTimeout: Number(process.env.API_BREAKER_RESET_TIMEOUT || 30000),
+};
+
+const INLINE_OPTIONS: InlineQueryThrottleOptions = {
+  debounce: Number(process.env.INLINE_DEBOUNCE || 400),
+  limit: Number(process.env.INLINE_RATE_LIMIT || 20),
+  window: 60 * 1000,
+};
+
+const BROADCAST_OPTIONS: BroadcastSenderOptions = {
+  rate: Number(process.env.BROADCAST_RATE || 20),
+  batchSize: 100,
+};
+
+// Рекомендации с подписчиками перепроверяются раз в GUIDELINE_CHECK_INTERVAL минут; 0 — проверка отключена
+const GUIDELINE_WATCHER_OPTIONS: GuidelineWatcherOptions = {
+  interval: Number(process.env.GUIDELINE_CHECK_INTERVAL || 24 * 60) * 60 * 1000,
+  requestDelay: Number(process.env.GUIDELINE_REQUEST_DELAY || 1000),
+  maxBackoff: Number(process.env.GUIDELINE_MAX_BACKOFF || 5 * 60 * 1000),
+  rate: BROADCAST_OPTIONS.rate,
+};
+
+const RATE_LIMIT_CONFIG: RateLimitConfig = {
+  store: process.env.RATE_LIMIT_STORE || "memory",
+  search: {
+    user: {
+      capacity: Number(process.env.RATE_LIMIT_SEARCH_BURST || 5),
+      refillPerMinute: Number(process.env.RATE_LIMIT_SEARCH_PER_MINUTE || 20),
+    },
+    global: {
+      capacity: Number(process.env.RATE_LIMIT_SEARCH_GLOBAL_BURST || 100),
+      refillPerMinute: Number(process.env.RATE_LIMIT_SEARCH_GLOBAL_PER_MINUTE || 600),
+    },
+  },
+  section: {
+    user: {
+      capacity: Number(process.env.RATE_LIMIT_SECTION_BURST || 10),
+      refillPerMinute: Number(process.env.RATE_LIMIT_SECTION_PER_MINUTE || 60),
+    },
+    global: {
+      capacity: Number(process.env.RATE_LIMIT_SECTION_GLOBAL_BURST || 200),
+      refillPerMinute: Number(process.env.RATE_LIMIT_SECTION_GLOBAL_PER_MINUTE || 1200),
+    },
+  },
+};
+
+const LAUNCH_OPTIONS: LaunchOptions = {
+  mode: process.env.BOT_MODE === "webhook" ? "webhook" : "polling",
+  webhookURL: process.env.WEBHOOK_URL || "",
+  webhookSecret: process.env.WEBHOOK_SECRET || "",
+  httpPort: Number(process.env.HTTP_PORT || (process.env.BOT_MODE === "webhook" ? 8080 : 0)),
+};
+
+const ACCESS_MODE = (process.env.ACCESS_MODE || "open") as AccessMode;
+
+// JSON-файл с полным справочником МКБ-10; без него используется встроенный
+const ICD_DICTIONARY_FILE = process.env.ICD_DICTIONARY_FILE || "";
+
+// command — локальный распознаватель, запускаемый командой SPEECH_COMMAND, например
+// «/opt/stt/transcribe.sh {input} {language}»; none — голосовые сообщения не принимаются
+const SPEECH_RECOGNIZER = process.env.SPEECH_RECOGNIZER || "none";
+
+const SPEECH_COMMAND_OPTIONS: CommandSpeechRecognizerOptions = {
+  command: process.env.SPEECH_COMMAND || "",
+  timeout: Number(process.env.SPEECH_TIMEOUT || 60) * 1000,
+};
+
+const VOICE_MAX_DURATION = Number(process.env.VOICE_MAX_DURATION || 60);
+// Байт; минута голосового сообщения в Opus занимает около 250 КБ
+const VOICE_MAX_FILE_SIZE = Number(process.env.VOICE_MAX_FILE_SIZE || 2 * 1024 * 1024);
+
+const DIAGNOSIS_INDEX_OPTIONS: DiagnosisIndexOptions = {
+  seedFile: process.env.DIAGNOSIS_SEED_FILE || undefined,
+  loadLimit: Number(process.env.DIAGNOSIS_INDEX_LIMIT || 20000),
+};
+
+const ADMIN_IDS = (process.env.ADMIN_IDS || "")
+  .split(",")
+  .map((id) => Number(id.trim()))
+  .filter((id) => id > 0);
+
+function createDependencies(): MedicalBotDependencies {
+  const database = createDatabase({
+    host: DB_HOST,
+    port: DB_PORT,
+    password: DB_PASSWORD,
+    database: DB_DATABASE,
+    user: DB_USER,
+  });
+
+  const repositories = new Repositories(database, API_BASE_URL, CACHE_CONFIG, API_HTTP_OPTIONS);
+  const bot = new Telegraf<BotContext>(BOT_TOKEN);
+
+  return {
+    bot,
+    sessionStore: createSessionStore({
+      type: SESSION_STORE,
+      sessionFile: path.join(__dirname, "session.json"),
+      pool: database,
+    }),
+    repositories,
+    rateLimiter: createRateLimiter(RATE_LIMIT_CONFIG.store, database),
+    documentCache: createCache<string>(CACHE_CONFIG.store, "documents", CACHE_CONFIG.documents, database),
+    icdDictionary: ICDDictionary.load(ICD_DICTIONARY_FILE),
+    diagnosisIndex: new DiagnosisIndex(repositories.knownDiagnosesRepository, DIAGNOSIS_INDEX_OPTIONS),
+    speechRecognizer: createSpeechRecognizer(SPEECH_RECOGNIZER, SPEECH_COMMAND_OPTIONS),
+    guidelineWatcher: new GuidelineWatcher(bot.telegram, repositories, GUIDELINE_WATCHER_OPTIONS),
+  };
 }
 
-if (!API_BASE_URL) {
-  console.error("Please set API_BASE_URL environment variable");
-  process.exit(1);
+// При импорте из сценариев harness бот не запускается
+if (require.main === module) {
+  if (!BOT_TOKEN) {
+    console.error("Please set BOT_TOKEN environment variable");
+    process.exit(1);
+  }
+
+  if (!["open", "invite", "approval"].includes(ACCESS_MODE)) {
+    console.error("ACCESS_MODE must be one of: open, invite, approval");
+    process.exit(1);
+  }
+
+  if (LAUNCH_OPTIONS.mode === "webhook" && (!LAUNCH_OPTIONS.webhookURL || !LAUNCH_OPTIONS.webhookSecret)) {
+    console.error("Please set WEBHOOK_URL and WEBHOOK_SECRET environment variables for webhook mode");
+    process.exit(1);
+  }
+
+  if (!API_BASE_URL) {
+    console.error("Please set API_BASE_URL environment variable");
+    process.exit(1);
+  }
+
+  const medicalBot = new MedicalBot(createDependencies(), {
+    adminIds: ADMIN_IDS,
+    inlineOptions: INLINE_OPTIONS,
+    broadcastOptions: BROADCAST_OPTIONS,
+    accessMode: ACCESS_MODE,
+    rateLimitConfig: RATE_LIMIT_CONFIG,
+    voiceMaxDuration: VOICE_MAX_DURATION,
+    voiceMaxFileSize: VOICE_MAX_FILE_SIZE,
+    voiceDownloadTimeout: SPEECH_COMMAND_OPTIONS.timeout,
+  });
+  medicalBot.launch(LAUNCH_OPTIONS);
 }
 
-const medicalBot = new MedicalBot(BOT_TOKEN, API_BASE_URL, DB_HOST, DB_PORT, DB_PASSWORD, DB_DATABASE, DB_USER);
-medicalBot.launch();
+export { MedicalBot, MedicalBotDependencies, MedicalBotOptions, BotContext, AccessMode };
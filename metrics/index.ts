@@ -0,0 +1,40 @@
+import { Counter, Histogram, Labels, MetricsRegistry } from "./registry";
+
+// Общий реестр процесса: метрики пишут репозитории и обработчики бота, читает /metrics
+const metrics = new MetricsRegistry();
+
+const updatesTotal = metrics.counter("bot_updates_total", "Telegram updates received, by update type");
+
+const errorsTotal = metrics.counter("bot_errors_total", "Errors raised while handling updates, by source");
+
+const apiRequestsTotal = metrics.counter("api_requests_total", "Knowledge base API requests, by operation and outcome");
+
+const apiRequestDuration = metrics.histogram(
+  "api_request_duration_seconds",
+  "Knowledge base API request latency, by operation",
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+);
+
+const cacheRequestsTotal = metrics.counter(
+  "api_cache_requests_total",
+  "API cache lookups, by cache and result (hit, miss, stale)"
+);
+
+const speechRecognitionsTotal = metrics.counter(
+  "speech_recognitions_total",
+  "Voice message transcriptions, by outcome (success, empty, error, too_long, too_large)"
+);
+
+export {
+  Counter,
+  Histogram,
+  Labels,
+  MetricsRegistry,
+  metrics,
+  updatesTotal,
+  errorsTotal,
+  apiRequestsTotal,
+  apiRequestDuration,
+  cacheRequestsTotal,
+  speechRecognitionsTotal,
+};
@@ -0,0 +1,116 @@
+// Минимальная реализация метрик в текстовом формате Prometheus (counter и histogram)
+
+type Labels = Record<string, string>;
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(
+    ([name, value]) => `${name}="${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`
+  );
+
+  return pairs.length ? `{${pairs.join(",")}}` : "";
+}
+
+// Ключ не зависит от порядка, в котором переданы метки
+function labelsKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+interface Metric {
+  render(): string;
+}
+
+class Counter implements Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string
+  ) {}
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelsKey(labels);
+    const current = this.values.get(key);
+
+    this.values.set(key, { labels, value: (current?.value ?? 0) + value });
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} counter`];
+
+    for (const { labels, value } of this.values.values()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+
+    return lines.join("\n");
+  }
+}
+
+class Histogram implements Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(
+    private readonly name: string,
+    private readonly help: string,
+    private readonly buckets: number[]
+  ) {}
+
+  observe(labels: Labels, value: number): void {
+    const key = labelsKey(labels);
+    const current = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) current.counts[index]++;
+    });
+    current.sum += value;
+    current.count++;
+
+    this.values.set(key, current);
+  }
+
+  // Возвращает функцию, которая записывает время с момента вызова startTimer, в секундах
+  startTimer(labels: Labels): (extraLabels?: Labels) => void {
+    const startedAt = process.hrtime.bigint();
+
+    return (extraLabels = {}) =>
+      this.observe({ ...labels, ...extraLabels }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, index) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines.join("\n");
+  }
+}
+
+class MetricsRegistry {
+  private metrics: Metric[] = [];
+
+  counter(name: string, help: string): Counter {
+    const counter = new Counter(name, help);
+    this.metrics.push(counter);
+
+    return counter;
+  }
+
+  histogram(name: string, help: string, buckets: number[]): Histogram {
+    const histogram = new Histogram(name, help, buckets);
+    this.metrics.push(histogram);
+
+    return histogram;
+  }
+
+  render(): string {
+    return `${this.metrics.map((metric) => metric.render()).join("\n")}\n`;
+  }
+}
+
+export { Counter, Histogram, Labels, MetricsRegistry };
@@ -0,0 +1,24 @@
+-- Структурированные события вместо текстовых client_logs.
+-- Старая таблица остаётся для истории; заодно исправляется имя колонки,
+-- под которое никогда не совпадал INSERT из ClientLogsRepository.
+
+ALTER TABLE client_logs CHANGE client_telegram_id clientTelegramId BIGINT NOT NULL;
+ALTER TABLE client_logs MODIFY text TEXT NOT NULL;
+
+CREATE TABLE client_events (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    type ENUM('search', 'diagnosis_selected', 'section_viewed', 'error') NOT NULL,
+    source ENUM('chat', 'inline') NOT NULL DEFAULT 'chat',
+    query VARCHAR(512),
+    diagnosis VARCHAR(512),
+    section VARCHAR(512),
+    resultCount INT,
+    latencyMs INT,
+    error VARCHAR(1024),
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId),
+    INDEX(type, createdAt),
+    INDEX(clientTelegramId, createdAt)
+);
@@ -0,0 +1,12 @@
+ALTER TABLE clients ADD COLUMN role ENUM('user', 'admin') NOT NULL DEFAULT 'user' AFTER lastName;
+
+CREATE TABLE admin_audit_log (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    adminTelegramId BIGINT NOT NULL,
+    action VARCHAR(64) NOT NULL,
+    payload VARCHAR(1024),
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(adminTelegramId) REFERENCES clients(telegramId),
+    INDEX(createdAt)
+);
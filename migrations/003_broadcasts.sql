@@ -0,0 +1,32 @@
+ALTER TABLE clients ADD COLUMN blockedAt TIMESTAMP NULL AFTER role;
+
+CREATE TABLE broadcasts (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    adminTelegramId BIGINT NOT NULL,
+    sourceChatId BIGINT NOT NULL,
+    sourceMessageId INT NOT NULL,
+    segmentDays INT,
+    status ENUM('sending', 'completed', 'cancelled') NOT NULL DEFAULT 'sending',
+    total INT NOT NULL DEFAULT 0,
+    sent INT NOT NULL DEFAULT 0,
+    failed INT NOT NULL DEFAULT 0,
+    blocked INT NOT NULL DEFAULT 0,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    completedAt TIMESTAMP NULL,
+
+    FOREIGN KEY(adminTelegramId) REFERENCES clients(telegramId),
+    INDEX(status)
+);
+
+CREATE TABLE broadcast_recipients (
+    broadcastId INT NOT NULL,
+    clientTelegramId BIGINT NOT NULL,
+    status ENUM('pending', 'sent', 'failed', 'blocked') NOT NULL DEFAULT 'pending',
+    error VARCHAR(512),
+    sentAt TIMESTAMP NULL,
+
+    PRIMARY KEY(broadcastId, clientTelegramId),
+    FOREIGN KEY(broadcastId) REFERENCES broadcasts(id) ON DELETE CASCADE,
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    INDEX(broadcastId, status)
+);
@@ -0,0 +1,13 @@
+-- Уже зарегистрированные пользователи сохраняют доступ: значение по умолчанию — active
+ALTER TABLE clients ADD COLUMN status ENUM('active', 'pending', 'blocked') NOT NULL DEFAULT 'active' AFTER role;
+
+CREATE TABLE invite_codes (
+    code VARCHAR(16) NOT NULL PRIMARY KEY,
+    maxUses INT NOT NULL DEFAULT 1,
+    uses INT NOT NULL DEFAULT 0,
+    expiresAt TIMESTAMP NULL,
+    createdBy BIGINT NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(createdBy) REFERENCES clients(telegramId)
+);
@@ -0,0 +1,5 @@
+CREATE TABLE rate_limits (
+    bucketKey VARCHAR(64) NOT NULL PRIMARY KEY,
+    tokens DOUBLE NOT NULL,
+    updatedAt BIGINT NOT NULL
+);
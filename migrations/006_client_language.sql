@@ -0,0 +1,2 @@
+-- NULL — язык ещё не сохранён; бот определит его по language_code при следующем обращении
+ALTER TABLE clients ADD COLUMN language VARCHAR(8) AFTER lastName;
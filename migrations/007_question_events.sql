@@ -0,0 +1 @@
+ALTER TABLE client_events MODIFY type ENUM('search', 'diagnosis_selected', 'section_viewed', 'question', 'error') NOT NULL;
@@ -0,0 +1,2 @@
+-- Списки диагнозов и разделов теперь кэшируются объектами, а не строками; старые записи несовместимы
+DELETE FROM api_cache WHERE namespace IN ('diagnoses', 'sections');
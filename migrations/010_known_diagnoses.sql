@@ -0,0 +1,7 @@
+CREATE TABLE known_diagnoses (
+    name VARCHAR(512) NOT NULL PRIMARY KEY,
+    icd VARCHAR(16),
+    lastSeenAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    INDEX(lastSeenAt)
+);
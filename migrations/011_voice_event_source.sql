@@ -0,0 +1 @@
+ALTER TABLE client_events MODIFY source ENUM('chat', 'inline', 'icd', 'voice') NOT NULL DEFAULT 'chat';
@@ -0,0 +1,31 @@
+CREATE TABLE subscriptions (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    clientTelegramId BIGINT NOT NULL,
+    diagnosis VARCHAR(512) NOT NULL,
+    createdAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    FOREIGN KEY(clientTelegramId) REFERENCES clients(telegramId) ON DELETE CASCADE,
+    UNIQUE(clientTelegramId, diagnosis),
+    INDEX(diagnosis(191))
+);
+
+CREATE TABLE guideline_snapshots (
+    id INT PRIMARY KEY AUTO_INCREMENT,
+    diagnosis VARCHAR(512) NOT NULL,
+    section VARCHAR(512) NOT NULL,
+    contentHash CHAR(64) NOT NULL,
+    content MEDIUMTEXT NOT NULL,
+
+    INDEX(diagnosis(191))
+);
+
+CREATE TABLE guideline_checks (
+    diagnosis VARCHAR(512) NOT NULL PRIMARY KEY,
+    checkedAt TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE leases (
+    name VARCHAR(64) NOT NULL PRIMARY KEY,
+    owner VARCHAR(64) NOT NULL,
+    expiresAt DATETIME(3) NOT NULL
+);
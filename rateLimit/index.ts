@@ -0,0 +1,25 @@
+import mysql2 from "mysql2/promise";
+import { RateLimiter, TokenBucketOptions } from "./rateLimiter";
+import { MemoryRateLimiter } from "./memoryRateLimiter";
+import { MySQLRateLimiter } from "./mysqlRateLimiter";
+
+type RateLimiterStoreType = "memory" | "mysql";
+
+type RateLimitKind = "search" | "section";
+
+type RateLimitConfig = {
+  store: string;
+} & Record<RateLimitKind, { user: TokenBucketOptions; global: TokenBucketOptions }>;
+
+function createRateLimiter(type: string, pool: mysql2.Pool): RateLimiter {
+  switch (type as RateLimiterStoreType) {
+    case "memory":
+      return new MemoryRateLimiter();
+    case "mysql":
+      return new MySQLRateLimiter(pool);
+    default:
+      throw new Error(`Unknown rate limiter store type: ${type}`);
+  }
+}
+
+export { RateLimiter, RateLimitConfig, RateLimitKind, TokenBucketOptions, createRateLimiter };
@@ -0,0 +1,28 @@
+import { RateLimiter, TokenBucket, TokenBucketOptions, refill } from "./rateLimiter";
+
+// Полная корзина ничем не отличается от отсутствующей, поэтому такие корзины можно выбрасывать
+const PRUNE_THRESHOLD = 10000;
+
+class MemoryRateLimiter implements RateLimiter {
+  private buckets = new Map<string, TokenBucket & { options: TokenBucketOptions }>();
+
+  async consume(key: string, options: TokenBucketOptions): Promise<boolean> {
+    const now = Date.now();
+    const bucket = refill(this.buckets.get(key), options, now);
+
+    if (this.buckets.size >= PRUNE_THRESHOLD) this.prune(now);
+
+    const allowed = bucket.tokens >= 1;
+    this.buckets.set(key, { ...bucket, tokens: allowed ? bucket.tokens - 1 : bucket.tokens, options });
+
+    return allowed;
+  }
+
+  private prune(now: number): void {
+    for (const [key, bucket] of this.buckets) {
+      if (refill(bucket, bucket.options, now).tokens >= bucket.options.capacity) this.buckets.delete(key);
+    }
+  }
+}
+
+export { MemoryRateLimiter };
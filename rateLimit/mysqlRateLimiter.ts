@@ -0,0 +1,41 @@
+import mysql2 from "mysql2/promise";
+import { RateLimiter, TokenBucketOptions, refill } from "./rateLimiter";
+import { getOneForUpdateQuery, upsertQuery } from "./queries";
+
+// Общие для всех процессов бота корзины; строка блокируется на время списания токена
+class MySQLRateLimiter implements RateLimiter {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async consume(key: string, options: TokenBucketOptions): Promise<boolean> {
+    const connection = await this.pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+
+      const [data]: any = await connection.query(getOneForUpdateQuery(), { bucketKey: key });
+      const bucket = refill(
+        data[0] ? { tokens: Number(data[0].tokens), updatedAt: Number(data[0].updatedAt) } : undefined,
+        options,
+        Date.now()
+      );
+
+      const allowed = bucket.tokens >= 1;
+
+      await connection.query(upsertQuery(), {
+        bucketKey: key,
+        tokens: allowed ? bucket.tokens - 1 : bucket.tokens,
+        updatedAt: bucket.updatedAt,
+      });
+      await connection.commit();
+
+      return allowed;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+export { MySQLRateLimiter };
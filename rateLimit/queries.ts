@@ -0,0 +1,6 @@
+const getOneForUpdateQuery = () => `SELECT tokens, updatedAt FROM rate_limits WHERE bucketKey = :bucketKey FOR UPDATE;`;
+
+const upsertQuery = () =>
+  `INSERT INTO rate_limits(bucketKey, tokens, updatedAt) VALUES(:bucketKey, :tokens, :updatedAt) ON DUPLICATE KEY UPDATE tokens = VALUES(tokens), updatedAt = VALUES(updatedAt);`;
+
+export { getOneForUpdateQuery, upsertQuery };
@@ -0,0 +1,26 @@
+type TokenBucketOptions = {
+  // Сколько запросов можно сделать подряд
+  capacity: number;
+  // Скорость пополнения, токенов в минуту
+  refillPerMinute: number;
+};
+
+interface RateLimiter {
+  // Списывает токен из корзины key; false — корзина пуста
+  consume(key: string, options: TokenBucketOptions): Promise<boolean>;
+}
+
+type TokenBucket = {
+  tokens: number;
+  updatedAt: number;
+};
+
+function refill(bucket: TokenBucket | undefined, options: TokenBucketOptions, now: number): TokenBucket {
+  if (!bucket) return { tokens: options.capacity, updatedAt: now };
+
+  const refilled = ((now - bucket.updatedAt) / 60000) * options.refillPerMinute;
+
+  return { tokens: Math.min(options.capacity, bucket.tokens + refilled), updatedAt: now };
+}
+
+export { RateLimiter, TokenBucket, TokenBucketOptions, refill };
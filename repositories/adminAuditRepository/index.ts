@@ -0,0 +1,13 @@
+import mysql2 from "mysql2/promise";
+import { IAdminAuditLog } from "../../types/adminAudit";
+import { createQuery } from "./queries";
+
+class AdminAuditRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async create(log: Omit<IAdminAuditLog, "id" | "createdAt">) {
+    await this.pool.query(createQuery(), log);
+  }
+}
+
+export { AdminAuditRepository };
@@ -0,0 +1,4 @@
+const createQuery = () =>
+  `INSERT INTO admin_audit_log(adminTelegramId, action, payload) VALUES(:adminTelegramId, :action, :payload);`;
+
+export { createQuery };
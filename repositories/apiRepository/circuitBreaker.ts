@@ -0,0 +1,49 @@
+type CircuitBreakerOptions = {
+  // Сколько ошибок подряд размыкают цепь
+  failureThreshold: number;
+  // Через сколько мс после размыкания пропустить пробный запрос
+  resetTimeout: number;
+};
+
+type CircuitState = "closed" | "open" | "half-open";
+
+class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private failures = 0;
+  private openedAt = 0;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  get retryAt(): number {
+    return this.openedAt + this.options.resetTimeout;
+  }
+
+  // В полуоткрытом состоянии пропускается ровно один пробный запрос
+  canRequest(): boolean {
+    if (this.state === "closed") return true;
+
+    if (this.state === "open" && Date.now() >= this.retryAt) {
+      this.state = "half-open";
+      return true;
+    }
+
+    return false;
+  }
+
+  recordSuccess(): void {
+    this.state = "closed";
+    this.failures = 0;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+
+    if (this.state === "half-open" || this.failures >= this.options.failureThreshold) {
+      if (this.state !== "open") console.error(`API circuit opened after ${this.failures} failures`);
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
+
+export { CircuitBreaker, CircuitBreakerOptions };
@@ -0,0 +1,51 @@
+import { IDiagnosis, ISection } from "../../types/knowledgeBase";
+import { Schema, array, map, number, object, oneOf, optional, string } from "./schema";
+
+type APIVersion = "v1";
+
+// Ответы эндпоинтов, уже приведённые к доменным моделям
+type APIContract = {
+  similarDiagnoses: Schema<IDiagnosis[]>;
+  sections: Schema<ISection[]>;
+  section: Schema<string>;
+};
+
+// Клиент базы знаний, от которого зависит бот; версия определяет формат ответов API
+interface KnowledgeBaseClient {
+  readonly apiVersion: APIVersion;
+  getDiagnoses(query: string): Promise<IDiagnosis[]>;
+  getSectionList(diagnosis: string): Promise<ISection[]>;
+  getSection(diagnosis: string, section: string): Promise<string>;
+}
+
+const id = map(oneOf<string | number>(string, number), String);
+
+// v1 отдаёт списки названий; объекты с id принимаются, чтобы API мог перейти на них без обновления бота
+const diagnosisV1 = oneOf<IDiagnosis>(
+  map(string, (name) => ({ id: name, name, icd: null })),
+  object({ id, name: string, icd: optional(string) })
+);
+
+const sectionsV1 = map(
+  array(
+    oneOf<{ id: string; title: string; order: number | null }>(
+      map(string, (title) => ({ id: title, title, order: null })),
+      object({ id, title: string, order: optional(number) })
+    )
+  ),
+  // Без order разделы идут в порядке ответа
+  (sections): ISection[] =>
+    sections
+      .map((section, index) => ({ id: section.id, title: section.title, order: section.order ?? index }))
+      .sort((a, b) => a.order - b.order)
+);
+
+const API_CONTRACTS: Record<APIVersion, APIContract> = {
+  v1: {
+    similarDiagnoses: map(object({ diagnoses: array(diagnosisV1) }), (response) => response.diagnoses),
+    sections: map(object({ sections: sectionsV1 }), (response) => response.sections),
+    section: map(object({ content: string }), (response) => response.content),
+  },
+};
+
+export { APIVersion, APIContract, KnowledgeBaseClient, API_CONTRACTS };
@@ -0,0 +1,67 @@
+class APIError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+class APITimeoutError extends APIError {
+  constructor(
+    public readonly url: string,
+    public readonly timeout: number
+  ) {
+    super(`Request to ${url} timed out after ${timeout}ms`);
+  }
+}
+
+class APINotFoundError extends APIError {
+  constructor(public readonly url: string) {
+    super(`Resource not found: ${url}`);
+  }
+}
+
+class APIHTTPError extends APIError {
+  constructor(
+    public readonly url: string,
+    public readonly status: number
+  ) {
+    super(`HTTP error! status: ${status}`);
+  }
+}
+
+class APINetworkError extends APIError {
+  constructor(
+    public readonly url: string,
+    public readonly reason: unknown
+  ) {
+    super(`Network error for ${url}: ${reason instanceof Error ? reason.message : String(reason)}`);
+  }
+}
+
+// Ответ не соответствует контракту API: path указывает на неподходящее поле
+class APISchemaError extends APIError {
+  constructor(
+    public readonly url: string,
+    public readonly path: string,
+    reason: string
+  ) {
+    super(`Unexpected response from ${url}: ${reason}`);
+  }
+}
+
+// Выбрасывается без обращения к API, пока размыкатель открыт
+class APIUnavailableError extends APIError {
+  constructor(public readonly retryAt: number) {
+    super(`API is unavailable until ${new Date(retryAt).toISOString()}`);
+  }
+}
+
+export {
+  APIError,
+  APITimeoutError,
+  APINotFoundError,
+  APIHTTPError,
+  APINetworkError,
+  APISchemaError,
+  APIUnavailableError,
+};
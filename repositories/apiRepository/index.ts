@@ -1,9 +1,108 @@
 import mysql2 from "mysql2/promise";
+import { Cache } from "../../cache";
+import { apiRequestDuration, apiRequestsTotal, cacheRequestsTotal } from "../../metrics";
+import { IDiagnosis, ISection } from "../../types/knowledgeBase";
+import { CircuitBreaker, CircuitBreakerOptions } from "./circuitBreaker";
+import { API_CONTRACTS, APIContract, APIVersion, KnowledgeBaseClient } from "./contracts";
+import {
+  APIError,
+  APIHTTPError,
+  APINetworkError,
+  APINotFoundError,
+  APISchemaError,
+  APITimeoutError,
+  APIUnavailableError,
+} from "./errors";
+import { Schema, SchemaError } from "./schema";
 
-class APIRepository {
-  constructor(private baseUrl: string) {}
+type APICaches = {
+  diagnoses: Cache<IDiagnosis[]>;
+  sections: Cache<ISection[]>;
+  section: Cache<string>;
+};
 
-  async getRequest<T>(endpoint: string, params?: Record<string, string>): Promise<T> {
+type APIHTTPOptions = CircuitBreakerOptions & {
+  timeout: number;
+  retries: number;
+  retryBaseDelay: number;
+};
+
+type RequestOptions = {
+  // Мимо кэша: проверка обновлений рекомендаций должна видеть текущее содержимое
+  fresh?: boolean;
+};
+
+class APIRepository implements KnowledgeBaseClient {
+  readonly apiVersion: APIVersion = "v1";
+  private circuitBreaker: CircuitBreaker;
+  private contract: APIContract;
+
+  constructor(
+    private baseUrl: string,
+    private caches: APICaches,
+    private httpOptions: APIHTTPOptions
+  ) {
+    this.circuitBreaker = new CircuitBreaker(httpOptions);
+    this.contract = API_CONTRACTS[this.apiVersion];
+  }
+
+  // Свежая запись отдаётся из кэша; при ошибке API — устаревшая, если она ещё хранится.
+  // fresh — кэш только обновляется: вызывающему нужен ответ API, а не сохранённая копия
+  private async withCache<T>(
+    name: keyof APICaches,
+    cache: Cache<T>,
+    key: string,
+    tag: string | undefined,
+    load: () => Promise<T>,
+    fresh = false
+  ): Promise<T> {
+    const entry = await cache.get(key).catch((error) => {
+      console.error("Cache Error - get:", error);
+      return undefined;
+    });
+
+    if (!fresh && entry && entry.expiresAt > Date.now()) {
+      cacheRequestsTotal.inc({ cache: name, result: "hit" });
+      return entry.value;
+    }
+
+    try {
+      const value = await load();
+      cacheRequestsTotal.inc({ cache: name, result: "miss" });
+      if (value !== undefined && value !== null) {
+        await cache.set(key, value, tag).catch((error) => console.error("Cache Error - set:", error));
+      }
+      return value;
+    } catch (error) {
+      // Отсутствие ресурса — достоверный ответ, устаревшие данные его не заменят
+      if (fresh || !entry || error instanceof APINotFoundError) {
+        cacheRequestsTotal.inc({ cache: name, result: "miss" });
+        throw error;
+      }
+
+      cacheRequestsTotal.inc({ cache: name, result: "stale" });
+      console.error(`API Error - отдаю устаревшие данные для ${key}:`, error);
+      return entry.value;
+    }
+  }
+
+  async invalidateDiagnosis(diagnosis: string): Promise<void> {
+    await this.caches.sections.invalidateTag(diagnosis);
+    await this.caches.section.invalidateTag(diagnosis);
+  }
+
+  async clearCache(): Promise<void> {
+    await Promise.all([this.caches.diagnoses.clear(), this.caches.sections.clear(), this.caches.section.clear()]);
+  }
+
+  // operation — метка для метрик: путь содержит названия диагнозов и не годится для неё.
+  // Ответ проверяется схемой: неожиданный формат не должен дойти до обработчиков как undefined
+  async getRequest<T>(
+    operation: string,
+    endpoint: string,
+    schema: Schema<T>,
+    params?: Record<string, string>
+  ): Promise<T> {
     const url = new URL(endpoint, this.baseUrl);
 
     if (params) {
@@ -12,54 +111,187 @@ class APIRepository {
       });
     }
 
-    const response = await fetch(url.toString(), {
-      method: "GET",
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
+    if (!this.circuitBreaker.canRequest()) {
+      apiRequestsTotal.inc({ operation, outcome: "unavailable" });
+      throw new APIUnavailableError(this.circuitBreaker.retryAt);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const stopTimer = apiRequestDuration.startTimer({ operation });
+
+      try {
+        const result = this.validate(url.toString(), schema, await this.fetchJSON(url.toString()));
+        stopTimer();
+        apiRequestsTotal.inc({ operation, outcome: "success" });
+        this.circuitBreaker.recordSuccess();
+        return result;
+      } catch (error) {
+        stopTimer();
+        apiRequestsTotal.inc({ operation, outcome: this.outcome(error) });
 
-    if (!response.ok) {
-      throw new Error(`HTTP error! status: ${response.status}`);
+        // 404 — штатный ответ API, он не говорит о его недоступности
+        if (error instanceof APINotFoundError) {
+          this.circuitBreaker.recordSuccess();
+          throw error;
+        }
+
+        const retryable = error instanceof APINetworkError || (error instanceof APIHTTPError && error.status >= 500);
+
+        if (!retryable || attempt >= this.httpOptions.retries) {
+          this.circuitBreaker.recordFailure();
+          throw error;
+        }
+
+        await this.delay(this.backoff(attempt));
+      }
     }
+  }
 
-    return response.json();
+  // Для /healthz: любой HTTP-ответ, даже ошибка, означает, что API доступен по сети
+  async ping(): Promise<boolean> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.httpOptions.timeout);
+
+    try {
+      await fetch(this.baseUrl, { method: "GET", signal: controller.signal });
+      return true;
+    } catch {
+      return false;
+    } finally {
+      clearTimeout(timer);
+    }
   }
-  
-  async getSimilarDiagnoses(diagnosis: string): Promise<string[]> {
+
+  private validate<T>(url: string, schema: Schema<T>, body: unknown): T {
     try {
-      const response = await this.getRequest<any>("/diagnoses/similar", {
-        diagnosis: encodeURIComponent(diagnosis),
+      return schema(body, "response");
+    } catch (error) {
+      if (error instanceof SchemaError) throw new APISchemaError(url, error.path, error.message);
+      throw error;
+    }
+  }
+
+  private outcome(error: unknown): string {
+    if (error instanceof APINotFoundError) return "not_found";
+    if (error instanceof APISchemaError) return "invalid";
+    return "error";
+  }
+
+  private async fetchJSON(url: string): Promise<unknown> {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.httpOptions.timeout);
+
+    try {
+      const response = await fetch(url, {
+        method: "GET",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        signal: controller.signal,
       });
-      return response.diagnoses;
+
+      if (response.status === 404) {
+        throw new APINotFoundError(url);
+      }
+
+      if (!response.ok) {
+        throw new APIHTTPError(url, response.status);
+      }
+
+      return await response.json();
+    } catch (error) {
+      if (error instanceof APIError) throw error;
+      if (controller.signal.aborted) throw new APITimeoutError(url, this.httpOptions.timeout);
+      throw new APINetworkError(url, error);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  // Экспоненциальная задержка с полным джиттером
+  private backoff(attempt: number): number {
+    return Math.random() * this.httpOptions.retryBaseDelay * 2 ** attempt;
+  }
+
+  private delay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  async getDiagnoses(query: string): Promise<IDiagnosis[]> {
+    try {
+      return await this.withCache("diagnoses", this.caches.diagnoses, query.trim().toLowerCase(), undefined, () =>
+        // searchParams кодирует значение сам
+        this.getRequest("diagnoses", "/diagnoses/similar", this.contract.similarDiagnoses, { diagnosis: query })
+      );
     } catch (error) {
       console.error("API Error - getSimilarDiagnoses:", error);
-      throw new Error("Failed to get similar diagnoses");
+      if (error instanceof APIError) throw error;
+      throw new APIError("Failed to get similar diagnoses");
     }
   }
 
-  async getSections(diagnosis: string): Promise<string[]> {
+  async getSimilarDiagnoses(diagnosis: string): Promise<string[]> {
+    return (await this.getDiagnoses(diagnosis)).map((item) => item.name);
+  }
+
+  // Разделы уже упорядочены по order
+  async getSectionList(diagnosis: string, options: RequestOptions = {}): Promise<ISection[]> {
     try {
-      const response = await this.getRequest<any>(`/diagnoses/${encodeURIComponent(diagnosis)}/sections`, {});
-      return response.sections;
+      return await this.withCache(
+        "sections",
+        this.caches.sections,
+        diagnosis,
+        diagnosis,
+        () =>
+          this.getRequest("sections", `/diagnoses/${encodeURIComponent(diagnosis)}/sections`, this.contract.sections),
+        options.fresh
+      );
     } catch (error) {
       console.error("API Error - getDiagnosisSections:", error);
-      throw new Error("Failed to get diagnosis sections");
+      if (error instanceof APIError) throw error;
+      throw new APIError("Failed to get diagnosis sections");
     }
   }
 
-  async getSection(diagnosis: string, section: string): Promise<string> {
+  async getSections(diagnosis: string, options: RequestOptions = {}): Promise<string[]> {
+    return (await this.getSectionList(diagnosis, options)).map((section) => section.title);
+  }
+
+  async getSection(diagnosis: string, section: string, options: RequestOptions = {}): Promise<string> {
     try {
-      const response = await this.getRequest<any>(
-        `/diagnoses/${encodeURIComponent(diagnosis)}/sections/${encodeURIComponent(section)}`,
-        {}
+      return await this.withCache(
+        "section",
+        this.caches.section,
+        JSON.stringify([diagnosis, section]),
+        diagnosis,
+        () =>
+          this.getRequest(
+            "section",
+            `/diagnoses/${encodeURIComponent(diagnosis)}/sections/${encodeURIComponent(section)}`,
+            this.contract.section
+          ),
+        options.fresh
       );
-      return response.content;
     } catch (error) {
       console.error("API Error - getSectionContent:", error);
-      throw new Error("Failed to get section content");
+      if (error instanceof APIError) throw error;
+      throw new APIError("Failed to get section content");
     }
   }
 }
 
-export { APIRepository };
+export {
+  APIRepository,
+  APICaches,
+  APIHTTPOptions,
+  RequestOptions,
+  APIError,
+  APITimeoutError,
+  APINotFoundError,
+  APIHTTPError,
+  APINetworkError,
+  APISchemaError,
+  APIUnavailableError,
+  APIVersion,
+  KnowledgeBaseClient,
+};
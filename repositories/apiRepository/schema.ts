@@ -0,0 +1,84 @@
+// Проверка JSON во время выполнения без внешних зависимостей.
+// Схема возвращает значение нужного типа или бросает SchemaError с путём до неподходящего поля
+type Schema<T> = (value: unknown, path: string) => T;
+
+type Infer<S> = S extends Schema<infer T> ? T : never;
+
+class SchemaError extends Error {
+  constructor(
+    public readonly path: string,
+    public readonly expected: string,
+    public readonly received: unknown
+  ) {
+    super(`${path}: expected ${expected}, received ${describe(received)}`);
+    this.name = new.target.name;
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+const string: Schema<string> = (value, path) => {
+  if (typeof value !== "string") throw new SchemaError(path, "string", value);
+  return value;
+};
+
+const number: Schema<number> = (value, path) => {
+  if (typeof value !== "number" || !Number.isFinite(value)) throw new SchemaError(path, "number", value);
+  return value;
+};
+
+function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path) => {
+    if (!Array.isArray(value)) throw new SchemaError(path, "array", value);
+    return value.map((element, index) => item(element, `${path}[${index}]`));
+  };
+}
+
+// Лишние поля не мешают: API может добавлять их, не ломая бота
+function object<T extends Record<string, unknown>>(shape: { [K in keyof T]: Schema<T[K]> }): Schema<T> {
+  return (value, path) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      throw new SchemaError(path, "object", value);
+    }
+
+    const result = {} as T;
+    for (const key of Object.keys(shape) as (keyof T & string)[]) {
+      result[key] = shape[key]((value as Record<string, unknown>)[key], `${path}.${key}`);
+    }
+
+    return result;
+  };
+}
+
+// Отсутствующее поле и null считаются одинаково
+function optional<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path) => (value === undefined || value === null ? null : schema(value, path));
+}
+
+// Первая подошедшая схема; в ошибке перечисляются все ожидавшиеся варианты
+function oneOf<T>(...schemas: Schema<T>[]): Schema<T> {
+  return (value, path) => {
+    const expected: string[] = [];
+
+    for (const schema of schemas) {
+      try {
+        return schema(value, path);
+      } catch (error) {
+        if (!(error instanceof SchemaError) || error.path !== path) throw error;
+        expected.push(error.expected);
+      }
+    }
+
+    throw new SchemaError(path, expected.join(" | "), value);
+  };
+}
+
+function map<T, U>(schema: Schema<T>, transform: (value: T) => U): Schema<U> {
+  return (value, path) => transform(schema(value, path));
+}
+
+export { Schema, Infer, SchemaError, string, number, array, object, optional, oneOf, map };
@@ -0,0 +1,104 @@
+import mysql2 from "mysql2/promise";
+import { BroadcastRecipientStatus, BroadcastStatus, IBroadcast, IBroadcastRecipient } from "../../types/broadcast";
+import {
+  addRecipientsQuery,
+  countRecipientsQuery,
+  createQuery,
+  getByStatusQuery,
+  getLatestQuery,
+  getOneQuery,
+  getPendingRecipientsQuery,
+  updateProgressQuery,
+  updateRecipientQuery,
+  updateStatusQuery,
+} from "./queries";
+
+class BroadcastsRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  private activeSince(segmentDays: number | null): Date | null {
+    return segmentDays ? new Date(Date.now() - segmentDays * 24 * 60 * 60 * 1000) : null;
+  }
+
+  // Создаёт рассылку вместе со списком получателей и возвращает её id
+  async create(
+    broadcast: Pick<IBroadcast, "adminTelegramId" | "sourceChatId" | "sourceMessageId" | "segmentDays">
+  ): Promise<number> {
+    const connection = await this.pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+
+      const [result]: any = await connection.query(createQuery(), broadcast);
+      const broadcastId = result.insertId;
+
+      await connection.query(addRecipientsQuery(!!broadcast.segmentDays), {
+        broadcastId,
+        activeSince: this.activeSince(broadcast.segmentDays),
+      });
+      await connection.query(updateProgressQuery(), { id: broadcastId });
+
+      await connection.commit();
+      return broadcastId;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async countRecipients(segmentDays: number | null): Promise<number> {
+    const [data]: any = await this.pool.query(countRecipientsQuery(), { activeSince: this.activeSince(segmentDays) });
+
+    return Number(data[0].count);
+  }
+
+  async getOne(id: number): Promise<IBroadcast | null> {
+    const [data]: any = await this.pool.query(getOneQuery(), { id });
+
+    return data[0] ?? null;
+  }
+
+  async getByStatus(status: BroadcastStatus): Promise<IBroadcast[]> {
+    const [data]: any = await this.pool.query(getByStatusQuery(), { status });
+
+    return data;
+  }
+
+  async getLatest(limit: number): Promise<IBroadcast[]> {
+    const [data]: any = await this.pool.query(getLatestQuery(), { limit });
+
+    return data;
+  }
+
+  async getPendingRecipients(broadcastId: number, limit: number): Promise<IBroadcastRecipient[]> {
+    const [data]: any = await this.pool.query(getPendingRecipientsQuery(), { broadcastId, limit });
+
+    return data;
+  }
+
+  async updateRecipient(
+    broadcastId: number,
+    clientTelegramId: number,
+    status: BroadcastRecipientStatus,
+    error: string | null = null
+  ) {
+    await this.pool.query(updateRecipientQuery(), {
+      broadcastId,
+      clientTelegramId,
+      status,
+      error: error ? error.slice(0, 512) : null,
+    });
+  }
+
+  async updateProgress(id: number) {
+    await this.pool.query(updateProgressQuery(), { id });
+  }
+
+  async updateStatus(id: number, status: BroadcastStatus) {
+    await this.pool.query(updateStatusQuery(), { id, status });
+  }
+}
+
+export { BroadcastsRepository };
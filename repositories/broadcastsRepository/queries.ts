@@ -0,0 +1,52 @@
+const createQuery = () =>
+  `INSERT INTO broadcasts(adminTelegramId, sourceChatId, sourceMessageId, segmentDays) VALUES(:adminTelegramId, :sourceChatId, :sourceMessageId, :segmentDays);`;
+
+const getOneQuery = () =>
+  `SELECT id, adminTelegramId, sourceChatId, sourceMessageId, segmentDays, status, total, sent, failed, blocked, createdAt, completedAt FROM broadcasts WHERE id = :id;`;
+
+const getByStatusQuery = () =>
+  `SELECT id, adminTelegramId, sourceChatId, sourceMessageId, segmentDays, status, total, sent, failed, blocked, createdAt, completedAt FROM broadcasts WHERE status = :status ORDER BY id;`;
+
+const getLatestQuery = () =>
+  `SELECT id, adminTelegramId, sourceChatId, sourceMessageId, segmentDays, status, total, sent, failed, blocked, createdAt, completedAt FROM broadcasts ORDER BY id DESC LIMIT :limit;`;
+
+// Получатели фиксируются в момент подтверждения, поэтому рассылка после перезапуска продолжается по тому же списку
+const addRecipientsQuery = (segmented: boolean) =>
+  `INSERT INTO broadcast_recipients(broadcastId, clientTelegramId) SELECT :broadcastId, telegramId FROM clients WHERE blockedAt IS NULL ${
+    segmented
+      ? `AND telegramId IN (SELECT DISTINCT clientTelegramId FROM client_events WHERE createdAt >= :activeSince)`
+      : ""
+  };`;
+
+const countRecipientsQuery = () =>
+  `SELECT COUNT(*) AS count FROM clients WHERE blockedAt IS NULL AND (:activeSince IS NULL OR telegramId IN (SELECT DISTINCT clientTelegramId FROM client_events WHERE createdAt >= :activeSince));`;
+
+const getPendingRecipientsQuery = () =>
+  `SELECT broadcastId, clientTelegramId, status, error, sentAt FROM broadcast_recipients WHERE broadcastId = :broadcastId AND status = 'pending' ORDER BY clientTelegramId LIMIT :limit;`;
+
+const updateRecipientQuery = () =>
+  `UPDATE broadcast_recipients SET status = :status, error = :error, sentAt = IF(:status = 'sent', CURRENT_TIMESTAMP, sentAt) WHERE broadcastId = :broadcastId AND clientTelegramId = :clientTelegramId;`;
+
+const updateProgressQuery = () =>
+  `UPDATE broadcasts b SET
+    total = (SELECT COUNT(*) FROM broadcast_recipients r WHERE r.broadcastId = b.id),
+    sent = (SELECT COUNT(*) FROM broadcast_recipients r WHERE r.broadcastId = b.id AND r.status = 'sent'),
+    failed = (SELECT COUNT(*) FROM broadcast_recipients r WHERE r.broadcastId = b.id AND r.status = 'failed'),
+    blocked = (SELECT COUNT(*) FROM broadcast_recipients r WHERE r.broadcastId = b.id AND r.status = 'blocked')
+  WHERE b.id = :id;`;
+
+const updateStatusQuery = () =>
+  `UPDATE broadcasts SET status = :status, completedAt = IF(:status = 'sending', NULL, CURRENT_TIMESTAMP) WHERE id = :id;`;
+
+export {
+  createQuery,
+  getOneQuery,
+  getByStatusQuery,
+  getLatestQuery,
+  addRecipientsQuery,
+  countRecipientsQuery,
+  getPendingRecipientsQuery,
+  updateRecipientQuery,
+  updateProgressQuery,
+  updateStatusQuery,
+};
@@ -0,0 +1,83 @@
+import mysql2 from "mysql2/promise";
+import { IClientEvent } from "../../types/clientEvent";
+import { IEventCount, ITopDiagnosis, ITopSection, IZeroResultQuery } from "../../types/clientStats";
+import {
+  countByTypeQuery,
+  countClientsQuery,
+  createQuery,
+  getByClientQuery,
+  getTopDiagnosesQuery,
+  getTopSectionsQuery,
+  getZeroResultQueriesQuery,
+} from "./queries";
+
+type Period = { from: Date; to: Date };
+
+// Ограничение длины текстовых полей под размеры колонок
+const MAX_TEXT_LENGTH = 512;
+const MAX_ERROR_LENGTH = 1024;
+
+class ClientEventsRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async create(
+    event: Pick<IClientEvent, "clientTelegramId" | "type"> & Partial<Omit<IClientEvent, "id" | "createdAt">>
+  ) {
+    const truncate = (value: string | null | undefined, length: number) => (value ? value.slice(0, length) : null);
+
+    await this.pool.query(createQuery(), {
+      clientTelegramId: event.clientTelegramId,
+      type: event.type,
+      source: event.source ?? "chat",
+      query: truncate(event.query, MAX_TEXT_LENGTH),
+      diagnosis: truncate(event.diagnosis, MAX_TEXT_LENGTH),
+      section: truncate(event.section, MAX_TEXT_LENGTH),
+      resultCount: event.resultCount ?? null,
+      latencyMs: event.latencyMs ?? null,
+      error: truncate(event.error, MAX_ERROR_LENGTH),
+    });
+  }
+
+  async getByClient(clientTelegramId: number, limit: number): Promise<IClientEvent[]> {
+    const [data]: any = await this.pool.query(getByClientQuery(), { clientTelegramId, limit });
+
+    return data;
+  }
+
+  async countByType(period: Period): Promise<IEventCount[]> {
+    const [data]: any = await this.pool.query(countByTypeQuery(), period);
+
+    return data.map((row: any) => ({
+      type: row.type,
+      count: Number(row.count),
+      averageLatencyMs: row.averageLatencyMs === null ? null : Math.round(Number(row.averageLatencyMs)),
+    }));
+  }
+
+  async countClients(period: Period): Promise<number> {
+    const [data]: any = await this.pool.query(countClientsQuery(), period);
+
+    return Number(data[0]?.count ?? 0);
+  }
+
+  async getTopDiagnoses(period: Period, limit: number): Promise<ITopDiagnosis[]> {
+    const [data]: any = await this.pool.query(getTopDiagnosesQuery(), { ...period, limit });
+
+    return data.map((row: any) => ({ diagnosis: row.diagnosis, count: Number(row.count) }));
+  }
+
+  async getTopSections(period: Period, limit: number): Promise<ITopSection[]> {
+    const [data]: any = await this.pool.query(getTopSectionsQuery(), { ...period, limit });
+
+    return data.map((row: any) => ({ diagnosis: row.diagnosis, section: row.section, count: Number(row.count) }));
+  }
+
+  // Запросы без результатов по дням — то, что врачи ищут, но не находят
+  async getZeroResultQueries(period: Period): Promise<IZeroResultQuery[]> {
+    const [data]: any = await this.pool.query(getZeroResultQueriesQuery(), period);
+
+    return data.map((row: any) => ({ day: row.day, query: row.query, count: Number(row.count) }));
+  }
+}
+
+export { ClientEventsRepository };
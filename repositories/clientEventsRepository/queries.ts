@@ -0,0 +1,30 @@
+const createQuery = () =>
+  `INSERT INTO client_events(clientTelegramId, type, source, query, diagnosis, section, resultCount, latencyMs, error) VALUES(:clientTelegramId, :type, :source, :query, :diagnosis, :section, :resultCount, :latencyMs, :error);`;
+
+const getByClientQuery = () =>
+  `SELECT id, clientTelegramId, type, source, query, diagnosis, section, resultCount, latencyMs, error, createdAt FROM client_events WHERE clientTelegramId = :clientTelegramId ORDER BY createdAt DESC, id DESC LIMIT :limit;`;
+
+const countByTypeQuery = () =>
+  `SELECT type, COUNT(*) AS count, AVG(latencyMs) AS averageLatencyMs FROM client_events WHERE createdAt >= :from AND createdAt < :to GROUP BY type ORDER BY type;`;
+
+const countClientsQuery = () =>
+  `SELECT COUNT(DISTINCT clientTelegramId) AS count FROM client_events WHERE createdAt >= :from AND createdAt < :to;`;
+
+const getTopDiagnosesQuery = () =>
+  `SELECT diagnosis, COUNT(*) AS count FROM client_events WHERE type = 'diagnosis_selected' AND createdAt >= :from AND createdAt < :to GROUP BY diagnosis ORDER BY count DESC LIMIT :limit;`;
+
+const getTopSectionsQuery = () =>
+  `SELECT diagnosis, section, COUNT(*) AS count FROM client_events WHERE type = 'section_viewed' AND createdAt >= :from AND createdAt < :to GROUP BY diagnosis, section ORDER BY count DESC LIMIT :limit;`;
+
+const getZeroResultQueriesQuery = () =>
+  `SELECT DATE_FORMAT(createdAt, '%Y-%m-%d') AS day, LOWER(query) AS query, COUNT(*) AS count FROM client_events WHERE type = 'search' AND resultCount = 0 AND createdAt >= :from AND createdAt < :to GROUP BY day, LOWER(query) ORDER BY day DESC, count DESC;`;
+
+export {
+  createQuery,
+  getByClientQuery,
+  countByTypeQuery,
+  countClientsQuery,
+  getTopDiagnosesQuery,
+  getTopSectionsQuery,
+  getZeroResultQueriesQuery,
+};
@@ -1,3 +0,0 @@
-const createQuery = () => `INSERT INTO client_logs(text, clientTelegramId) VALUES(:text, :clientTelegramId)`;
-
-export { createQuery };
@@ -1,6 +1,6 @@
 import mysql2 from "mysql2/promise";
 import { IClient } from "../../types/client";
-import { createQuery, getAllQuery, updateQuery } from "./queries";
+import { countQuery, createQuery, getAllQuery, updateQuery } from "./queries";
 
 class ClientsRepository {
   constructor(private readonly pool: mysql2.Pool) {}
@@ -17,7 +17,7 @@ class ClientsRepository {
     return data;
   }
 
-  async create(client: Omit<IClient, "createdAt">) {
+  async create(client: Omit<IClient, "role" | "blockedAt" | "createdAt">) {
     await this.pool.query(createQuery(), client);
   }
 
@@ -26,6 +26,12 @@ class ClientsRepository {
 
     return data;
   }
+
+  async count(): Promise<number> {
+    const [data]: any = await this.pool.query(countQuery());
+
+    return Number(data[0].count);
+  }
 }
 
 export { ClientsRepository };
@@ -1,13 +1,13 @@
 import { IClient } from "../../types/client";
 
 const createQuery = () =>
-  `INSERT INTO clients(telegramId, username, firstName, lastName) VALUES(:telegramId, :username, :firstName, :lastName)`;
+  `INSERT INTO clients(telegramId, username, firstName, lastName, language, status) VALUES(:telegramId, :username, :firstName, :lastName, :language, :status)`;
 
 const getAllQuery = (client: Partial<IClient>) => {
   const keys = Object.keys(client);
   const where = keys.length ? `WHERE ` + keys.map((key) => `${key} = :${key}`).join(" AND ") : "";
 
-  return `SELECT telegramId, username, firstName, lastName, createdAt FROM clients ${where};`;
+  return `SELECT telegramId, username, firstName, lastName, language, role, status, blockedAt, createdAt FROM clients ${where};`;
 };
 
 const updateQuery = (client: Partial<IClient> & { telegramId: number }) => {
@@ -17,4 +17,6 @@ const updateQuery = (client: Partial<IClient> & { telegramId: number }) => {
   return `UPDATE clients SET ${sets} WHERE telegramId = :telegramId;`;
 };
 
-export { createQuery, getAllQuery, updateQuery };
+const countQuery = () => `SELECT COUNT(*) AS count FROM clients;`;
+
+export { createQuery, getAllQuery, updateQuery, countQuery };
@@ -0,0 +1,41 @@
+import mysql2 from "mysql2/promise";
+import { randomBytes } from "crypto";
+import { IDeepLink } from "../../types/deepLink";
+import { createClickQuery, createQuery, findQuery, getOneQuery } from "./queries";
+
+// 10 символов base64url — 60 бит случайности, с запасом укладывается в лимит /start в 64 символа
+const TOKEN_LENGTH = 10;
+const MAX_CREATE_ATTEMPTS = 3;
+
+class DeepLinksRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async getOne(token: string): Promise<IDeepLink | null> {
+    const [data]: any = await this.pool.query(getOneQuery(), { token });
+
+    return data[0] ?? null;
+  }
+
+  // Для одной и той же пары диагноз/раздел переиспользуется уже выданный токен
+  async getOrCreate(deepLink: Omit<IDeepLink, "token" | "createdAt">): Promise<string> {
+    const [existing]: any = await this.pool.query(findQuery(), deepLink);
+    if (existing[0]) return existing[0].token;
+
+    for (let attempt = 1; ; attempt++) {
+      const token = randomBytes(TOKEN_LENGTH).toString("base64url").slice(0, TOKEN_LENGTH);
+
+      try {
+        await this.pool.query(createQuery(), { ...deepLink, token });
+        return token;
+      } catch (error: any) {
+        if (error?.code !== "ER_DUP_ENTRY" || attempt >= MAX_CREATE_ATTEMPTS) throw error;
+      }
+    }
+  }
+
+  async recordClick(token: string, clientTelegramId: number) {
+    await this.pool.query(createClickQuery(), { token, clientTelegramId });
+  }
+}
+
+export { DeepLinksRepository };
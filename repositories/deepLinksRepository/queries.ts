@@ -0,0 +1,13 @@
+const createQuery = () =>
+  `INSERT INTO deep_links(token, diagnosis, section, clientTelegramId) VALUES(:token, :diagnosis, :section, :clientTelegramId);`;
+
+const getOneQuery = () =>
+  `SELECT token, diagnosis, section, clientTelegramId, createdAt FROM deep_links WHERE token = :token;`;
+
+const findQuery = () =>
+  `SELECT token, diagnosis, section, clientTelegramId, createdAt FROM deep_links WHERE diagnosis = :diagnosis AND section <=> :section LIMIT 1;`;
+
+const createClickQuery = () =>
+  `INSERT INTO deep_link_clicks(token, clientTelegramId) VALUES(:token, :clientTelegramId);`;
+
+export { createQuery, getOneQuery, findQuery, createClickQuery };
@@ -0,0 +1,58 @@
+import mysql2 from "mysql2/promise";
+import { IFavorite } from "../../types/favorite";
+import { createQuery, deleteQuery, findQuery, getAllQuery, getOneQuery, updatePositionQuery } from "./queries";
+
+class FavoritesRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async getAll(clientTelegramId: number): Promise<IFavorite[]> {
+    const [data]: any = await this.pool.query(getAllQuery(), { clientTelegramId });
+
+    return data;
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<IFavorite | null> {
+    const [data]: any = await this.pool.query(getOneQuery(), { id, clientTelegramId });
+
+    return data[0] ?? null;
+  }
+
+  // Возвращает false, если такая закладка уже есть
+  async create(favorite: Pick<IFavorite, "clientTelegramId" | "diagnosis" | "section">): Promise<boolean> {
+    const [existing]: any = await this.pool.query(findQuery(), favorite);
+    if (existing.length) return false;
+
+    await this.pool.query(createQuery(), favorite);
+    return true;
+  }
+
+  async delete(id: number, clientTelegramId: number) {
+    await this.pool.query(deleteQuery(), { id, clientTelegramId });
+  }
+
+  // Меняет закладку местами с предыдущей в списке пользователя
+  async moveUp(id: number, clientTelegramId: number) {
+    const favorites = await this.getAll(clientTelegramId);
+    const index = favorites.findIndex((favorite) => favorite.id === id);
+    if (index <= 0) return;
+
+    const current = favorites[index];
+    const previous = favorites[index - 1];
+
+    const connection = await this.pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+      await connection.query(updatePositionQuery(), { id: current.id, clientTelegramId, position: previous.position });
+      await connection.query(updatePositionQuery(), { id: previous.id, clientTelegramId, position: current.position });
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+}
+
+export { FavoritesRepository };
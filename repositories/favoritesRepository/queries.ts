@@ -0,0 +1,18 @@
+const createQuery = () =>
+  `INSERT INTO favorites(clientTelegramId, diagnosis, section, position) SELECT :clientTelegramId, :diagnosis, :section, COALESCE(MAX(position), 0) + 1 FROM favorites WHERE clientTelegramId = :clientTelegramId;`;
+
+const getAllQuery = () =>
+  `SELECT id, clientTelegramId, diagnosis, section, position, createdAt FROM favorites WHERE clientTelegramId = :clientTelegramId ORDER BY position;`;
+
+const getOneQuery = () =>
+  `SELECT id, clientTelegramId, diagnosis, section, position, createdAt FROM favorites WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+const findQuery = () =>
+  `SELECT id, clientTelegramId, diagnosis, section, position, createdAt FROM favorites WHERE clientTelegramId = :clientTelegramId AND diagnosis = :diagnosis AND section <=> :section;`;
+
+const updatePositionQuery = () =>
+  `UPDATE favorites SET position = :position WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+const deleteQuery = () => `DELETE FROM favorites WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+export { createQuery, getAllQuery, getOneQuery, findQuery, updatePositionQuery, deleteQuery };
@@ -0,0 +1,63 @@
+import mysql2 from "mysql2/promise";
+import { IGuidelineCheck, IGuidelineSnapshot } from "../../types/subscription";
+import {
+  createQuery,
+  deleteQuery,
+  deleteUnsubscribedChecksQuery,
+  deleteUnsubscribedQuery,
+  getAllQuery,
+  getCheckedAtQuery,
+  upsertCheckQuery,
+} from "./queries";
+
+class GuidelineSnapshotsRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async getAll(diagnosis: string): Promise<IGuidelineSnapshot[]> {
+    const [data]: any = await this.pool.query(getAllQuery(), { diagnosis });
+
+    return data;
+  }
+
+  // Когда каждая рекомендация проверялась последний раз
+  async getCheckedAt(): Promise<IGuidelineCheck[]> {
+    const [data]: any = await this.pool.query(getCheckedAtQuery());
+
+    return data;
+  }
+
+  // Снимок рекомендации заменяется целиком: удалённые из API разделы не должны остаться в нём.
+  // Время проверки обновляется вместе со снимком, даже если разделов нет
+  async replace(
+    diagnosis: string,
+    snapshots: Pick<IGuidelineSnapshot, "section" | "contentHash" | "content">[]
+  ): Promise<void> {
+    const connection = await this.pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+      await connection.query(deleteQuery(), { diagnosis });
+
+      for (const snapshot of snapshots) {
+        await connection.query(createQuery(), { ...snapshot, diagnosis });
+      }
+
+      await connection.query(upsertCheckQuery(), { diagnosis });
+
+      await connection.commit();
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  // Без подписчиков снимок не обновляется; при новой подписке отсчёт начнётся заново
+  async deleteUnsubscribed(): Promise<void> {
+    await this.pool.query(deleteUnsubscribedQuery());
+    await this.pool.query(deleteUnsubscribedChecksQuery());
+  }
+}
+
+export { GuidelineSnapshotsRepository };
@@ -0,0 +1,28 @@
+const getAllQuery = () =>
+  `SELECT diagnosis, section, contentHash, content FROM guideline_snapshots WHERE diagnosis = :diagnosis ORDER BY id;`;
+
+const deleteQuery = () => `DELETE FROM guideline_snapshots WHERE diagnosis = :diagnosis;`;
+
+const createQuery = () =>
+  `INSERT INTO guideline_snapshots(diagnosis, section, contentHash, content) VALUES(:diagnosis, :section, :contentHash, :content);`;
+
+const getCheckedAtQuery = () => `SELECT diagnosis, checkedAt FROM guideline_checks;`;
+
+const upsertCheckQuery = () =>
+  `INSERT INTO guideline_checks(diagnosis) VALUES(:diagnosis) ON DUPLICATE KEY UPDATE checkedAt = CURRENT_TIMESTAMP;`;
+
+const deleteUnsubscribedQuery = () =>
+  `DELETE FROM guideline_snapshots WHERE diagnosis NOT IN (SELECT diagnosis FROM subscriptions);`;
+
+const deleteUnsubscribedChecksQuery = () =>
+  `DELETE FROM guideline_checks WHERE diagnosis NOT IN (SELECT diagnosis FROM subscriptions);`;
+
+export {
+  getAllQuery,
+  deleteQuery,
+  createQuery,
+  getCheckedAtQuery,
+  upsertCheckQuery,
+  deleteUnsubscribedQuery,
+  deleteUnsubscribedChecksQuery,
+};
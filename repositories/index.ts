@@ -1,18 +1,102 @@
 import mysql2 from "mysql2/promise";
 import { ClientsRepository } from "./clientsRepository";
-import { APIRepository } from "./apiRepository";
-import { ClientLogsRepository } from "./clientLogsRepository";
+import { APIHTTPOptions, APIRepository } from "./apiRepository";
+import { ClientEventsRepository } from "./clientEventsRepository";
+import { FavoritesRepository } from "./favoritesRepository";
+import { SearchHistoryRepository } from "./searchHistoryRepository";
+import { DeepLinksRepository } from "./deepLinksRepository";
+import { AdminAuditRepository } from "./adminAuditRepository";
+import { BroadcastsRepository } from "./broadcastsRepository";
+import { InviteCodesRepository } from "./inviteCodesRepository";
+import { KnownDiagnosesRepository } from "./knownDiagnosesRepository";
+import { SubscriptionsRepository } from "./subscriptionsRepository";
+import { GuidelineSnapshotsRepository } from "./guidelineSnapshotsRepository";
+import { LeasesRepository } from "./leasesRepository";
+import { CacheOptions, createCache } from "../cache";
+import { MemoryRepositories } from "./memoryRepositories";
+
+type APICacheConfig = {
+  store: string;
+  diagnoses: CacheOptions;
+  sections: CacheOptions;
+  section: CacheOptions;
+  // file_id уже отправленных документов по хешу содержимого
+  documents: CacheOptions;
+};
+
+// Только публичные члены класса: такой тип реализуется и без MySQL, см. MemoryRepositories
+type PublicInterface<T> = { [K in keyof T]: T[K] };
+
+type RepositoryLayer = {
+  [K in keyof Repositories]: Repositories[K] extends (...args: any[]) => any
+    ? Repositories[K]
+    : PublicInterface<Repositories[K]>;
+};
 
 class Repositories {
   public clientsRepository: ClientsRepository;
   public apiRepository: APIRepository;
-  public clientLogsRepository: ClientLogsRepository;
+  public clientEventsRepository: ClientEventsRepository;
+  public favoritesRepository: FavoritesRepository;
+  public searchHistoryRepository: SearchHistoryRepository;
+  public deepLinksRepository: DeepLinksRepository;
+  public adminAuditRepository: AdminAuditRepository;
+  public broadcastsRepository: BroadcastsRepository;
+  public inviteCodesRepository: InviteCodesRepository;
+  public knownDiagnosesRepository: KnownDiagnosesRepository;
+  public subscriptionsRepository: SubscriptionsRepository;
+  public guidelineSnapshotsRepository: GuidelineSnapshotsRepository;
+  public leasesRepository: LeasesRepository;
 
-  constructor(pool: mysql2.Pool, apiBaseUrl: string) {
+  constructor(
+    private readonly pool: mysql2.Pool,
+    apiBaseUrl: string,
+    cacheConfig: APICacheConfig,
+    httpOptions: APIHTTPOptions
+  ) {
     this.clientsRepository = new ClientsRepository(pool);
-    this.apiRepository = new APIRepository(apiBaseUrl);
-    this.clientLogsRepository = new ClientLogsRepository(pool);
+    this.apiRepository = new APIRepository(
+      apiBaseUrl,
+      {
+        diagnoses: createCache(cacheConfig.store, "diagnoses", cacheConfig.diagnoses, pool),
+        sections: createCache(cacheConfig.store, "sections", cacheConfig.sections, pool),
+        section: createCache(cacheConfig.store, "section", cacheConfig.section, pool),
+      },
+      httpOptions
+    );
+    this.clientEventsRepository = new ClientEventsRepository(pool);
+    this.favoritesRepository = new FavoritesRepository(pool);
+    this.searchHistoryRepository = new SearchHistoryRepository(pool);
+    this.deepLinksRepository = new DeepLinksRepository(pool);
+    this.adminAuditRepository = new AdminAuditRepository(pool);
+    this.broadcastsRepository = new BroadcastsRepository(pool);
+    this.inviteCodesRepository = new InviteCodesRepository(pool);
+    this.knownDiagnosesRepository = new KnownDiagnosesRepository(pool);
+    this.subscriptionsRepository = new SubscriptionsRepository(pool);
+    this.guidelineSnapshotsRepository = new GuidelineSnapshotsRepository(pool);
+    this.leasesRepository = new LeasesRepository(pool);
+  }
+
+  async checkHealth(): Promise<{ mysql: boolean; api: boolean }> {
+    const [mysql, api] = await Promise.all([this.pingDatabase(), this.apiRepository.ping()]);
+
+    return { mysql, api };
+  }
+
+  private async pingDatabase(): Promise<boolean> {
+    try {
+      const connection = await this.pool.getConnection();
+
+      try {
+        await connection.ping();
+        return true;
+      } finally {
+        connection.release();
+      }
+    } catch {
+      return false;
+    }
   }
 }
 
-export { Repositories };
+export { Repositories, RepositoryLayer, PublicInterface, MemoryRepositories, APICacheConfig, APIHTTPOptions };
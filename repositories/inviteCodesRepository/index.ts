@@ -0,0 +1,28 @@
+import mysql2 from "mysql2/promise";
+import { randomInt } from "crypto";
+import { IInviteCode } from "../../types/inviteCode";
+import { createQuery, redeemQuery } from "./queries";
+
+// Без похожих символов (0/O, 1/I), чтобы код было удобно продиктовать
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const CODE_LENGTH = 8;
+
+class InviteCodesRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async create(inviteCode: Pick<IInviteCode, "maxUses" | "expiresAt" | "createdBy">): Promise<string> {
+    const code = Array.from({ length: CODE_LENGTH }, () => CODE_ALPHABET[randomInt(CODE_ALPHABET.length)]).join("");
+    await this.pool.query(createQuery(), { ...inviteCode, code });
+
+    return code;
+  }
+
+  // Возвращает false, если кода нет, он истёк или исчерпан
+  async redeem(code: string): Promise<boolean> {
+    const [result]: any = await this.pool.query(redeemQuery(), { code: code.trim().toUpperCase() });
+
+    return result.affectedRows === 1;
+  }
+}
+
+export { InviteCodesRepository };
@@ -0,0 +1,8 @@
+const createQuery = () =>
+  `INSERT INTO invite_codes(code, maxUses, expiresAt, createdBy) VALUES(:code, :maxUses, :expiresAt, :createdBy);`;
+
+// Использование засчитывается одним запросом, чтобы параллельные активации не превысили лимит
+const redeemQuery = () =>
+  `UPDATE invite_codes SET uses = uses + 1 WHERE code = :code AND uses < maxUses AND (expiresAt IS NULL OR expiresAt > CURRENT_TIMESTAMP);`;
+
+export { createQuery, redeemQuery };
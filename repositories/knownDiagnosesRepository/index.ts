@@ -0,0 +1,20 @@
+import mysql2 from "mysql2/promise";
+import { IKnownDiagnosis } from "../../types/knownDiagnosis";
+import { getAllQuery, upsertQuery } from "./queries";
+
+class KnownDiagnosesRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  // Код МКБ не затирается, если в новом ответе API его нет
+  async upsert(diagnosis: Omit<IKnownDiagnosis, "lastSeenAt">): Promise<void> {
+    await this.pool.query(upsertQuery(), diagnosis);
+  }
+
+  async getAll(limit: number): Promise<IKnownDiagnosis[]> {
+    const [data]: any = await this.pool.query(getAllQuery(), { limit });
+
+    return data;
+  }
+}
+
+export { KnownDiagnosesRepository };
@@ -0,0 +1,6 @@
+const upsertQuery = () =>
+  `INSERT INTO known_diagnoses(name, icd) VALUES(:name, :icd) ON DUPLICATE KEY UPDATE icd = COALESCE(VALUES(icd), icd), lastSeenAt = CURRENT_TIMESTAMP;`;
+
+const getAllQuery = () => `SELECT name, icd, lastSeenAt FROM known_diagnoses ORDER BY lastSeenAt DESC LIMIT :limit;`;
+
+export { upsertQuery, getAllQuery };
@@ -0,0 +1,21 @@
+import mysql2 from "mysql2/promise";
+import { acquireQuery, getOwnerQuery, releaseQuery } from "./queries";
+
+// Аренда фоновой задачи: пока она не истекла, задачу выполняет только процесс-владелец
+class LeasesRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  // Берёт свободную или истёкшую аренду либо продлевает свою; false — аренда у другого процесса
+  async acquire(name: string, owner: string, ttl: number): Promise<boolean> {
+    await this.pool.query(acquireQuery(), { name, owner, ttl: ttl * 1000 });
+    const [data]: any = await this.pool.query(getOwnerQuery(), { name });
+
+    return data[0]?.owner === owner;
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    await this.pool.query(releaseQuery(), { name, owner });
+  }
+}
+
+export { LeasesRepository };
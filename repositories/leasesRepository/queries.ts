@@ -0,0 +1,10 @@
+// Время берётся из MySQL, а не из процессов: часы разных серверов могут расходиться.
+// Присваивания выполняются слева направо, поэтому expiresAt сравнивает уже обновлённого владельца
+const acquireQuery = () =>
+  `INSERT INTO leases(name, owner, expiresAt) VALUES(:name, :owner, NOW(3) + INTERVAL :ttl MICROSECOND) ON DUPLICATE KEY UPDATE owner = IF(owner = VALUES(owner) OR expiresAt <= NOW(3), VALUES(owner), owner), expiresAt = IF(owner = VALUES(owner), VALUES(expiresAt), expiresAt);`;
+
+const getOwnerQuery = () => `SELECT owner FROM leases WHERE name = :name;`;
+
+const releaseQuery = () => `DELETE FROM leases WHERE name = :name AND owner = :owner;`;
+
+export { acquireQuery, getOwnerQuery, releaseQuery };
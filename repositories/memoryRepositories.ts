@@ -0,0 +1,564 @@
+import { randomBytes, randomInt } from "crypto";
+import { APIRepository } from "./apiRepository";
+import { AdminAuditRepository } from "./adminAuditRepository";
+import { BroadcastsRepository } from "./broadcastsRepository";
+import { ClientEventsRepository } from "./clientEventsRepository";
+import { ClientsRepository } from "./clientsRepository";
+import { DeepLinksRepository } from "./deepLinksRepository";
+import { FavoritesRepository } from "./favoritesRepository";
+import { InviteCodesRepository } from "./inviteCodesRepository";
+import { KnownDiagnosesRepository } from "./knownDiagnosesRepository";
+import { SearchHistoryRepository } from "./searchHistoryRepository";
+import { SubscriptionsRepository } from "./subscriptionsRepository";
+import { GuidelineSnapshotsRepository } from "./guidelineSnapshotsRepository";
+import { LeasesRepository } from "./leasesRepository";
+import { PublicInterface, RepositoryLayer } from ".";
+import { IAdminAuditLog } from "../types/adminAudit";
+import { BroadcastRecipientStatus, BroadcastStatus, IBroadcast, IBroadcastRecipient } from "../types/broadcast";
+import { IClient } from "../types/client";
+import { IClientEvent } from "../types/clientEvent";
+import { IEventCount, ITopDiagnosis, ITopSection, IZeroResultQuery } from "../types/clientStats";
+import { IDeepLink } from "../types/deepLink";
+import { IFavorite } from "../types/favorite";
+import { IInviteCode } from "../types/inviteCode";
+import { IKnownDiagnosis } from "../types/knownDiagnosis";
+import { ISearchHistory } from "../types/searchHistory";
+import { IGuidelineCheck, IGuidelineSnapshot, ISubscriber, ISubscription } from "../types/subscription";
+
+// Репозитории в памяти процесса: повторяют поведение запросов MySQL для прогонов без базы.
+// Данные теряются при перезапуске, поэтому для продакшена они не годятся.
+
+type Period = { from: Date; to: Date };
+
+const inPeriod = (date: Date, period: Period) => date >= period.from && date <= period.to;
+
+// Счётчики по ключу, отсортированные по убыванию, как GROUP BY ... ORDER BY count DESC
+function countBy<T>(items: T[], key: (item: T) => string | null): { key: string; count: number; item: T }[] {
+  const counts = new Map<string, { key: string; count: number; item: T }>();
+
+  for (const item of items) {
+    const value = key(item);
+    if (value === null) continue;
+
+    const entry = counts.get(value) ?? { key: value, count: 0, item };
+    entry.count++;
+    counts.set(value, entry);
+  }
+
+  return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+}
+
+class MemoryClientsRepository implements PublicInterface<ClientsRepository> {
+  readonly clients: IClient[] = [];
+
+  private matches(client: IClient, filter: Partial<IClient>): boolean {
+    return (Object.keys(filter) as (keyof IClient)[]).every((key) => client[key] === filter[key]);
+  }
+
+  async getOne(filter: Partial<IClient>): Promise<IClient | null> {
+    return (await this.getAll(filter))[0] ?? null;
+  }
+
+  async getAll(filter: Partial<IClient>): Promise<IClient[]> {
+    return this.clients.filter((client) => this.matches(client, filter)).map((client) => ({ ...client }));
+  }
+
+  async create(client: Omit<IClient, "role" | "blockedAt" | "createdAt">) {
+    if (this.clients.some((existing) => existing.telegramId === client.telegramId)) {
+      throw Object.assign(new Error(`Duplicate entry '${client.telegramId}'`), { code: "ER_DUP_ENTRY" });
+    }
+
+    this.clients.push({ ...client, role: "user", blockedAt: null, createdAt: new Date() });
+  }
+
+  async update(client: Partial<IClient> & { telegramId: number }) {
+    const existing = this.clients.find((item) => item.telegramId === client.telegramId);
+    if (existing) Object.assign(existing, client);
+
+    return { affectedRows: existing ? 1 : 0 };
+  }
+
+  async count(): Promise<number> {
+    return this.clients.length;
+  }
+}
+
+class MemoryClientEventsRepository implements PublicInterface<ClientEventsRepository> {
+  readonly events: IClientEvent[] = [];
+
+  async create(
+    event: Pick<IClientEvent, "clientTelegramId" | "type"> & Partial<Omit<IClientEvent, "id" | "createdAt">>
+  ) {
+    this.events.push({
+      id: this.events.length + 1,
+      clientTelegramId: event.clientTelegramId,
+      type: event.type,
+      source: event.source ?? "chat",
+      query: event.query ?? null,
+      diagnosis: event.diagnosis ?? null,
+      section: event.section ?? null,
+      resultCount: event.resultCount ?? null,
+      latencyMs: event.latencyMs ?? null,
+      error: event.error ?? null,
+      createdAt: new Date(),
+    });
+  }
+
+  async getByClient(clientTelegramId: number, limit: number): Promise<IClientEvent[]> {
+    return this.events
+      .filter((event) => event.clientTelegramId === clientTelegramId)
+      .reverse()
+      .slice(0, limit);
+  }
+
+  async countByType(period: Period): Promise<IEventCount[]> {
+    const events = this.events.filter((event) => inPeriod(event.createdAt, period));
+
+    return countBy(events, (event) => event.type).map(({ key, count }) => {
+      const latencies = events
+        .filter((event) => event.type === key && event.latencyMs !== null)
+        .map((event) => event.latencyMs as number);
+
+      return {
+        type: key,
+        count,
+        averageLatencyMs: latencies.length
+          ? Math.round(latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length)
+          : null,
+      };
+    });
+  }
+
+  async countClients(period: Period): Promise<number> {
+    return new Set(
+      this.events.filter((event) => inPeriod(event.createdAt, period)).map((event) => event.clientTelegramId)
+    ).size;
+  }
+
+  async getTopDiagnoses(period: Period, limit: number): Promise<ITopDiagnosis[]> {
+    const events = this.events.filter(
+      (event) => event.type === "diagnosis_selected" && inPeriod(event.createdAt, period)
+    );
+
+    return countBy(events, (event) => event.diagnosis)
+      .slice(0, limit)
+      .map(({ key, count }) => ({ diagnosis: key, count }));
+  }
+
+  async getTopSections(period: Period, limit: number): Promise<ITopSection[]> {
+    const events = this.events.filter((event) => event.type === "section_viewed" && inPeriod(event.createdAt, period));
+
+    return countBy(events, (event) => JSON.stringify([event.diagnosis, event.section]))
+      .slice(0, limit)
+      .map(({ item, count }) => ({ diagnosis: item.diagnosis ?? "", section: item.section ?? "", count }));
+  }
+
+  async getZeroResultQueries(period: Period): Promise<IZeroResultQuery[]> {
+    const events = this.events.filter(
+      (event) => event.type === "search" && event.resultCount === 0 && inPeriod(event.createdAt, period)
+    );
+
+    return countBy(events, (event) => JSON.stringify([event.createdAt.toISOString().slice(0, 10), event.query])).map(
+      ({ item, count }) => ({ day: item.createdAt.toISOString().slice(0, 10), query: item.query ?? "", count })
+    );
+  }
+}
+
+class MemoryFavoritesRepository implements PublicInterface<FavoritesRepository> {
+  private favorites: IFavorite[] = [];
+  private nextId = 1;
+
+  async getAll(clientTelegramId: number): Promise<IFavorite[]> {
+    return this.favorites
+      .filter((favorite) => favorite.clientTelegramId === clientTelegramId)
+      .sort((a, b) => a.position - b.position || a.id - b.id)
+      .map((favorite) => ({ ...favorite }));
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<IFavorite | null> {
+    const favorite = this.favorites.find((item) => item.id === id && item.clientTelegramId === clientTelegramId);
+    return favorite ? { ...favorite } : null;
+  }
+
+  async create(favorite: Pick<IFavorite, "clientTelegramId" | "diagnosis" | "section">): Promise<boolean> {
+    const exists = this.favorites.some(
+      (item) =>
+        item.clientTelegramId === favorite.clientTelegramId &&
+        item.diagnosis === favorite.diagnosis &&
+        item.section === favorite.section
+    );
+    if (exists) return false;
+
+    const positions = this.favorites
+      .filter((item) => item.clientTelegramId === favorite.clientTelegramId)
+      .map((item) => item.position);
+
+    this.favorites.push({
+      ...favorite,
+      id: this.nextId++,
+      position: positions.length ? Math.max(...positions) + 1 : 1,
+      createdAt: new Date(),
+    });
+    return true;
+  }
+
+  async delete(id: number, clientTelegramId: number) {
+    this.favorites = this.favorites.filter((item) => item.id !== id || item.clientTelegramId !== clientTelegramId);
+  }
+
+  async moveUp(id: number, clientTelegramId: number) {
+    const favorites = await this.getAll(clientTelegramId);
+    const index = favorites.findIndex((favorite) => favorite.id === id);
+    if (index <= 0) return;
+
+    const current = this.favorites.find((item) => item.id === favorites[index].id)!;
+    const previous = this.favorites.find((item) => item.id === favorites[index - 1].id)!;
+    [current.position, previous.position] = [previous.position, current.position];
+  }
+}
+
+class MemorySearchHistoryRepository implements PublicInterface<SearchHistoryRepository> {
+  private entries: ISearchHistory[] = [];
+  private nextId = 1;
+
+  async create(entry: Omit<ISearchHistory, "id" | "createdAt">): Promise<number> {
+    const id = this.nextId++;
+    this.entries.push({ ...entry, id, createdAt: new Date() });
+
+    return id;
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<ISearchHistory | null> {
+    const entry = this.entries.find((item) => item.id === id && item.clientTelegramId === clientTelegramId);
+    return entry ? { ...entry } : null;
+  }
+
+  async update(entry: Partial<ISearchHistory> & { id: number; clientTelegramId: number }) {
+    const existing = this.entries.find(
+      (item) => item.id === entry.id && item.clientTelegramId === entry.clientTelegramId
+    );
+    if (existing) Object.assign(existing, entry);
+  }
+
+  async getRecentDiagnoses(clientTelegramId: number, limit: number): Promise<string[]> {
+    const diagnoses: string[] = [];
+
+    for (const entry of this.entries.slice().reverse()) {
+      if (entry.clientTelegramId !== clientTelegramId || !entry.diagnosis) continue;
+      if (!diagnoses.includes(entry.diagnosis)) diagnoses.push(entry.diagnosis);
+    }
+
+    return diagnoses.slice(0, limit);
+  }
+
+  async deleteAll(clientTelegramId: number) {
+    this.entries = this.entries.filter((item) => item.clientTelegramId !== clientTelegramId);
+  }
+}
+
+class MemoryDeepLinksRepository implements PublicInterface<DeepLinksRepository> {
+  private deepLinks: IDeepLink[] = [];
+  readonly clicks: { token: string; clientTelegramId: number; createdAt: Date }[] = [];
+
+  async getOne(token: string): Promise<IDeepLink | null> {
+    return this.deepLinks.find((deepLink) => deepLink.token === token) ?? null;
+  }
+
+  async getOrCreate(deepLink: Omit<IDeepLink, "token" | "createdAt">): Promise<string> {
+    const existing = this.deepLinks.find(
+      (item) => item.diagnosis === deepLink.diagnosis && item.section === deepLink.section
+    );
+    if (existing) return existing.token;
+
+    const token = randomBytes(10).toString("base64url").slice(0, 10);
+    this.deepLinks.push({ ...deepLink, token, createdAt: new Date() });
+
+    return token;
+  }
+
+  async recordClick(token: string, clientTelegramId: number) {
+    this.clicks.push({ token, clientTelegramId, createdAt: new Date() });
+  }
+}
+
+class MemoryAdminAuditRepository implements PublicInterface<AdminAuditRepository> {
+  readonly logs: IAdminAuditLog[] = [];
+
+  async create(log: Omit<IAdminAuditLog, "id" | "createdAt">) {
+    this.logs.push({ ...log, id: this.logs.length + 1, createdAt: new Date() });
+  }
+}
+
+class MemoryBroadcastsRepository implements PublicInterface<BroadcastsRepository> {
+  private broadcasts: IBroadcast[] = [];
+  private recipients: IBroadcastRecipient[] = [];
+
+  constructor(
+    private readonly clients: MemoryClientsRepository,
+    private readonly events: MemoryClientEventsRepository
+  ) {}
+
+  private selectRecipients(segmentDays: number | null): number[] {
+    const activeSince = segmentDays ? new Date(Date.now() - segmentDays * 24 * 60 * 60 * 1000) : null;
+    const active = new Set(
+      this.events.events
+        .filter((event) => !activeSince || event.createdAt >= activeSince)
+        .map((event) => event.clientTelegramId)
+    );
+
+    return this.clients.clients
+      .filter((client) => client.blockedAt === null && (!activeSince || active.has(client.telegramId)))
+      .map((client) => client.telegramId);
+  }
+
+  async create(
+    broadcast: Pick<IBroadcast, "adminTelegramId" | "sourceChatId" | "sourceMessageId" | "segmentDays">
+  ): Promise<number> {
+    const id = this.broadcasts.length + 1;
+
+    this.broadcasts.push({
+      ...broadcast,
+      id,
+      status: "sending",
+      total: 0,
+      sent: 0,
+      failed: 0,
+      blocked: 0,
+      createdAt: new Date(),
+      completedAt: null,
+    });
+
+    for (const clientTelegramId of this.selectRecipients(broadcast.segmentDays)) {
+      this.recipients.push({ broadcastId: id, clientTelegramId, status: "pending", error: null, sentAt: null });
+    }
+
+    await this.updateProgress(id);
+    return id;
+  }
+
+  async countRecipients(segmentDays: number | null): Promise<number> {
+    return this.selectRecipients(segmentDays).length;
+  }
+
+  async getOne(id: number): Promise<IBroadcast | null> {
+    const broadcast = this.broadcasts.find((item) => item.id === id);
+    return broadcast ? { ...broadcast } : null;
+  }
+
+  async getByStatus(status: BroadcastStatus): Promise<IBroadcast[]> {
+    return this.broadcasts.filter((item) => item.status === status).map((item) => ({ ...item }));
+  }
+
+  async getLatest(limit: number): Promise<IBroadcast[]> {
+    return this.broadcasts
+      .slice()
+      .reverse()
+      .slice(0, limit)
+      .map((item) => ({ ...item }));
+  }
+
+  async getPendingRecipients(broadcastId: number, limit: number): Promise<IBroadcastRecipient[]> {
+    return this.recipients
+      .filter((item) => item.broadcastId === broadcastId && item.status === "pending")
+      .sort((a, b) => a.clientTelegramId - b.clientTelegramId)
+      .slice(0, limit)
+      .map((item) => ({ ...item }));
+  }
+
+  async updateRecipient(
+    broadcastId: number,
+    clientTelegramId: number,
+    status: BroadcastRecipientStatus,
+    error: string | null = null
+  ) {
+    const recipient = this.recipients.find(
+      (item) => item.broadcastId === broadcastId && item.clientTelegramId === clientTelegramId
+    );
+    if (!recipient) return;
+
+    recipient.status = status;
+    recipient.error = error ? error.slice(0, 512) : null;
+    if (status === "sent") recipient.sentAt = new Date();
+  }
+
+  async updateProgress(id: number) {
+    const broadcast = this.broadcasts.find((item) => item.id === id);
+    if (!broadcast) return;
+
+    const recipients = this.recipients.filter((item) => item.broadcastId === id);
+    broadcast.total = recipients.length;
+    broadcast.sent = recipients.filter((item) => item.status === "sent").length;
+    broadcast.failed = recipients.filter((item) => item.status === "failed").length;
+    broadcast.blocked = recipients.filter((item) => item.status === "blocked").length;
+  }
+
+  async updateStatus(id: number, status: BroadcastStatus) {
+    const broadcast = this.broadcasts.find((item) => item.id === id);
+    if (!broadcast) return;
+
+    broadcast.status = status;
+    broadcast.completedAt = status === "sending" ? null : new Date();
+  }
+}
+
+class MemoryInviteCodesRepository implements PublicInterface<InviteCodesRepository> {
+  private codes: IInviteCode[] = [];
+
+  async create(inviteCode: Pick<IInviteCode, "maxUses" | "expiresAt" | "createdBy">): Promise<string> {
+    const alphabet = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+    const code = Array.from({ length: 8 }, () => alphabet[randomInt(alphabet.length)]).join("");
+    this.codes.push({ ...inviteCode, code, uses: 0, createdAt: new Date() });
+
+    return code;
+  }
+
+  async redeem(code: string): Promise<boolean> {
+    const inviteCode = this.codes.find((item) => item.code === code.trim().toUpperCase());
+    if (!inviteCode || inviteCode.uses >= inviteCode.maxUses) return false;
+    if (inviteCode.expiresAt && inviteCode.expiresAt <= new Date()) return false;
+
+    inviteCode.uses++;
+    return true;
+  }
+}
+
+class MemoryKnownDiagnosesRepository implements PublicInterface<KnownDiagnosesRepository> {
+  private diagnoses = new Map<string, IKnownDiagnosis>();
+
+  async upsert(diagnosis: Omit<IKnownDiagnosis, "lastSeenAt">): Promise<void> {
+    const icd = diagnosis.icd ?? this.diagnoses.get(diagnosis.name)?.icd ?? null;
+
+    this.diagnoses.delete(diagnosis.name);
+    this.diagnoses.set(diagnosis.name, { name: diagnosis.name, icd, lastSeenAt: new Date() });
+  }
+
+  async getAll(limit: number): Promise<IKnownDiagnosis[]> {
+    return Array.from(this.diagnoses.values()).reverse().slice(0, limit);
+  }
+}
+
+class MemorySubscriptionsRepository implements PublicInterface<SubscriptionsRepository> {
+  readonly subscriptions: ISubscription[] = [];
+  private nextId = 1;
+
+  constructor(private readonly clients: MemoryClientsRepository) {}
+
+  async find(clientTelegramId: number, diagnosis: string): Promise<ISubscription | null> {
+    const subscription = this.subscriptions.find(
+      (item) => item.clientTelegramId === clientTelegramId && item.diagnosis === diagnosis
+    );
+    return subscription ? { ...subscription } : null;
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<ISubscription | null> {
+    const subscription = this.subscriptions.find(
+      (item) => item.id === id && item.clientTelegramId === clientTelegramId
+    );
+    return subscription ? { ...subscription } : null;
+  }
+
+  // Проверка и вставка без await между ними, как под уникальным индексом в MySQL
+  async create(subscription: Pick<ISubscription, "clientTelegramId" | "diagnosis">): Promise<boolean> {
+    const exists = this.subscriptions.some(
+      (item) => item.clientTelegramId === subscription.clientTelegramId && item.diagnosis === subscription.diagnosis
+    );
+    if (exists) return false;
+
+    this.subscriptions.push({ ...subscription, id: this.nextId++, createdAt: new Date() });
+    return true;
+  }
+
+  async delete(id: number, clientTelegramId: number) {
+    const index = this.subscriptions.findIndex((item) => item.id === id && item.clientTelegramId === clientTelegramId);
+    if (index !== -1) this.subscriptions.splice(index, 1);
+  }
+
+  async getDiagnoses(): Promise<string[]> {
+    return Array.from(new Set(this.subscriptions.map((item) => item.diagnosis))).sort();
+  }
+
+  async getSubscribers(diagnosis: string): Promise<ISubscriber[]> {
+    return this.subscriptions
+      .filter((item) => item.diagnosis === diagnosis)
+      .flatMap((item) => {
+        const client = this.clients.clients.find((client) => client.telegramId === item.clientTelegramId);
+        if (!client || client.blockedAt !== null || client.status === "blocked") return [];
+
+        return [{ subscriptionId: item.id, clientTelegramId: client.telegramId, language: client.language }];
+      });
+  }
+}
+
+class MemoryGuidelineSnapshotsRepository implements PublicInterface<GuidelineSnapshotsRepository> {
+  private snapshots: IGuidelineSnapshot[] = [];
+  private checkedAt = new Map<string, Date>();
+
+  constructor(private readonly subscriptions: MemorySubscriptionsRepository) {}
+
+  async getAll(diagnosis: string): Promise<IGuidelineSnapshot[]> {
+    return this.snapshots.filter((item) => item.diagnosis === diagnosis).map((item) => ({ ...item }));
+  }
+
+  async getCheckedAt(): Promise<IGuidelineCheck[]> {
+    return Array.from(this.checkedAt, ([diagnosis, checkedAt]) => ({ diagnosis, checkedAt }));
+  }
+
+  async replace(
+    diagnosis: string,
+    snapshots: Pick<IGuidelineSnapshot, "section" | "contentHash" | "content">[]
+  ): Promise<void> {
+    this.snapshots = [
+      ...this.snapshots.filter((item) => item.diagnosis !== diagnosis),
+      ...snapshots.map((snapshot) => ({ ...snapshot, diagnosis })),
+    ];
+    this.checkedAt.set(diagnosis, new Date());
+  }
+
+  async deleteUnsubscribed(): Promise<void> {
+    const diagnoses = new Set(this.subscriptions.subscriptions.map((item) => item.diagnosis));
+    this.snapshots = this.snapshots.filter((item) => diagnoses.has(item.diagnosis));
+    for (const diagnosis of Array.from(this.checkedAt.keys())) {
+      if (!diagnoses.has(diagnosis)) this.checkedAt.delete(diagnosis);
+    }
+  }
+}
+
+class MemoryLeasesRepository implements PublicInterface<LeasesRepository> {
+  private leases = new Map<string, { owner: string; expiresAt: number }>();
+
+  async acquire(name: string, owner: string, ttl: number): Promise<boolean> {
+    const lease = this.leases.get(name);
+    if (lease && lease.owner !== owner && lease.expiresAt > Date.now()) return false;
+
+    this.leases.set(name, { owner, expiresAt: Date.now() + ttl });
+    return true;
+  }
+
+  async release(name: string, owner: string): Promise<void> {
+    if (this.leases.get(name)?.owner === owner) this.leases.delete(name);
+  }
+}
+
+// База знаний остаётся настоящим HTTP-клиентом: в сценариях его направляют на MockKnowledgeBase
+class MemoryRepositories implements RepositoryLayer {
+  public clientsRepository = new MemoryClientsRepository();
+  public clientEventsRepository = new MemoryClientEventsRepository();
+  public favoritesRepository = new MemoryFavoritesRepository();
+  public searchHistoryRepository = new MemorySearchHistoryRepository();
+  public deepLinksRepository = new MemoryDeepLinksRepository();
+  public adminAuditRepository = new MemoryAdminAuditRepository();
+  public broadcastsRepository = new MemoryBroadcastsRepository(this.clientsRepository, this.clientEventsRepository);
+  public inviteCodesRepository = new MemoryInviteCodesRepository();
+  public knownDiagnosesRepository = new MemoryKnownDiagnosesRepository();
+  public subscriptionsRepository = new MemorySubscriptionsRepository(this.clientsRepository);
+  public guidelineSnapshotsRepository = new MemoryGuidelineSnapshotsRepository(this.subscriptionsRepository);
+  public leasesRepository = new MemoryLeasesRepository();
+
+  constructor(public apiRepository: APIRepository) {}
+
+  async checkHealth(): Promise<{ mysql: boolean; api: boolean }> {
+    return { mysql: true, api: await this.apiRepository.ping() };
+  }
+}
+
+export { MemoryRepositories };
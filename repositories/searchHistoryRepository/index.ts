@@ -0,0 +1,49 @@
+import mysql2 from "mysql2/promise";
+import { ISearchHistory } from "../../types/searchHistory";
+import { createQuery, deleteAllQuery, getOneQuery, getRecentDiagnosesQuery, updateQuery } from "./queries";
+
+// Ограничение длины текстовых полей под размеры колонок: длинный запрос иначе не попадёт в историю
+const MAX_TEXT_LENGTH = 512;
+
+function truncate<T extends Partial<ISearchHistory>>(entry: T): T {
+  const result = { ...entry };
+
+  for (const key of ["query", "diagnosis", "section"] as const) {
+    const value = result[key];
+    if (value) result[key] = value.slice(0, MAX_TEXT_LENGTH);
+  }
+
+  return result;
+}
+
+class SearchHistoryRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async create(entry: Omit<ISearchHistory, "id" | "createdAt">): Promise<number> {
+    const [result]: any = await this.pool.query(createQuery(), truncate(entry));
+
+    return result.insertId;
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<ISearchHistory | null> {
+    const [data]: any = await this.pool.query(getOneQuery(), { id, clientTelegramId });
+
+    return data[0] ?? null;
+  }
+
+  async update(entry: Partial<ISearchHistory> & { id: number; clientTelegramId: number }) {
+    await this.pool.query(updateQuery(entry), truncate(entry));
+  }
+
+  async getRecentDiagnoses(clientTelegramId: number, limit: number): Promise<string[]> {
+    const [data]: any = await this.pool.query(getRecentDiagnosesQuery(), { clientTelegramId, limit });
+
+    return data.map((row: any) => row.diagnosis);
+  }
+
+  async deleteAll(clientTelegramId: number) {
+    await this.pool.query(deleteAllQuery(), { clientTelegramId });
+  }
+}
+
+export { SearchHistoryRepository };
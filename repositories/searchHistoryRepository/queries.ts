@@ -0,0 +1,21 @@
+import { ISearchHistory } from "../../types/searchHistory";
+
+const createQuery = () =>
+  `INSERT INTO search_history(clientTelegramId, query, diagnosis, section) VALUES(:clientTelegramId, :query, :diagnosis, :section);`;
+
+const getOneQuery = () =>
+  `SELECT id, clientTelegramId, query, diagnosis, section, createdAt FROM search_history WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+const updateQuery = (entry: Partial<ISearchHistory>) => {
+  const keys = Object.keys(entry).filter((key) => key !== "id" && key !== "clientTelegramId");
+  const sets = keys.map((key) => `${key} = :${key}`).join(", ");
+
+  return `UPDATE search_history SET ${sets} WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+};
+
+const getRecentDiagnosesQuery = () =>
+  `SELECT diagnosis, MAX(createdAt) AS lastUsedAt FROM search_history WHERE clientTelegramId = :clientTelegramId AND diagnosis IS NOT NULL GROUP BY diagnosis ORDER BY lastUsedAt DESC LIMIT :limit;`;
+
+const deleteAllQuery = () => `DELETE FROM search_history WHERE clientTelegramId = :clientTelegramId;`;
+
+export { createQuery, getOneQuery, updateQuery, getRecentDiagnosesQuery, deleteAllQuery };
@@ -0,0 +1,46 @@
+import mysql2 from "mysql2/promise";
+import { ISubscriber, ISubscription } from "../../types/subscription";
+import { createQuery, deleteQuery, findQuery, getDiagnosesQuery, getOneQuery, getSubscribersQuery } from "./queries";
+
+class SubscriptionsRepository {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  async find(clientTelegramId: number, diagnosis: string): Promise<ISubscription | null> {
+    const [data]: any = await this.pool.query(findQuery(), { clientTelegramId, diagnosis });
+
+    return data[0] ?? null;
+  }
+
+  async getOne(id: number, clientTelegramId: number): Promise<ISubscription | null> {
+    const [data]: any = await this.pool.query(getOneQuery(), { id, clientTelegramId });
+
+    return data[0] ?? null;
+  }
+
+  // Возвращает false, если пользователь уже следит за диагнозом; повтор отсекает уникальный индекс,
+  // поэтому два одновременных нажатия не создадут двух подписок
+  async create(subscription: Pick<ISubscription, "clientTelegramId" | "diagnosis">): Promise<boolean> {
+    const [result]: any = await this.pool.query(createQuery(), subscription);
+
+    return result.affectedRows === 1;
+  }
+
+  async delete(id: number, clientTelegramId: number) {
+    await this.pool.query(deleteQuery(), { id, clientTelegramId });
+  }
+
+  // Диагнозы, у которых есть хотя бы один подписчик
+  async getDiagnoses(): Promise<string[]> {
+    const [data]: any = await this.pool.query(getDiagnosesQuery());
+
+    return data.map((row: { diagnosis: string }) => row.diagnosis);
+  }
+
+  async getSubscribers(diagnosis: string): Promise<ISubscriber[]> {
+    const [data]: any = await this.pool.query(getSubscribersQuery(), { diagnosis });
+
+    return data;
+  }
+}
+
+export { SubscriptionsRepository };
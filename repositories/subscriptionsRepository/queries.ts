@@ -0,0 +1,17 @@
+const createQuery = () =>
+  `INSERT IGNORE INTO subscriptions(clientTelegramId, diagnosis) VALUES(:clientTelegramId, :diagnosis);`;
+
+const findQuery = () =>
+  `SELECT id, clientTelegramId, diagnosis, createdAt FROM subscriptions WHERE clientTelegramId = :clientTelegramId AND diagnosis = :diagnosis;`;
+
+const getOneQuery = () =>
+  `SELECT id, clientTelegramId, diagnosis, createdAt FROM subscriptions WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+const deleteQuery = () => `DELETE FROM subscriptions WHERE id = :id AND clientTelegramId = :clientTelegramId;`;
+
+const getDiagnosesQuery = () => `SELECT DISTINCT diagnosis FROM subscriptions ORDER BY diagnosis;`;
+
+const getSubscribersQuery = () =>
+  `SELECT subscriptions.id AS subscriptionId, clients.telegramId AS clientTelegramId, clients.language FROM subscriptions JOIN clients ON clients.telegramId = subscriptions.clientTelegramId WHERE subscriptions.diagnosis = :diagnosis AND clients.blockedAt IS NULL AND clients.status <> 'blocked' ORDER BY subscriptions.id;`;
+
+export { createQuery, findQuery, getOneQuery, deleteQuery, getDiagnosesQuery, getSubscribersQuery };
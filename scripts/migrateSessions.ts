@@ -0,0 +1,47 @@
+import path from "path";
+import { config } from "dotenv";
+import createDatabase from "../database";
+import { FileSessionStore, createSessionStore } from "../sessions";
+
+config();
+
+// Однократный перенос сессий из session.json в хранилище, заданное SESSION_STORE
+async function migrateSessions(): Promise<void> {
+  const sessionFile = process.argv[2] || path.join(__dirname, "..", "session.json");
+  const target = process.env.SESSION_STORE || "mysql";
+
+  if (target === "file") {
+    console.error("SESSION_STORE=file: переносить сессии некуда");
+    process.exit(1);
+  }
+
+  const database = createDatabase({
+    host: process.env.DB_HOST || "",
+    port: Number(process.env.DB_PORT || ""),
+    password: process.env.DB_PASSWORD || "",
+    database: process.env.DB_DATABASE || "",
+    user: process.env.DB_USER || "",
+  });
+
+  const source = new FileSessionStore(sessionFile);
+  const destination = createSessionStore({ type: target, sessionFile, pool: database });
+
+  try {
+    const sessions = await source.getAllUserStates();
+    const entries = Object.entries(sessions);
+
+    for (const [userId, state] of entries) {
+      await destination.setUserState(Number(userId), state);
+    }
+
+    console.log(`Перенесено сессий: ${entries.length}`);
+  } finally {
+    await destination.close();
+    await database.end();
+  }
+}
+
+migrateSessions().catch((error) => {
+  console.error("Ошибка при переносе сессий:", error);
+  process.exit(1);
+});
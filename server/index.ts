@@ -0,0 +1,77 @@
+import http from "http";
+
+type HTTPServerHandlers = {
+  // Обработчик вебхука Telegram; без него сервер отдаёт только служебные эндпоинты
+  webhook?: (req: http.IncomingMessage, res: http.ServerResponse) => Promise<void>;
+  checkHealth: () => Promise<Record<string, boolean>>;
+  renderMetrics: () => string;
+};
+
+class HTTPServer {
+  private server: http.Server;
+
+  constructor(
+    private readonly port: number,
+    private readonly handlers: HTTPServerHandlers
+  ) {
+    this.server = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error("HTTP Error:", error);
+        if (!res.headersSent) res.writeHead(500);
+        res.end();
+      });
+    });
+  }
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.server.once("error", reject);
+      this.server.listen(this.port, () => {
+        this.server.off("error", reject);
+        resolve();
+      });
+    });
+  }
+
+  // Новые соединения не принимаются, начатые запросы дорабатывают; по истечении timeout соединения рвутся
+  async stop(timeout: number): Promise<void> {
+    if (!this.server.listening) return;
+
+    const closed = new Promise<void>((resolve) => this.server.close(() => resolve()));
+    this.server.closeIdleConnections();
+
+    const timer = setTimeout(() => this.server.closeAllConnections(), timeout);
+    await closed;
+    clearTimeout(timer);
+  }
+
+  private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const path = new URL(req.url ?? "/", "http://localhost").pathname;
+
+    if (req.method === "GET" && path === "/healthz") {
+      const checks = await this.handlers.checkHealth();
+      const healthy = Object.values(checks).every(Boolean);
+
+      res.writeHead(healthy ? 200 : 503, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ status: healthy ? "ok" : "error", checks }));
+      return;
+    }
+
+    if (req.method === "GET" && path === "/metrics") {
+      res.writeHead(200, { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" });
+      res.end(this.handlers.renderMetrics());
+      return;
+    }
+
+    if (!this.handlers.webhook || req.method !== "POST") {
+      res.writeHead(404);
+      res.end();
+      return;
+    }
+
+    // Путь и заголовок X-Telegram-Bot-Api-Secret-Token проверяет обработчик Telegraf; при несовпадении — 403
+    await this.handlers.webhook(req, res);
+  }
+}
+
+export { HTTPServer, HTTPServerHandlers };
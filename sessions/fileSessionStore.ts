@@ -0,0 +1,102 @@
+import fs from "fs/promises";
+import { SessionData, UserState } from "../types/session";
+import { SessionStore } from "./sessionStore";
+
+class FileSessionStore implements SessionStore {
+  private sessionData: SessionData = {};
+  private loading: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  private writeScheduled = false;
+
+  constructor(private readonly sessionFile: string) {
+    this.loading = this.loadSessions();
+  }
+
+  private async loadSessions(): Promise<void> {
+    try {
+      const data = await fs.readFile(this.sessionFile, "utf8");
+      const parsedData = JSON.parse(data);
+
+      this.sessionData = Object.fromEntries(
+        Object.entries(parsedData).map(([userId, state]: [string, any]) => {
+          if (state.callbackMap && Array.isArray(state.callbackMap)) {
+            state.callbackMap = Object.fromEntries(state.callbackMap);
+          }
+          return [userId, state];
+        })
+      );
+
+      console.log(`Сессии загружены из ${this.sessionFile}`);
+    } catch (error: any) {
+      if (error?.code === "ENOENT") return;
+
+      console.error("Ошибка при загрузке сессий:", error);
+      this.sessionData = {};
+    }
+  }
+
+  // Записи выстраиваются в очередь: пока одна запись идёт, следующая
+  // ставится не более одного раза и сохраняет актуальное состояние целиком
+  private saveSessions(): Promise<void> {
+    if (this.writeScheduled) return this.writing;
+    this.writeScheduled = true;
+
+    this.writing = this.writing.then(async () => {
+      this.writeScheduled = false;
+
+      try {
+        const tmpFile = `${this.sessionFile}.tmp`;
+        await fs.writeFile(tmpFile, JSON.stringify(this.sessionData, null, 2));
+        await fs.rename(tmpFile, this.sessionFile);
+      } catch (error) {
+        console.error("Ошибка при сохранении сессий:", error);
+      }
+    });
+
+    return this.writing;
+  }
+
+  async getUserState(userId: number): Promise<UserState | undefined> {
+    await this.loading;
+    return this.sessionData[userId];
+  }
+
+  async getAllUserStates(): Promise<SessionData> {
+    await this.loading;
+    return { ...this.sessionData };
+  }
+
+  async setUserState(userId: number, state: UserState): Promise<void> {
+    await this.loading;
+    this.sessionData[userId] = state;
+    await this.saveSessions();
+  }
+
+  async updateUserState(userId: number, update: Partial<UserState>): Promise<UserState> {
+    await this.loading;
+    this.sessionData[userId] = { ...this.sessionData[userId], ...update };
+    const state = this.sessionData[userId];
+    await this.saveSessions();
+    return state;
+  }
+
+  async deleteUserState(userId: number): Promise<void> {
+    await this.loading;
+    if (!this.sessionData[userId]) return;
+
+    delete this.sessionData[userId];
+    await this.saveSessions();
+  }
+
+  async clearAllSessions(): Promise<void> {
+    await this.loading;
+    this.sessionData = {};
+    await this.saveSessions();
+  }
+
+  async close(): Promise<void> {
+    await this.writing;
+  }
+}
+
+export { FileSessionStore };
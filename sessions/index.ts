@@ -0,0 +1,28 @@
+import mysql2 from "mysql2/promise";
+import { SessionStore } from "./sessionStore";
+import { FileSessionStore } from "./fileSessionStore";
+import { MySQLSessionStore } from "./mysqlSessionStore";
+import { MemorySessionStore } from "./memorySessionStore";
+
+type SessionStoreType = "file" | "mysql" | "memory";
+
+type SessionStoreOptions = {
+  type: string;
+  sessionFile: string;
+  pool: mysql2.Pool;
+};
+
+function createSessionStore(options: SessionStoreOptions): SessionStore {
+  switch (options.type as SessionStoreType) {
+    case "file":
+      return new FileSessionStore(options.sessionFile);
+    case "mysql":
+      return new MySQLSessionStore(options.pool);
+    case "memory":
+      return new MemorySessionStore();
+    default:
+      throw new Error(`Unknown session store type: ${options.type}`);
+  }
+}
+
+export { SessionStore, FileSessionStore, MySQLSessionStore, MemorySessionStore, createSessionStore };
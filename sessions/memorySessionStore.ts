@@ -0,0 +1,35 @@
+import { SessionData, UserState } from "../types/session";
+import { SessionStore } from "./sessionStore";
+
+class MemorySessionStore implements SessionStore {
+  private sessionData: SessionData = {};
+
+  async getUserState(userId: number): Promise<UserState | undefined> {
+    return this.sessionData[userId];
+  }
+
+  async getAllUserStates(): Promise<SessionData> {
+    return { ...this.sessionData };
+  }
+
+  async setUserState(userId: number, state: UserState): Promise<void> {
+    this.sessionData[userId] = state;
+  }
+
+  async updateUserState(userId: number, update: Partial<UserState>): Promise<UserState> {
+    this.sessionData[userId] = { ...this.sessionData[userId], ...update };
+    return this.sessionData[userId];
+  }
+
+  async deleteUserState(userId: number): Promise<void> {
+    delete this.sessionData[userId];
+  }
+
+  async clearAllSessions(): Promise<void> {
+    this.sessionData = {};
+  }
+
+  async close(): Promise<void> {}
+}
+
+export { MemorySessionStore };
@@ -0,0 +1,63 @@
+import mysql2 from "mysql2/promise";
+import { SessionData, UserState } from "../types/session";
+import { SessionStore } from "./sessionStore";
+import { deleteAllQuery, deleteQuery, getAllQuery, getOneForUpdateQuery, getOneQuery, upsertQuery } from "./queries";
+
+class MySQLSessionStore implements SessionStore {
+  constructor(private readonly pool: mysql2.Pool) {}
+
+  // mysql2 отдаёт JSON-колонку уже распарсенной, но на старых серверах это строка
+  private parseState(state: unknown): UserState {
+    return typeof state === "string" ? JSON.parse(state) : (state as UserState);
+  }
+
+  async getUserState(userId: number): Promise<UserState | undefined> {
+    const [data]: any = await this.pool.query(getOneQuery(), { telegramId: userId });
+
+    return data[0] ? this.parseState(data[0].state) : undefined;
+  }
+
+  async getAllUserStates(): Promise<SessionData> {
+    const [data]: any = await this.pool.query(getAllQuery());
+
+    return Object.fromEntries(data.map((row: any) => [row.telegramId, this.parseState(row.state)]));
+  }
+
+  async setUserState(userId: number, state: UserState): Promise<void> {
+    await this.pool.query(upsertQuery(), { telegramId: userId, state: JSON.stringify(state) });
+  }
+
+  // Блокировка строки не даёт параллельным процессам затереть чужие изменения
+  async updateUserState(userId: number, update: Partial<UserState>): Promise<UserState> {
+    const connection = await this.pool.getConnection();
+
+    try {
+      await connection.beginTransaction();
+
+      const [data]: any = await connection.query(getOneForUpdateQuery(), { telegramId: userId });
+      const state = { ...(data[0] ? this.parseState(data[0].state) : {}), ...update };
+
+      await connection.query(upsertQuery(), { telegramId: userId, state: JSON.stringify(state) });
+      await connection.commit();
+
+      return state;
+    } catch (error) {
+      await connection.rollback();
+      throw error;
+    } finally {
+      connection.release();
+    }
+  }
+
+  async deleteUserState(userId: number): Promise<void> {
+    await this.pool.query(deleteQuery(), { telegramId: userId });
+  }
+
+  async clearAllSessions(): Promise<void> {
+    await this.pool.query(deleteAllQuery());
+  }
+
+  async close(): Promise<void> {}
+}
+
+export { MySQLSessionStore };
@@ -0,0 +1,14 @@
+const getOneQuery = () => `SELECT state FROM sessions WHERE telegramId = :telegramId;`;
+
+const getOneForUpdateQuery = () => `SELECT state FROM sessions WHERE telegramId = :telegramId FOR UPDATE;`;
+
+const getAllQuery = () => `SELECT telegramId, state FROM sessions;`;
+
+const upsertQuery = () =>
+  `INSERT INTO sessions(telegramId, state) VALUES(:telegramId, :state) ON DUPLICATE KEY UPDATE state = VALUES(state);`;
+
+const deleteQuery = () => `DELETE FROM sessions WHERE telegramId = :telegramId;`;
+
+const deleteAllQuery = () => `DELETE FROM sessions;`;
+
+export { getOneQuery, getOneForUpdateQuery, getAllQuery, upsertQuery, deleteQuery, deleteAllQuery };
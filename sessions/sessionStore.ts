@@ -0,0 +1,15 @@
+import { SessionData, UserState } from "../types/session";
+
+interface SessionStore {
+  getUserState(userId: number): Promise<UserState | undefined>;
+  getAllUserStates(): Promise<SessionData>;
+  setUserState(userId: number, state: UserState): Promise<void>;
+  // Частичное обновление должно быть атомарным в рамках хранилища
+  updateUserState(userId: number, update: Partial<UserState>): Promise<UserState>;
+  deleteUserState(userId: number): Promise<void>;
+  clearAllSessions(): Promise<void>;
+  // Дожидается незавершённых записей и освобождает ресурсы
+  close(): Promise<void>;
+}
+
+export { SessionStore };
@@ -0,0 +1,53 @@
+import { execFile } from "child_process";
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import os from "os";
+import path from "path";
+import { promisify } from "util";
+import { SpeechRecognitionError, SpeechRecognizer, TranscriptionRequest } from "./speechRecognizer";
+
+const execFileAsync = promisify(execFile);
+
+type CommandSpeechRecognizerOptions = {
+  // Команда локального распознавателя (whisper.cpp, Vosk) с подстановками {input} — путь к аудиофайлу
+  // и {language} — код языка. Распознанный текст читается из stdout. Оболочка не используется,
+  // поэтому конвертацию ogg → wav для whisper.cpp удобно вынести в отдельный скрипт
+  command: string;
+  // Сколько мс ждать команду, прежде чем остановить её
+  timeout: number;
+};
+
+// Служебные пометки whisper.cpp вроде [BLANK_AUDIO] и (music) — не речь
+const NON_SPEECH_PATTERN = /\[[^\]]*\]|\([^)]*\)/g;
+const MAX_OUTPUT_SIZE = 1024 * 1024;
+
+class CommandSpeechRecognizer implements SpeechRecognizer {
+  constructor(private readonly options: CommandSpeechRecognizerOptions) {}
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    const directory = await mkdtemp(path.join(os.tmpdir(), "voice-"));
+    const input = path.join(directory, request.mimeType === "audio/ogg" ? "voice.ogg" : "voice");
+
+    try {
+      await writeFile(input, request.audio);
+
+      const [file, ...args] = this.options.command
+        .split(/\s+/)
+        .filter(Boolean)
+        .map((arg) => arg.replace("{input}", input).replace("{language}", request.language));
+
+      const { stdout } = await execFileAsync(file, args, {
+        timeout: this.options.timeout,
+        maxBuffer: MAX_OUTPUT_SIZE,
+      });
+
+      return stdout.replace(NON_SPEECH_PATTERN, " ").replace(/\s+/g, " ").trim();
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new SpeechRecognitionError(`Speech recognition command failed: ${reason}`);
+    } finally {
+      await rm(directory, { recursive: true, force: true }).catch(console.log);
+    }
+  }
+}
+
+export { CommandSpeechRecognizer, CommandSpeechRecognizerOptions };
@@ -0,0 +1,28 @@
+import { CommandSpeechRecognizer, CommandSpeechRecognizerOptions } from "./commandSpeechRecognizer";
+import { SpeechRecognitionError, SpeechRecognizer, TranscriptionRequest } from "./speechRecognizer";
+import { StubSpeechRecognizer } from "./stubSpeechRecognizer";
+
+// none — голосовые сообщения не принимаются. StubSpeechRecognizer создаётся напрямую в сценариях harness
+type SpeechRecognizerType = "none" | "command";
+
+function createSpeechRecognizer(type: string, options: CommandSpeechRecognizerOptions): SpeechRecognizer | null {
+  switch (type as SpeechRecognizerType) {
+    case "none":
+      return null;
+    case "command":
+      if (!options.command) throw new Error("SPEECH_COMMAND is required for the command speech recognizer");
+      return new CommandSpeechRecognizer(options);
+    default:
+      throw new Error(`Unknown speech recognizer type: ${type}`);
+  }
+}
+
+export {
+  CommandSpeechRecognizer,
+  CommandSpeechRecognizerOptions,
+  SpeechRecognitionError,
+  SpeechRecognizer,
+  StubSpeechRecognizer,
+  TranscriptionRequest,
+  createSpeechRecognizer,
+};
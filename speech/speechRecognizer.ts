@@ -0,0 +1,23 @@
+import { Locale } from "../i18n";
+
+type TranscriptionRequest = {
+  audio: Buffer;
+  // Язык интерфейса пользователя; распознаватель может подсказать его модели
+  language: Locale;
+  // Голосовые сообщения Telegram — audio/ogg с кодеком Opus
+  mimeType: string;
+};
+
+interface SpeechRecognizer {
+  // Текст сообщения; пустая строка — речь не распознана
+  transcribe(request: TranscriptionRequest): Promise<string>;
+}
+
+class SpeechRecognitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export { SpeechRecognizer, SpeechRecognitionError, TranscriptionRequest };
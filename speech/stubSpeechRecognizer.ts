@@ -0,0 +1,21 @@
+import { SpeechRecognizer, TranscriptionRequest } from "./speechRecognizer";
+
+// Для сценариев из harness и ручной проверки без модели: отдаёт заданный текст или ошибку
+class StubSpeechRecognizer implements SpeechRecognizer {
+  readonly requests: TranscriptionRequest[] = [];
+
+  constructor(private result: string | Error = "") {}
+
+  setResult(result: string | Error): void {
+    this.result = result;
+  }
+
+  async transcribe(request: TranscriptionRequest): Promise<string> {
+    this.requests.push(request);
+    if (this.result instanceof Error) throw this.result;
+
+    return this.result;
+  }
+}
+
+export { StubSpeechRecognizer };
@@ -0,0 +1,165 @@
+import assert from "assert";
+import { readFileSync } from "fs";
+import path from "path";
+import { test } from "node:test";
+import { API_CONTRACTS } from "../repositories/apiRepository/contracts";
+import { Schema, SchemaError } from "../repositories/apiRepository/schema";
+
+// Записанные ответы API v1: /diagnoses/similar, /diagnoses/:diagnosis/sections и /diagnoses/:diagnosis/sections/:section
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "api", "v1");
+
+const contract = API_CONTRACTS.v1;
+
+function readFixture(name: string): any {
+  return JSON.parse(readFileSync(path.join(FIXTURES_DIR, name), "utf8"));
+}
+
+function assertSchemaError(schema: Schema<unknown>, body: unknown, errorPath: string, expected: string): void {
+  assert.throws(
+    () => schema(body, "response"),
+    (error) => error instanceof SchemaError && error.path === errorPath && error.expected === expected
+  );
+}
+
+test("/diagnoses/similar: список названий", () => {
+  assert.deepStrictEqual(contract.similarDiagnoses(readFixture("diagnoses-similar.json"), "response"), [
+    { id: "Бронхиальная астма", name: "Бронхиальная астма", icd: null },
+    { id: "Астма физического усилия", name: "Астма физического усилия", icd: null },
+    { id: "Аспириновая астма", name: "Аспириновая астма", icd: null },
+  ]);
+});
+
+test("/diagnoses/similar: объекты с id и кодом МКБ, лишние поля игнорируются", () => {
+  assert.deepStrictEqual(contract.similarDiagnoses(readFixture("diagnoses-similar-objects.json"), "response"), [
+    { id: "17", name: "Бронхиальная астма", icd: "J45.0, J45.1" },
+    { id: "asthma-exercise", name: "Астма физического усилия", icd: null },
+    { id: "42", name: "Аспириновая астма", icd: null },
+  ]);
+});
+
+test("/sections: названия разделов в порядке ответа", () => {
+  assert.deepStrictEqual(contract.sections(readFixture("sections.json"), "response"), [
+    { id: "МКБ", title: "МКБ", order: 0 },
+    { id: "Определение", title: "Определение", order: 1 },
+    { id: "Диагностика", title: "Диагностика", order: 2 },
+    { id: "Лечение", title: "Лечение", order: 3 },
+  ]);
+});
+
+test("/sections: объекты сортируются по order", () => {
+  assert.deepStrictEqual(contract.sections(readFixture("sections-objects.json"), "response"), [
+    { id: "1", title: "МКБ", order: 10 },
+    { id: "diagnostics", title: "Диагностика", order: 20 },
+    { id: "3", title: "Лечение", order: 30 },
+  ]);
+});
+
+test("/sections/:section: содержимое раздела", () => {
+  const body = readFixture("section.json");
+  assert.strictEqual(contract.section(body, "response"), body.content);
+});
+
+// Каждый ответ портится в одном месте; ошибка должна указывать именно на него
+const BROKEN: {
+  name: string;
+  schema: Schema<unknown>;
+  fixture: string;
+  breaks: (body: any) => unknown;
+  path: string;
+  expected: string;
+}[] = [
+  {
+    name: "/diagnoses/similar без diagnoses",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar.json",
+    breaks: () => ({}),
+    path: "response.diagnoses",
+    expected: "array",
+  },
+  {
+    name: "/diagnoses/similar: diagnoses — объект",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar.json",
+    breaks: (body) => ({ diagnoses: { ...body.diagnoses } }),
+    path: "response.diagnoses",
+    expected: "array",
+  },
+  {
+    name: "/diagnoses/similar: число вместо названия",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar.json",
+    breaks: (body) => ({ diagnoses: [body.diagnoses[0], 5] }),
+    path: "response.diagnoses[1]",
+    expected: "string | object",
+  },
+  {
+    name: "/diagnoses/similar: объект без name",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar-objects.json",
+    breaks: (body) => ({ diagnoses: [{ id: body.diagnoses[0].id, icd: body.diagnoses[0].icd }] }),
+    path: "response.diagnoses[0].name",
+    expected: "string",
+  },
+  {
+    name: "/diagnoses/similar: код МКБ — массив",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar-objects.json",
+    breaks: (body) => ({ diagnoses: [{ ...body.diagnoses[0], icd: ["J45.0"] }] }),
+    path: "response.diagnoses[0].icd",
+    expected: "string",
+  },
+  {
+    name: "ответ — массив вместо объекта",
+    schema: contract.similarDiagnoses,
+    fixture: "diagnoses-similar.json",
+    breaks: (body) => body.diagnoses,
+    path: "response",
+    expected: "object",
+  },
+  {
+    name: "/sections без sections",
+    schema: contract.sections,
+    fixture: "sections.json",
+    breaks: () => ({ error: "Diagnosis not found" }),
+    path: "response.sections",
+    expected: "array",
+  },
+  {
+    name: "/sections: null вместо названия",
+    schema: contract.sections,
+    fixture: "sections.json",
+    breaks: (body) => ({ sections: [...body.sections, null] }),
+    path: "response.sections[4]",
+    expected: "string | object",
+  },
+  {
+    name: "/sections: order строкой",
+    schema: contract.sections,
+    fixture: "sections-objects.json",
+    breaks: (body) => ({ sections: [{ ...body.sections[0], order: "30" }] }),
+    path: "response.sections[0].order",
+    expected: "number",
+  },
+  {
+    name: "/sections/:section без content",
+    schema: contract.section,
+    fixture: "section.json",
+    breaks: (body) => ({ updatedAt: body.updatedAt }),
+    path: "response.content",
+    expected: "string",
+  },
+  {
+    name: "/sections/:section: content — массив строк",
+    schema: contract.section,
+    fixture: "section.json",
+    breaks: (body) => ({ content: body.content.split("\n") }),
+    path: "response.content",
+    expected: "string",
+  },
+];
+
+for (const { name, schema, fixture, breaks, path: errorPath, expected } of BROKEN) {
+  test(`сломанный ответ: ${name}`, () => {
+    assertSchemaError(schema, breaks(readFixture(fixture)), errorPath, expected);
+  });
+}
@@ -0,0 +1,23 @@
+import assert from "assert";
+import { test } from "node:test";
+import { createHarness } from "../harness";
+
+test("запрос диагноза кодируется в URL один раз", async () => {
+  const harness = await createHarness({ "Бронхиальная астма": { Лечение: "Ингаляции" } });
+  const { repositories, knowledgeBase } = harness;
+  const query = "астма & 100% + ?";
+
+  try {
+    const diagnoses = await repositories.apiRepository.getDiagnoses(query);
+    assert.deepStrictEqual(
+      diagnoses.map((diagnosis) => diagnosis.name),
+      ["Бронхиальная астма"]
+    );
+
+    const request = knowledgeBase.requests.find((item) => item.startsWith("GET /diagnoses/similar"));
+    assert.ok(request);
+    assert.strictEqual(new URL(request.split(" ")[1], "http://localhost").searchParams.get("diagnosis"), query);
+  } finally {
+    await harness.stop();
+  }
+});
@@ -0,0 +1,48 @@
+import assert from "assert";
+import { test } from "node:test";
+import { BroadcastSender } from "../broadcasts";
+import { createHarness } from "../harness";
+
+const OPTIONS = { rate: 1000, batchSize: 1 };
+
+async function waitForCompletion(check: () => Promise<boolean>): Promise<void> {
+  for (let attempt = 0; attempt < 100; attempt++) {
+    if (await check()) return;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  throw new Error("Рассылка не завершилась");
+}
+
+test("незавершённую рассылку продолжает только один процесс", async () => {
+  const harness = await createHarness({});
+  const { repositories, telegram, telegramAPI, user } = harness;
+
+  try {
+    await user.sendText("/start");
+    await harness.createUser({ id: 100002, is_bot: false, first_name: "Второй" }).sendText("/start");
+
+    const broadcastId = await repositories.broadcastsRepository.create({
+      adminTelegramId: user.user.id,
+      sourceChatId: user.user.id,
+      sourceMessageId: 1,
+      segmentDays: null,
+    });
+
+    // Два процесса бота запущены одновременно, например при перезапуске, и оба возобновляют рассылки
+    const senders = [
+      new BroadcastSender(telegram, repositories, OPTIONS),
+      new BroadcastSender(telegram, repositories, OPTIONS),
+    ];
+    await Promise.all(senders.map((sender) => sender.resume()));
+    await waitForCompletion(
+      async () => (await repositories.broadcastsRepository.getOne(broadcastId))?.status === "completed"
+    );
+    await Promise.all(senders.map((sender) => sender.stop()));
+
+    const copies = telegramAPI.getCalls("copyMessage").map((call) => Number(call.payload.chat_id));
+    assert.deepStrictEqual(copies.sort(), [100001, 100002]);
+  } finally {
+    await harness.stop();
+  }
+});
@@ -0,0 +1,110 @@
+import assert from "assert";
+import { test } from "node:test";
+import { parseVersionedCallback, resolveCallback, storeCallback, versionCallback, versioned } from "../conversation";
+import { createHarness } from "../harness";
+import { createTranslator } from "../i18n";
+import { CallbackMap } from "../types/session";
+
+// Те же значения, что у бота
+const OPTIONS = { limit: 200, ttl: 24 * 60 * 60 * 1000 };
+const NOW = Date.UTC(2026, 0, 1);
+
+const t = createTranslator("ru");
+
+test("значение читается до истечения срока жизни", () => {
+  const map = storeCallback(undefined, "diagnosis:a", "Бронхиальная астма", OPTIONS, NOW);
+
+  assert.strictEqual(resolveCallback(map, "diagnosis:a", NOW), "Бронхиальная астма");
+  assert.strictEqual(resolveCallback(map, "diagnosis:a", NOW + OPTIONS.ttl - 1), "Бронхиальная астма");
+  assert.strictEqual(resolveCallback(map, "diagnosis:a", NOW + OPTIONS.ttl), null);
+  assert.strictEqual(resolveCallback(map, "diagnosis:b", NOW), null);
+  assert.strictEqual(resolveCallback(undefined, "diagnosis:a", NOW), null);
+});
+
+test("просроченные значения удаляются при следующей записи", () => {
+  const first = storeCallback(undefined, "diagnosis:old", "Пневмония", OPTIONS, NOW);
+  const second = storeCallback(first, "diagnosis:new", "Бронхит", OPTIONS, NOW + OPTIONS.ttl);
+
+  assert.deepStrictEqual(Object.keys(second), ["diagnosis:new"]);
+});
+
+test("повторная запись продлевает срок жизни и делает значение самым новым", () => {
+  let map = storeCallback(undefined, "diagnosis:a", "Астма", OPTIONS, NOW);
+  map = storeCallback(map, "diagnosis:b", "Бронхит", OPTIONS, NOW);
+  map = storeCallback(map, "diagnosis:a", "Астма", OPTIONS, NOW + 1000);
+
+  assert.deepStrictEqual(Object.keys(map), ["diagnosis:b", "diagnosis:a"]);
+  assert.strictEqual(map["diagnosis:a"].expiresAt, NOW + 1000 + OPTIONS.ttl);
+});
+
+test("при переполнении вытесняются самые старые значения", () => {
+  let map: CallbackMap | undefined;
+  for (let i = 0; i < OPTIONS.limit + 5; i++) {
+    map = storeCallback(map, `section:${i}`, `Раздел ${i}`, OPTIONS, NOW + i);
+  }
+
+  const keys = Object.keys(map!);
+  assert.strictEqual(keys.length, OPTIONS.limit);
+  assert.strictEqual(keys[0], "section:5");
+  assert.strictEqual(keys[keys.length - 1], `section:${OPTIONS.limit + 4}`);
+  assert.strictEqual(resolveCallback(map, "section:4", NOW), null);
+  assert.strictEqual(resolveCallback(map, "section:5", NOW), "Раздел 5");
+});
+
+test("значения из старых сессий без срока жизни не читаются и выбрасываются", () => {
+  const legacy = { "diagnosis:a": "Астма" } as unknown as CallbackMap;
+
+  assert.strictEqual(resolveCallback(legacy, "diagnosis:a", NOW), null);
+  assert.deepStrictEqual(Object.keys(storeCallback(legacy, "diagnosis:b", "Бронхит", OPTIONS, NOW)), ["diagnosis:b"]);
+});
+
+test("версия и действие кнопки разбираются обратно", () => {
+  const data = versionCallback(12, "select_section:abc:def");
+
+  assert.strictEqual(data, "v12:select_section:abc:def");
+  assert.deepStrictEqual(parseVersionedCallback(data), { version: 12, action: "select_section:abc:def" });
+});
+
+test("кнопки без версии не разбираются как версионные", () => {
+  for (const data of ["new_diagnosis", "open_diagnosis:abc", "v:back_to_sections", "vx:back_to_sections", "v1:"]) {
+    assert.strictEqual(parseVersionedCallback(data), null, data);
+  }
+});
+
+test("шаблон с версией совпадает с любой версией, группы те же, что без версии", () => {
+  const pattern = versioned("select_section:(.+)");
+
+  assert.strictEqual("v0:select_section:abc".match(pattern)?.[1], "abc");
+  assert.strictEqual("v42:select_section:abc".match(pattern)?.[1], "abc");
+  assert.strictEqual("select_section:abc".match(pattern), null);
+  assert.strictEqual("v1:back_to_sections".match(pattern), null);
+});
+
+test("кнопка из сообщения с устаревшей версией отклоняется, а с текущей работает", async () => {
+  const harness = await createHarness({ "Бронхиальная астма": { Лечение: "Ингаляции", Диагностика: "Спирометрия" } });
+  const { user } = harness;
+
+  try {
+    await user.sendText("/start");
+    await user.clickButton(t("button.enterDiagnosis"));
+    await user.sendText("астма");
+
+    const options = user.lastMessage()!;
+    const diagnosisButton = options.reply_markup?.inline_keyboard
+      .flat()
+      .find((button) => button.text.endsWith("Бронхиальная астма"));
+    assert.ok(diagnosisButton);
+    await user.clickButton(diagnosisButton.text, options);
+
+    const sections = user.lastMessage()!;
+    await user.clickButton(t("section.treatment"), sections);
+    assert.ok(user.lastMessage()?.text?.includes("Ингаляции"));
+
+    // Список диагнозов отправлен до двух переходов
+    await user.clickButton(diagnosisButton.text, options);
+    assert.strictEqual(user.lastCallbackAnswer(), t("errors.staleButton"));
+    assert.ok(user.lastMessage()?.text?.includes("Ингаляции"));
+  } finally {
+    await harness.stop();
+  }
+});
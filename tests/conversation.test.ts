@@ -0,0 +1,151 @@
+import assert from "assert";
+import { test } from "node:test";
+import { createHarness, KnowledgeBaseData } from "../harness";
+import { createTranslator } from "../i18n";
+
+const t = createTranslator("ru");
+
+// В списке значок берётся из справочника МКБ, а в заголовке разделов — из раздела «МКБ» рекомендации
+const ASTHMA_BUTTON = "J45 · Бронхиальная астма";
+
+const KNOWLEDGE_BASE: KnowledgeBaseData = {
+  "Бронхиальная астма": {
+    Диагностика: "## Спирометрия\nОбратимость обструкции: прирост **ОФВ1** ≥ 12% после бронхолитика.",
+    Лечение: "- Ингаляционные глюкокортикостероиды\n- Сальбутамол по потребности, дозировка у детей 100 мкг",
+    МКБ: "J45.0 Астма с преобладанием аллергического компонента\nJ45.1 Неаллергическая астма",
+  },
+  "Астма физического усилия": {
+    Диагностика: "Нагрузочный тест с измерением ОФВ1 до и после нагрузки.",
+  },
+  "Острый гастрит": {
+    Лечение: "Щадящая диета, ингибиторы протонной помпы.",
+  },
+};
+
+// Сквозной сценарий без сети и MySQL: поиск → выбор диагноза → раздел → назад → новый диагноз,
+// затем ошибки API
+test("сквозной сценарий диалога", async () => {
+  const harness = await createHarness(KNOWLEDGE_BASE, { apiTimeout: 300 });
+  const { user, knowledgeBase } = harness;
+
+  try {
+    await user.sendText("/start");
+    assert.ok(user.lastMessage()?.text?.startsWith("👋"));
+
+    await user.clickButton(t("button.enterDiagnosis"));
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.ask"));
+
+    await user.sendText("астма");
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.found", { count: 2 }));
+
+    const diagnosisOptions = user.lastMessage()!;
+    assert.ok(
+      user
+        .lastMessage()
+        ?.reply_markup?.inline_keyboard.flat()
+        .some((b) => b.text === ASTHMA_BUTTON)
+    );
+    await user.clickButton(ASTHMA_BUTTON);
+    assert.ok(user.lastMessage()?.text?.endsWith(t("sections.title")));
+    assert.ok(user.lastMessage()?.text?.includes("J45.0, J45.1"));
+
+    await user.clickButton(t("section.diagnostics"));
+    assert.ok(user.lastMessage()?.text?.includes("ОФВ1"));
+
+    await user.clickButton(t("button.backToSections"));
+    assert.ok(user.lastMessage()?.text?.endsWith(t("sections.title")));
+
+    await user.clickButton(t("button.subscribe"));
+    assert.strictEqual(user.lastCallbackAnswer(), t("subscriptions.added"));
+    assert.ok(
+      user
+        .lastMessage()
+        ?.reply_markup?.inline_keyboard.flat()
+        .some((b) => b.text === t("button.unsubscribe"))
+    );
+
+    await user.sendText("дозировка у детей");
+    assert.ok(user.lastMessage()?.text?.includes("Сальбутамол"));
+
+    // Список найденных диагнозов остался от прошлого состояния диалога
+    await user.clickButton("Астма физического усилия", diagnosisOptions);
+    assert.strictEqual(user.lastCallbackAnswer(), t("errors.staleButton"));
+
+    await user.clickButton(t("button.newDiagnosis"));
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.ask"));
+
+    await user.sendText("перелом");
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.noResults"));
+
+    // «астма» в английской раскладке; диагнозы уже попали в локальный указатель после первого поиска
+    await user.sendText("fcnvf");
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.suggestions"));
+
+    harness.speechRecognizer.setResult("бронхиальная астма");
+    await user.sendVoice(5);
+    assert.ok(user.lastMessage()?.text?.includes("<b>бронхиальная астма</b>"));
+
+    await user.clickButton(t("button.voiceSearch"));
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.found", { count: 2 }));
+
+    await user.sendVoice(120);
+    assert.strictEqual(user.lastMessage()?.text, t("voice.tooLong", { seconds: 30 }));
+
+    await user.sendVoice(5, 1024 * 1024);
+    assert.strictEqual(user.lastMessage()?.text, t("voice.tooLarge"));
+
+    harness.speechRecognizer.setResult(new Error("Распознаватель недоступен"));
+    await user.sendVoice(5);
+    assert.strictEqual(user.lastMessage()?.text, t("voice.failed"));
+
+    await user.sendText("/icd J45.0");
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.found", { count: 1 }));
+
+    // Код набран в русской раскладке: «Е» кириллическая
+    await user.sendText("Е11");
+    assert.strictEqual(
+      user.lastMessage()?.text,
+      t("icd.noResultsNamed", { code: "E11", name: "Инсулиннезависимый сахарный диабет" })
+    );
+
+    knowledgeBase.setFailure({ status: 500 });
+    await user.sendText("гастрит");
+    assert.strictEqual(user.lastMessage()?.text, t("errors.search"));
+
+    // Запрос, которого ещё нет в кэше API
+    await user.sendText("астма бронхиальная");
+    assert.strictEqual(user.lastMessage()?.text, t("diagnosis.offline"));
+
+    knowledgeBase.setFailure({ delay: 1000 });
+    await user.sendText("острый гастрит");
+    assert.strictEqual(user.lastMessage()?.text, t("errors.apiTimeout"));
+
+    knowledgeBase.setFailure(null);
+    await user.sendText("гастрит");
+    await user.clickButton("K29.1 · Острый гастрит");
+    knowledgeBase.setFailure({ status: 500 });
+    await user.clickButton(t("section.treatment"));
+    assert.strictEqual(user.lastMessage()?.text, t("errors.load"));
+
+    // Первая проверка запоминает содержимое, вторая находит правку в разделе «Лечение»
+    knowledgeBase.setFailure(null);
+    await harness.guidelineWatcher.check();
+    KNOWLEDGE_BASE["Бронхиальная астма"].Лечение =
+      "- Ингаляционные глюкокортикостероиды\n- Будесонид-формотерол по потребности вместо сальбутамола";
+    await harness.guidelineWatcher.check();
+
+    const notification = user.lastMessage()!;
+    assert.ok(notification.text?.startsWith(t("updates.title", { diagnosis: "Бронхиальная астма" })));
+    assert.ok(notification.text?.includes("+ • Будесонид-формотерол по потребности вместо сальбутамола"));
+    assert.ok(notification.text?.includes("− • Сальбутамол по потребности, дозировка у детей 100 мкг"));
+
+    await user.clickButton(t("button.openGuideline"), notification);
+    assert.ok(user.lastMessage()?.text?.endsWith(t("sections.title")));
+
+    await user.clickButton(t("button.unsubscribe"), notification);
+    assert.strictEqual(user.lastCallbackAnswer(), t("subscriptions.removed"));
+    assert.strictEqual((await harness.repositories.subscriptionsRepository.getDiagnoses()).length, 0);
+  } finally {
+    await harness.stop();
+  }
+});
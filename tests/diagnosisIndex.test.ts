@@ -0,0 +1,44 @@
+import assert from "assert";
+import { test } from "node:test";
+import { DiagnosisIndex } from "../diagnosisIndex";
+import { normalizeText } from "../diagnosisIndex/fuzzy";
+
+function createIndex(names: string[]): DiagnosisIndex {
+  const index = new DiagnosisIndex({ upsert: async () => {}, getAll: async () => [] }, { loadLimit: 0 });
+  index.add(names.map((name) => ({ id: name, name, icd: null })));
+  return index;
+}
+
+function search(index: DiagnosisIndex, query: string): string[] {
+  return index.search(query, 5).map((diagnosis) => diagnosis.name);
+}
+
+test("нормализация сохраняет казахские буквы и убирает знаки препинания", () => {
+  assert.strictEqual(normalizeText("Өкпенің қабынуы (пневмония)"), "өкпенің қабынуы пневмония");
+  assert.strictEqual(normalizeText("ӘҒҚҢӨҰҮҺІ"), "әғқңөұүһі");
+  assert.strictEqual(normalizeText("Ёлка, J45.0!"), "елка j45 0");
+});
+
+test("поиск по казахскому названию", () => {
+  const index = createIndex(["Өкпенің қабынуы", "Бронх демікпесі", "Бронхиальная астма"]);
+
+  assert.deepStrictEqual(search(index, "қабынуы"), ["Өкпенің қабынуы"]);
+  assert.deepStrictEqual(search(index, "демікпе"), ["Бронх демікпесі"]);
+});
+
+test("поиск с опечаткой, в другой раскладке и по началу слова", () => {
+  const index = createIndex(["Бронхиальная астма", "Острый гастрит", "Хронический гастрит"]);
+
+  assert.strictEqual(search(index, "бронхиальная асмта")[0], "Бронхиальная астма");
+  assert.strictEqual(search(index, ",hjy[bfkmyfz")[0], "Бронхиальная астма");
+  assert.deepStrictEqual(search(index, "гастр").sort(), ["Острый гастрит", "Хронический гастрит"]);
+});
+
+test("в большом указателе полностью оцениваются диагнозы с наибольшим числом общих триграмм", () => {
+  const names = Array.from({ length: 20000 }, (_, i) => `Астма тип ${i}`);
+  const index = createIndex([...names, "Бронхиальная астма"]);
+
+  assert.strictEqual(search(index, "бронхиальная астма")[0], "Бронхиальная астма");
+  assert.strictEqual(search(index, "бронхиальная асмта")[0], "Бронхиальная астма");
+  assert.deepStrictEqual(search(index, "пневмония"), []);
+});
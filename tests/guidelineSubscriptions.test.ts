@@ -0,0 +1,82 @@
+import assert from "assert";
+import { test } from "node:test";
+import { KnowledgeBaseData, createHarness } from "../harness";
+import { createTranslator } from "../i18n";
+
+const DIAGNOSIS = "Бронхиальная астма";
+
+const t = createTranslator("ru");
+
+test("пока аренда у другого процесса, рекомендации не проверяются", async () => {
+  const harness = await createHarness({ [DIAGNOSIS]: { Лечение: "Ингаляции" } });
+  const { repositories, guidelineWatcher, user } = harness;
+
+  try {
+    await user.sendText("/start");
+    await repositories.subscriptionsRepository.create({ clientTelegramId: user.user.id, diagnosis: DIAGNOSIS });
+
+    assert.ok(await repositories.leasesRepository.acquire("guideline_watcher", "другой процесс", 60 * 1000));
+    await guidelineWatcher.check();
+    assert.deepStrictEqual(await repositories.guidelineSnapshotsRepository.getAll(DIAGNOSIS), []);
+
+    await repositories.leasesRepository.release("guideline_watcher", "другой процесс");
+    await guidelineWatcher.check();
+    assert.deepStrictEqual(
+      (await repositories.guidelineSnapshotsRepository.getAll(DIAGNOSIS)).map((snapshot) => snapshot.section),
+      ["Лечение"]
+    );
+
+    // После проверки аренда свободна
+    assert.ok(await repositories.leasesRepository.acquire("guideline_watcher", "другой процесс", 60 * 1000));
+  } finally {
+    await harness.stop();
+  }
+});
+
+test("рекомендация без видимых разделов тоже считается проверенной, и о появившихся разделах сообщается", async () => {
+  const knowledgeBase: KnowledgeBaseData = {
+    [DIAGNOSIS]: { МКБ: "J45.0 Астма с преобладанием аллергического компонента" },
+  };
+  const harness = await createHarness(knowledgeBase);
+  const { repositories, guidelineWatcher, user } = harness;
+
+  try {
+    await user.sendText("/start");
+    await repositories.subscriptionsRepository.create({ clientTelegramId: user.user.id, diagnosis: DIAGNOSIS });
+    await guidelineWatcher.check();
+
+    assert.deepStrictEqual(await repositories.guidelineSnapshotsRepository.getAll(DIAGNOSIS), []);
+    assert.deepStrictEqual(
+      (await repositories.guidelineSnapshotsRepository.getCheckedAt()).map((check) => check.diagnosis),
+      [DIAGNOSIS]
+    );
+
+    knowledgeBase[DIAGNOSIS].Лечение = "Ингаляции";
+    await guidelineWatcher.check();
+
+    const notification = user.lastMessage()?.text;
+    assert.ok(notification?.startsWith(t("updates.title", { diagnosis: DIAGNOSIS })), notification);
+    assert.ok(notification?.includes(t("updates.sectionAdded", { section: "Лечение" })), notification);
+  } finally {
+    await harness.stop();
+  }
+});
+
+test("одновременные подписки на один диагноз создают одну запись", async () => {
+  const harness = await createHarness({ [DIAGNOSIS]: { Лечение: "Ингаляции" } });
+  const { repositories, user } = harness;
+  const subscription = { clientTelegramId: user.user.id, diagnosis: DIAGNOSIS };
+
+  try {
+    await user.sendText("/start");
+    const created = await Promise.all([
+      repositories.subscriptionsRepository.create(subscription),
+      repositories.subscriptionsRepository.create(subscription),
+    ]);
+
+    assert.deepStrictEqual(created.sort(), [false, true]);
+    assert.strictEqual((await repositories.subscriptionsRepository.getSubscribers(DIAGNOSIS)).length, 1);
+  } finally {
+    await harness.stop();
+  }
+});
@@ -0,0 +1,82 @@
+import assert from "assert";
+import { readFileSync, readdirSync } from "fs";
+import path from "path";
+import { test } from "node:test";
+import { createHarness } from "../harness";
+import { createTranslator } from "../i18n";
+import { renderMarkdown, toPlainText } from "../utils/markdownRenderer";
+
+// Эталоны: <name>.md — фрагмент раздела, <name>.html — ответ renderMarkdown, <name>.txt — ответ toPlainText.
+// После намеренного изменения рендера эталоны пересматриваются вручную, а не перезаписываются вслепую
+const FIXTURES_DIR = path.join(__dirname, "fixtures", "markdown");
+
+const t = createTranslator("ru");
+
+function readFixture(name: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, name), "utf8");
+}
+
+// Последний перевод строки в эталоне добавлен редактором, рендер его не выводит
+function readExpected(name: string): string {
+  return readFixture(name).replace(/\n$/, "");
+}
+
+const samples = readdirSync(FIXTURES_DIR)
+  .filter((file) => file.endsWith(".md"))
+  .map((file) => file.slice(0, -".md".length));
+
+test("эталоны найдены", () => {
+  assert.ok(samples.length > 0);
+});
+
+for (const sample of samples) {
+  test(`renderMarkdown: ${sample}`, () => {
+    assert.strictEqual(renderMarkdown(readFixture(`${sample}.md`)), readExpected(`${sample}.html`));
+  });
+
+  test(`toPlainText: ${sample}`, () => {
+    assert.strictEqual(toPlainText(readFixture(`${sample}.md`)), readExpected(`${sample}.txt`));
+  });
+}
+
+test("спецсимволы HTML экранируются, а _ * [ без пары остаются текстом", () => {
+  assert.strictEqual(renderMarkdown("a < b & c > d [ссылка _ и * одна"), "a &lt; b &amp; c &gt; d [ссылка _ и * одна");
+});
+
+test("неправильно вложенное выделение не даёт перекрывающихся тегов", () => {
+  const html = renderMarkdown("**жирный _курсив** текст_ и *курсив **жирный* текст**");
+  const stack: string[] = [];
+
+  for (const [, closing, tag] of Array.from(html.matchAll(/<(\/?)(\w+)[^>]*>/g))) {
+    if (!closing) stack.push(tag);
+    else assert.strictEqual(stack.pop(), tag, html);
+  }
+
+  assert.deepStrictEqual(stack, []);
+});
+
+test("если Telegram не принял HTML, раздел отправляется простым текстом", async () => {
+  const markdown = readFixture("treatment.md");
+  const harness = await createHarness({ "Бронхиальная астма": { Лечение: markdown } });
+  const { user, telegramAPI } = harness;
+
+  try {
+    await user.sendText("/start");
+    await user.clickButton(t("button.enterDiagnosis"));
+    await user.sendText("астма");
+
+    const diagnosisButton = user
+      .lastMessage()
+      ?.reply_markup?.inline_keyboard.flat()
+      .find((button) => button.text.endsWith("Бронхиальная астма"));
+    assert.ok(diagnosisButton);
+    await user.clickButton(diagnosisButton.text);
+
+    telegramAPI.rejectHTML("ингаляционный глюкокортикостероид");
+    await user.clickButton(t("section.treatment"));
+
+    assert.strictEqual(user.lastMessage()?.text, `${t("section.treatment")}\n\n${readExpected("treatment.txt")}`);
+  } finally {
+    await harness.stop();
+  }
+});
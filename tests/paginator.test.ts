@@ -0,0 +1,37 @@
+import assert from "assert";
+import { test } from "node:test";
+import { renderMarkdown } from "../utils/markdownRenderer";
+import { paginate } from "../utils/paginator";
+
+const LIMIT = 1000;
+
+test("блок кода, разрезанный между страницами, открывается заново с новой строки", () => {
+  const lines = Array.from({ length: 100 }, (_, i) => `строка кода ${i}`);
+  const pages = paginate("```\n" + lines.join("\n") + "\n```", LIMIT);
+
+  assert.ok(pages.length > 1);
+  for (const page of pages) {
+    assert.ok(page.startsWith("```\n"), page.slice(0, 20));
+    assert.ok(page.endsWith("\n```"), page.slice(-20));
+  }
+
+  const restored = pages.map((page) => page.slice("```\n".length, -"\n```".length).trim().split("\n"));
+  assert.deepStrictEqual(restored.flat(), lines);
+});
+
+test("страницы вместе с маркерами и после рендеринга в HTML не длиннее лимита", () => {
+  const paragraphs = Array.from(
+    { length: 30 },
+    (_, i) => `**Абзац ${i}:** ОФВ1 < 80% & ОФВ1/ФЖЕЛ < 0,7 — «обструкция»`
+  );
+  const text = paragraphs.join("\n\n");
+  const measure = (page: string) => renderMarkdown(page).length;
+
+  assert.ok(paginate(text, LIMIT).some((page) => measure(page) > LIMIT));
+
+  const pages = paginate(text, LIMIT, measure);
+  for (const page of pages) {
+    assert.ok(measure(page) <= LIMIT, `${measure(page)}`);
+  }
+  assert.deepStrictEqual(pages.join("\n\n"), text);
+});
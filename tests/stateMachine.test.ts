@@ -0,0 +1,82 @@
+import assert from "assert";
+import { test } from "node:test";
+import { ConversationEvent, INITIAL_STATE, hasDiagnosis, nextState } from "../conversation";
+import { ConversationState } from "../types/session";
+
+const STATES: ConversationState[] = [
+  "idle",
+  "awaiting_diagnosis",
+  "choosing_diagnosis",
+  "browsing_sections",
+  "reading_section",
+];
+
+// Все разрешённые переходы; любая пара (состояние, событие) вне таблицы должна быть запрещена
+const ALLOWED: { [event in ConversationEvent]: Partial<Record<ConversationState, ConversationState>> } = {
+  start: {
+    idle: "idle",
+    awaiting_diagnosis: "idle",
+    choosing_diagnosis: "idle",
+    browsing_sections: "idle",
+    reading_section: "idle",
+  },
+  ask_diagnosis: {
+    idle: "awaiting_diagnosis",
+    awaiting_diagnosis: "awaiting_diagnosis",
+    choosing_diagnosis: "awaiting_diagnosis",
+    browsing_sections: "awaiting_diagnosis",
+    reading_section: "awaiting_diagnosis",
+  },
+  show_diagnoses: {
+    idle: "choosing_diagnosis",
+    awaiting_diagnosis: "choosing_diagnosis",
+    choosing_diagnosis: "choosing_diagnosis",
+  },
+  select_diagnosis: {
+    choosing_diagnosis: "browsing_sections",
+  },
+  open_diagnosis: {
+    idle: "browsing_sections",
+    awaiting_diagnosis: "browsing_sections",
+    choosing_diagnosis: "browsing_sections",
+    browsing_sections: "browsing_sections",
+    reading_section: "browsing_sections",
+  },
+  select_section: {
+    browsing_sections: "reading_section",
+    reading_section: "reading_section",
+  },
+  open_section: {
+    idle: "reading_section",
+    awaiting_diagnosis: "reading_section",
+    choosing_diagnosis: "reading_section",
+    browsing_sections: "reading_section",
+    reading_section: "reading_section",
+  },
+  back_to_sections: {
+    browsing_sections: "browsing_sections",
+    reading_section: "browsing_sections",
+  },
+};
+
+for (const event of Object.keys(ALLOWED) as ConversationEvent[]) {
+  for (const state of STATES) {
+    const expected = ALLOWED[event][state] ?? null;
+
+    test(`${state} -> ${event}: ${expected ?? "запрещено"}`, () => {
+      assert.strictEqual(nextState(state, event), expected);
+    });
+  }
+}
+
+test("диалог начинается без выбранного диагноза", () => {
+  assert.strictEqual(INITIAL_STATE, "idle");
+  assert.strictEqual(hasDiagnosis(INITIAL_STATE), false);
+});
+
+test("диагноз выбран только при просмотре разделов и чтении раздела", () => {
+  assert.deepStrictEqual(
+    STATES.filter((state) => hasDiagnosis(state)),
+    ["browsing_sections", "reading_section"]
+  );
+});
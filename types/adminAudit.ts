@@ -0,0 +1,9 @@
+interface IAdminAuditLog {
+  id: number;
+  adminTelegramId: number;
+  action: string;
+  payload: string | null;
+  createdAt: Date;
+}
+
+export { IAdminAuditLog };
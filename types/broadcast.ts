@@ -0,0 +1,29 @@
+type BroadcastStatus = "sending" | "completed" | "cancelled";
+
+type BroadcastRecipientStatus = "pending" | "sent" | "failed" | "blocked";
+
+interface IBroadcast {
+  id: number;
+  adminTelegramId: number;
+  sourceChatId: number;
+  sourceMessageId: number;
+  // Только клиенты, активные за последние N дней; null — все
+  segmentDays: number | null;
+  status: BroadcastStatus;
+  total: number;
+  sent: number;
+  failed: number;
+  blocked: number;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+interface IBroadcastRecipient {
+  broadcastId: number;
+  clientTelegramId: number;
+  status: BroadcastRecipientStatus;
+  error: string | null;
+  sentAt: Date | null;
+}
+
+export { IBroadcast, IBroadcastRecipient, BroadcastStatus, BroadcastRecipientStatus };
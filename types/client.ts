@@ -1,9 +1,22 @@
+import { Locale } from "../i18n";
+
+type ClientRole = "user" | "admin";
+
+type ClientStatus = "active" | "pending" | "blocked";
+
 interface IClient {
   telegramId: number;
   username: string;
   firstName: string;
   lastName: string | null;
+  // Язык интерфейса: определяется по language_code при регистрации, меняется через /language
+  language: Locale | null;
+  role: ClientRole;
+  // Доступ к боту: pending — ждёт кода приглашения или одобрения, blocked — закрыт администратором
+  status: ClientStatus;
+  // Когда пользователь заблокировал бота; сбрасывается, как только он снова пишет
+  blockedAt: Date | null;
   createdAt: Date;
 }
 
-export { IClient };
+export { IClient, ClientRole, ClientStatus };
@@ -0,0 +1,20 @@
+type ClientEventType = "search" | "diagnosis_selected" | "section_viewed" | "question" | "error";
+
+// icd — поиск по коду МКБ-10: сообщением с кодом или командой /icd; voice — голосовое сообщение
+type ClientEventSource = "chat" | "inline" | "icd" | "voice";
+
+interface IClientEvent {
+  id: number;
+  clientTelegramId: number;
+  type: ClientEventType;
+  source: ClientEventSource;
+  query: string | null;
+  diagnosis: string | null;
+  section: string | null;
+  resultCount: number | null;
+  latencyMs: number | null;
+  error: string | null;
+  createdAt: Date;
+}
+
+export { IClientEvent, ClientEventType, ClientEventSource };
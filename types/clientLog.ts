@@ -1,8 +0,0 @@
-interface IClientLog {
-  id: number;
-  text: string;
-  createdAt: Date;
-  clientTelegramId: number;
-}
-
-export { IClientLog };
@@ -0,0 +1,24 @@
+interface ITopDiagnosis {
+  diagnosis: string;
+  count: number;
+}
+
+interface ITopSection {
+  diagnosis: string;
+  section: string;
+  count: number;
+}
+
+interface IZeroResultQuery {
+  day: string;
+  query: string;
+  count: number;
+}
+
+interface IEventCount {
+  type: string;
+  count: number;
+  averageLatencyMs: number | null;
+}
+
+export { ITopDiagnosis, ITopSection, IZeroResultQuery, IEventCount };
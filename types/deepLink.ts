@@ -0,0 +1,9 @@
+interface IDeepLink {
+  token: string;
+  diagnosis: string;
+  section: string | null;
+  clientTelegramId: number;
+  createdAt: Date;
+}
+
+export { IDeepLink };
@@ -0,0 +1,10 @@
+interface IFavorite {
+  id: number;
+  clientTelegramId: number;
+  diagnosis: string;
+  section: string | null;
+  position: number;
+  createdAt: Date;
+}
+
+export { IFavorite };
@@ -0,0 +1,10 @@
+interface IInviteCode {
+  code: string;
+  maxUses: number;
+  uses: number;
+  expiresAt: Date | null;
+  createdBy: number;
+  createdAt: Date;
+}
+
+export { IInviteCode };
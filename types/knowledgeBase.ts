@@ -0,0 +1,16 @@
+interface IDiagnosis {
+  // Идентификатор в базе знаний; для API, отдающего только названия, совпадает с названием
+  id: string;
+  name: string;
+  // Код МКБ-10, если база знаний его сообщает
+  icd: string | null;
+}
+
+interface ISection {
+  id: string;
+  title: string;
+  // Позиция раздела в клинических рекомендациях
+  order: number;
+}
+
+export { IDiagnosis, ISection };
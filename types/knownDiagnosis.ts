@@ -0,0 +1,8 @@
+// Диагноз, который хотя бы раз вернул API; из них строится локальный указатель для поиска с опечатками
+interface IKnownDiagnosis {
+  name: string;
+  icd: string | null;
+  lastSeenAt: Date;
+}
+
+export { IKnownDiagnosis };
@@ -0,0 +1,10 @@
+interface ISearchHistory {
+  id: number;
+  clientTelegramId: number;
+  query: string | null;
+  diagnosis: string | null;
+  section: string | null;
+  createdAt: Date;
+}
+
+export { ISearchHistory };
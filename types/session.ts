@@ -0,0 +1,37 @@
+// Допустимые переходы между состояниями описаны в conversation/stateMachine.ts
+type ConversationState = "idle" | "awaiting_diagnosis" | "choosing_diagnosis" | "browsing_sections" | "reading_section";
+
+type CallbackMapEntry = {
+  value: string;
+  expiresAt: number;
+};
+
+type CallbackMap = { [key: string]: CallbackMapEntry };
+
+interface UserState {
+  state?: ConversationState;
+  // Растёт при каждом переходе; кнопки с другой версией считаются устаревшими
+  stateVersion?: number;
+  diagnosis?: string;
+  messageIds?: number[];
+  callbackMap?: CallbackMap;
+  currentSection?: string;
+  currentPage?: number;
+  historyId?: number;
+  broadcastDraft?: BroadcastDraft;
+  // Распознанный текст голосового сообщения, ждущий подтверждения
+  voiceTranscript?: string;
+}
+
+interface BroadcastDraft {
+  step: "awaiting_message" | "confirm";
+  segmentDays: number | null;
+  sourceChatId?: number;
+  sourceMessageId?: number;
+}
+
+interface SessionData {
+  [userId: number]: UserState;
+}
+
+export { UserState, SessionData, BroadcastDraft, CallbackMap, CallbackMapEntry, ConversationState };
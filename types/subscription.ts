@@ -0,0 +1,30 @@
+// Подписка врача на обновления клинической рекомендации
+interface ISubscription {
+  id: number;
+  clientTelegramId: number;
+  diagnosis: string;
+  createdAt: Date;
+}
+
+// Подписчик, которому можно отправить уведомление: активный клиент, не заблокировавший бота
+interface ISubscriber {
+  subscriptionId: number;
+  clientTelegramId: number;
+  language: string | null;
+}
+
+// Последнее проверенное содержимое раздела; по хешу определяется, изменился ли раздел
+interface IGuidelineSnapshot {
+  diagnosis: string;
+  section: string;
+  contentHash: string;
+  content: string;
+}
+
+// Время последней успешной проверки рекомендации; записывается и тогда, когда видимых разделов нет
+interface IGuidelineCheck {
+  diagnosis: string;
+  checkedAt: Date;
+}
+
+export { ISubscription, ISubscriber, IGuidelineSnapshot, IGuidelineCheck };
@@ -0,0 +1,101 @@
+// Ранжирование фрагментов текста по запросу (Okapi BM25) без внешних зависимостей
+
+type BM25Options = {
+  k1: number;
+  b: number;
+};
+
+type BM25Match = {
+  index: number;
+  score: number;
+};
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+const STOP_WORDS = new Set(
+  "и в во не на с со у к по для при от до из о об а но или как что это же ли бы то the of and in for to".split(" ")
+);
+
+// Окончания в порядке убывания длины: отсекается первое подходящее
+const RUSSIAN_ENDINGS = (
+  "иями ями ами иях ого его ому ему ыми ими ах ях ой ей ий ый ая яя ое ее ие ые ую юю " +
+  "ов ев ом ем ам ям ия ию ии ть а я о е ы и у ю ь"
+).split(" ");
+
+const MIN_STEM_LENGTH = 3;
+
+// Упрощённый стеммер: «дозировка», «дозировки» и «дозировку» сводятся к одной основе
+function stem(word: string): string {
+  const lower = word.toLowerCase().replace(/ё/g, "е");
+
+  for (const ending of RUSSIAN_ENDINGS) {
+    if (lower.endsWith(ending) && lower.length - ending.length >= MIN_STEM_LENGTH) {
+      return lower.slice(0, -ending.length);
+    }
+  }
+
+  return lower;
+}
+
+function tokenize(text: string): string[] {
+  return (text.match(WORD_PATTERN) ?? [])
+    .filter((word) => word.length > 1 && !STOP_WORDS.has(word.toLowerCase()))
+    .map(stem);
+}
+
+class BM25Index {
+  private documents: Map<string, number>[];
+  private lengths: number[];
+  private averageLength: number;
+  private documentFrequency = new Map<string, number>();
+
+  constructor(
+    texts: string[],
+    private readonly options: BM25Options = { k1: 1.2, b: 0.75 }
+  ) {
+    const tokenized = texts.map(tokenize);
+
+    this.lengths = tokenized.map((tokens) => tokens.length);
+    this.averageLength = this.lengths.reduce((sum, length) => sum + length, 0) / (texts.length || 1);
+
+    this.documents = tokenized.map((tokens) => {
+      const frequencies = new Map<string, number>();
+      for (const token of tokens) frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+      return frequencies;
+    });
+
+    for (const frequencies of this.documents) {
+      for (const token of frequencies.keys()) {
+        this.documentFrequency.set(token, (this.documentFrequency.get(token) ?? 0) + 1);
+      }
+    }
+  }
+
+  search(query: string, limit: number): BM25Match[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    const { k1, b } = this.options;
+    const total = this.documents.length;
+
+    return this.documents
+      .map((frequencies, index) => {
+        const lengthNorm = 1 - b + (b * this.lengths[index]) / (this.averageLength || 1);
+
+        const score = terms.reduce((sum, term) => {
+          const frequency = frequencies.get(term);
+          if (!frequency) return sum;
+
+          const documentFrequency = this.documentFrequency.get(term) ?? 0;
+          const idf = Math.log(1 + (total - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+          return sum + (idf * frequency * (k1 + 1)) / (frequency + k1 * lengthNorm);
+        }, 0);
+
+        return { index, score };
+      })
+      .filter(({ score }) => score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+}
+
+export { BM25Index, BM25Match, BM25Options, stem, tokenize };
@@ -0,0 +1,87 @@
+// Сборка документа для скачивания: самодостаточный HTML без внешних ресурсов.
+// Открывается в любом браузере и печатается в PDF штатными средствами.
+import { escapeHTML, renderMarkdown } from "./markdownRenderer";
+
+type DocumentSection = {
+  title: string;
+  content: string;
+};
+
+type DocumentLabels = {
+  contents: string;
+  diagnosis: string;
+  date: string;
+};
+
+type ExportDocument = {
+  diagnosis: string;
+  sections: DocumentSection[];
+  labels: DocumentLabels;
+  date: string;
+  locale: string;
+};
+
+const DOCUMENT_STYLE = `
+body { font-family: Arial, sans-serif; max-width: 800px; margin: 2em auto; padding: 0 1em; line-height: 1.5; color: #222; }
+h1 { font-size: 1.6em; margin-bottom: 0.2em; }
+h2 { font-size: 1.3em; margin-top: 2em; border-bottom: 1px solid #ccc; page-break-after: avoid; }
+.meta { color: #666; margin-bottom: 2em; }
+.content { white-space: pre-wrap; }
+blockquote { border-left: 3px solid #ccc; margin: 0.5em 0; padding-left: 1em; color: #555; }
+pre { background: #f5f5f5; padding: 0.5em; overflow-x: auto; white-space: pre-wrap; }
+nav ol { padding-left: 1.5em; }
+@media print { nav a { color: inherit; text-decoration: none; } }
+`.trim();
+
+function buildDocument({ diagnosis, sections, labels, date, locale }: ExportDocument): string {
+  const title = escapeHTML(diagnosis);
+
+  // Оглавление нужно только когда в документе больше одного раздела
+  const contents =
+    sections.length > 1
+      ? `<nav>\n<h2>${escapeHTML(labels.contents)}</h2>\n<ol>\n${sections
+          .map((section, index) => `<li><a href="#section-${index + 1}">${escapeHTML(section.title)}</a></li>`)
+          .join("\n")}\n</ol>\n</nav>`
+      : "";
+
+  const body = sections
+    .map(
+      (section, index) =>
+        `<section id="section-${index + 1}">\n<h2>${escapeHTML(section.title)}</h2>\n` +
+        `<div class="content">${renderMarkdown(section.content)}</div>\n</section>`
+    )
+    .join("\n");
+
+  return [
+    "<!DOCTYPE html>",
+    `<html lang="${escapeHTML(locale)}">`,
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>\n${DOCUMENT_STYLE}\n</style>`,
+    "</head>",
+    "<body>",
+    `<h1>${title}</h1>`,
+    `<div class="meta">${escapeHTML(labels.diagnosis)}: ${title}<br>${escapeHTML(labels.date)}: ${escapeHTML(date)}</div>`,
+    contents,
+    body,
+    "</body>",
+    "</html>",
+  ]
+    .filter(Boolean)
+    .join("\n");
+}
+
+// Имя файла без символов, которые запрещены в файловых системах или ломают заголовки
+function buildDocumentFileName(...parts: string[]): string {
+  const name = parts
+    .join(" - ")
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 100);
+
+  return `${name || "document"}.html`;
+}
+
+export { DocumentLabels, DocumentSection, ExportDocument, buildDocument, buildDocumentFileName };
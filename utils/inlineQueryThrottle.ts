@@ -0,0 +1,54 @@
+type InlineQueryThrottleOptions = {
+  // Пауза в наборе, после которой запрос уходит в API, мс
+  debounce: number;
+  // Не больше limit запросов к API за window мс на пользователя
+  limit: number;
+  window: number;
+};
+
+// Пользователи без запросов за последнее окно ничем не отличаются от отсутствующих, поэтому их можно выбрасывать
+const PRUNE_THRESHOLD = 10000;
+
+class InlineQueryThrottle {
+  private latest = new Map<number, number>();
+  private requests = new Map<number, number[]>();
+
+  constructor(private readonly options: InlineQueryThrottleOptions) {}
+
+  // Возвращает false, если за время ожидания пользователь набрал более новый запрос
+  async debounce(userId: number): Promise<boolean> {
+    const sequence = (this.latest.get(userId) ?? 0) + 1;
+    this.latest.set(userId, sequence);
+
+    await new Promise((resolve) => setTimeout(resolve, this.options.debounce));
+
+    if (this.latest.get(userId) !== sequence) return false;
+
+    this.latest.delete(userId);
+    return true;
+  }
+
+  tryAcquire(userId: number): boolean {
+    const now = Date.now();
+    const recent = (this.requests.get(userId) ?? []).filter((time) => now - time < this.options.window);
+
+    if (this.requests.size >= PRUNE_THRESHOLD) this.prune(now);
+
+    if (recent.length >= this.options.limit) {
+      this.requests.set(userId, recent);
+      return false;
+    }
+
+    recent.push(now);
+    this.requests.set(userId, recent);
+    return true;
+  }
+
+  private prune(now: number): void {
+    for (const [userId, times] of this.requests) {
+      if (times.every((time) => now - time >= this.options.window)) this.requests.delete(userId);
+    }
+  }
+}
+
+export { InlineQueryThrottle, InlineQueryThrottleOptions };
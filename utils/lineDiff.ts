@@ -0,0 +1,94 @@
+// Построчное сравнение двух версий текста раздела: сколько строк добавлено и удалено и какие именно
+
+type DiffLine = { type: "added" | "removed"; text: string };
+
+type DiffPreview = {
+  lines: string[];
+  // Изменённые строки, не попавшие в превью
+  hidden: number;
+};
+
+// Таблица LCS квадратична по памяти; для огромных правок хватает «всё удалено, всё добавлено»
+const MAX_LCS_CELLS = 1000000;
+
+// Пустые строки и пробелы в конце строк не считаются изменением: API меняет их при переформатировании
+function splitLines(text: string): string[] {
+  return text
+    .split("\n")
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim());
+}
+
+// Изменённые строки по порядку, удалённая — перед заменившей её; общие начало и конец не сравниваются
+function diffLines(before: string, after: string): DiffLine[] {
+  const left = splitLines(before);
+  const right = splitLines(after);
+
+  let start = 0;
+  while (start < left.length && start < right.length && left[start] === right[start]) start++;
+
+  let leftEnd = left.length;
+  let rightEnd = right.length;
+  while (leftEnd > start && rightEnd > start && left[leftEnd - 1] === right[rightEnd - 1]) {
+    leftEnd--;
+    rightEnd--;
+  }
+
+  const removed = left.slice(start, leftEnd);
+  const added = right.slice(start, rightEnd);
+
+  if (removed.length * added.length > MAX_LCS_CELLS) {
+    return [
+      ...removed.map((text): DiffLine => ({ type: "removed", text })),
+      ...added.map((text): DiffLine => ({ type: "added", text })),
+    ];
+  }
+
+  return diffMiddle(removed, added);
+}
+
+// lengths[i][j] — длина общей подпоследовательности хвостов a[i..] и b[j..]
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const width = b.length + 1;
+  const lengths = new Uint32Array((a.length + 1) * width);
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i * width + j] =
+        a[i] === b[j]
+          ? lengths[(i + 1) * width + j + 1] + 1
+          : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      i++;
+      j++;
+    } else if (i < a.length && (j === b.length || lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])) {
+      result.push({ type: "removed", text: a[i++] });
+    } else {
+      result.push({ type: "added", text: b[j++] });
+    }
+  }
+
+  return result;
+}
+
+// Первые изменённые строки с пометками «+» и «−»; длинные строки обрезаются
+function formatDiffPreview(diff: DiffLine[], maxLines: number, maxLineLength: number): DiffPreview {
+  const lines = diff.slice(0, maxLines).map(({ type, text }) => {
+    const line = text.trim();
+    const shortened = line.length > maxLineLength ? `${line.slice(0, maxLineLength - 1)}…` : line;
+
+    return `${type === "added" ? "+" : "−"} ${shortened}`;
+  });
+
+  return { lines, hidden: Math.max(diff.length - maxLines, 0) };
+}
+
+export { DiffLine, DiffPreview, diffLines, formatDiffPreview };
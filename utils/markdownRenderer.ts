@@ -0,0 +1,178 @@
+// Преобразование Markdown из базы знаний в HTML, который принимает Telegram
+// (b, i, s, code, pre, a, blockquote), и в простой текст на случай ошибки разбора.
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)\s*#*$/;
+const BULLET_PATTERN = /^(\s*)[-*+]\s+(.*)$/;
+const ORDERED_PATTERN = /^(\s*)(\d+)[.)]\s+(.*)$/;
+const QUOTE_PATTERN = /^>\s?(.*)$/;
+const RULE_PATTERN = /^\s*([-*_])(\s*\1){2,}\s*$/;
+const FENCE_PATTERN = /^\s*```\s*([\w+-]*)\s*$/;
+const TABLE_ROW_PATTERN = /^\s*\|.*\|\s*$/;
+const TABLE_SEPARATOR_PATTERN = /^\s*\|?(\s*:?-+:?\s*\|)+\s*(:?-+:?\s*)?$/;
+
+// Таблица шире этого значения не помещается на экране телефона и выводится списком
+const MAX_TABLE_WIDTH = 40;
+
+function escapeHTML(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function renderInline(text: string): string {
+  const placeholders: string[] = [];
+  const hold = (html: string) => `\u0000${placeholders.push(html) - 1}\u0000`;
+
+  let result = text
+    .replace(/`([^`\n]+)`/g, (_, code) => hold(`<code>${escapeHTML(code)}</code>`))
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, (_, label, url) =>
+      hold(`<a href="${escapeHTML(url)}">${renderInline(label)}</a>`)
+    );
+
+  result = escapeHTML(result)
+    .replace(/\*\*(?=\S)([^\n]*?\S)\*\*/g, "<b>$1</b>")
+    .replace(/(^|[^\p{L}\p{N}_])__(?=\S)([^\n]*?\S)__(?![\p{L}\p{N}])/gu, "$1<b>$2</b>")
+    .replace(/~~(?=\S)([^\n~]*?\S)~~/g, "<s>$1</s>")
+    .replace(/(^|[^*])\*(?=[^\s*])([^*<>\n]*?[^\s*<>])\*(?!\*)/g, "$1<i>$2</i>")
+    .replace(/(^|[^\p{L}\p{N}_])_(?=\S)([^_<>\n]*?\S)_(?![\p{L}\p{N}_])/gu, "$1<i>$2</i>");
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, index) => placeholders[Number(index)]);
+}
+
+function stripInline(text: string): string {
+  return text
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/\[([^\]]+)\]\(([^)\s]+)\)/g, "$1 ($2)")
+    .replace(/\*\*(?=\S)([^\n]*?\S)\*\*/g, "$1")
+    .replace(/(^|[^\p{L}\p{N}_])__(?=\S)([^\n]*?\S)__(?![\p{L}\p{N}])/gu, "$1$2")
+    .replace(/~~(?=\S)([^\n~]*?\S)~~/g, "$1")
+    .replace(/(^|[^*])\*(?=[^\s*])([^*\n]*?[^\s*])\*(?!\*)/g, "$1$2")
+    .replace(/(^|[^\p{L}\p{N}_])_(?=\S)([^_\n]*?\S)_(?![\p{L}\p{N}_])/gu, "$1$2");
+}
+
+function parseTableRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => stripInline(cell.trim()));
+}
+
+function renderTable(rows: string[]): string {
+  const cells = rows.filter((row) => !TABLE_SEPARATOR_PATTERN.test(row)).map(parseTableRow);
+  const columns = Math.max(...cells.map((row) => row.length));
+  const widths = Array.from({ length: columns }, (_, column) =>
+    Math.max(...cells.map((row) => (row[column] ?? "").length))
+  );
+
+  const totalWidth = widths.reduce((sum, width) => sum + width, 0) + (columns - 1) * 3;
+
+  if (totalWidth <= MAX_TABLE_WIDTH) {
+    const lines = cells.map((row) =>
+      widths
+        .map((width, column) => (row[column] ?? "").padEnd(width))
+        .join(" | ")
+        .trimEnd()
+    );
+    return `<pre>${escapeHTML(lines.join("\n"))}</pre>`;
+  }
+
+  // Широкая таблица: каждая строка данных — блок «заголовок: значение»
+  const [header, ...body] = cells;
+  return body
+    .map((row) =>
+      row
+        .map((cell, column) =>
+          header[column] ? `<b>${escapeHTML(header[column])}:</b> ${escapeHTML(cell)}` : escapeHTML(cell)
+        )
+        .join("\n")
+    )
+    .join("\n\n");
+}
+
+function renderMarkdown(markdown: string): string {
+  const lines = markdown.replace(/\r\n?/g, "\n").split("\n");
+  const output: string[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    const fence = line.match(FENCE_PATTERN);
+    if (fence) {
+      const code: string[] = [];
+      while (++i < lines.length && !FENCE_PATTERN.test(lines[i])) code.push(lines[i]);
+
+      const body = escapeHTML(code.join("\n"));
+      output.push(fence[1] ? `<pre><code class="language-${fence[1]}">${body}</code></pre>` : `<pre>${body}</pre>`);
+      continue;
+    }
+
+    if (TABLE_ROW_PATTERN.test(line)) {
+      const rows = [line];
+      while (i + 1 < lines.length && TABLE_ROW_PATTERN.test(lines[i + 1])) rows.push(lines[++i]);
+      output.push(renderTable(rows));
+      continue;
+    }
+
+    if (QUOTE_PATTERN.test(line)) {
+      const quote = [line.replace(QUOTE_PATTERN, "$1")];
+      while (i + 1 < lines.length && QUOTE_PATTERN.test(lines[i + 1])) {
+        quote.push(lines[++i].replace(QUOTE_PATTERN, "$1"));
+      }
+      output.push(`<blockquote>${quote.map(renderInline).join("\n")}</blockquote>`);
+      continue;
+    }
+
+    const heading = line.match(HEADING_PATTERN);
+    if (heading) {
+      output.push(`<b>${renderInline(heading[1])}</b>`);
+      continue;
+    }
+
+    if (RULE_PATTERN.test(line)) {
+      output.push("──────────");
+      continue;
+    }
+
+    const bullet = line.match(BULLET_PATTERN);
+    if (bullet) {
+      output.push(`${" ".repeat(bullet[1].length)}• ${renderInline(bullet[2])}`);
+      continue;
+    }
+
+    const ordered = line.match(ORDERED_PATTERN);
+    if (ordered) {
+      output.push(`${" ".repeat(ordered[1].length)}${ordered[2]}. ${renderInline(ordered[3])}`);
+      continue;
+    }
+
+    output.push(renderInline(line));
+  }
+
+  return output
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+function toPlainText(markdown: string): string {
+  return markdown
+    .replace(/\r\n?/g, "\n")
+    .split("\n")
+    .filter((line) => !FENCE_PATTERN.test(line) && !TABLE_SEPARATOR_PATTERN.test(line))
+    .map((line) => {
+      if (TABLE_ROW_PATTERN.test(line)) return parseTableRow(line).join(" | ");
+
+      const heading = line.match(HEADING_PATTERN);
+      if (heading) return stripInline(heading[1]);
+
+      const bullet = line.match(BULLET_PATTERN);
+      if (bullet) return `${bullet[1]}• ${stripInline(bullet[2])}`;
+
+      return stripInline(line.replace(QUOTE_PATTERN, "$1"));
+    })
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export { escapeHTML, renderMarkdown, toPlainText };
@@ -0,0 +1,193 @@
+// Разбивка длинного Markdown-текста на страницы для сообщений Telegram.
+// Текст режется по заголовкам и абзацам, затем по строкам и словам; ссылки не разрываются,
+// а незакрытые на границе страницы сущности (*, **, _, __, `, ```) закрываются и открываются заново.
+
+const HEADING_PATTERN = /^#{1,6}\s/;
+const LINK_PATTERN = /\[[^\]]*\]\([^)]*\)/g;
+
+// Запас под закрывающие и открывающие маркеры сущностей
+const ENTITY_RESERVE = 16;
+// Меньше этого страница не ужимается, даже если итоговый текст всё ещё длиннее лимита
+const MIN_PAGE_LIMIT = 256;
+
+function isHeading(block: string): boolean {
+  return HEADING_PATTERN.test(block);
+}
+
+function splitBlocks(text: string): string[] {
+  const blocks: string[] = [];
+
+  for (const paragraph of text.split(/\n{2,}/)) {
+    let current: string[] = [];
+
+    for (const line of paragraph.split("\n")) {
+      if (isHeading(line) && current.length) {
+        blocks.push(current.join("\n"));
+        current = [];
+      }
+      current.push(line);
+    }
+
+    if (current.length) blocks.push(current.join("\n"));
+  }
+
+  return blocks.map((block) => block.trim()).filter(Boolean);
+}
+
+// Слова вместе с пробелами после них; ссылка с пробелами внутри считается одним словом
+function splitWords(line: string): string[] {
+  const links: string[] = [];
+  const masked = line.replace(LINK_PATTERN, (link) => {
+    links.push(link);
+    return `\u0000${links.length - 1}\u0000`;
+  });
+
+  return (masked.match(/\S+\s*|\s+/g) || []).map((word) =>
+    word.replace(/\u0000(\d+)\u0000/g, (_, index) => links[Number(index)])
+  );
+}
+
+function hardSplit(word: string, limit: number): string[] {
+  const pieces: string[] = [];
+  for (let i = 0; i < word.length; i += limit) {
+    pieces.push(word.slice(i, i + limit));
+  }
+  return pieces;
+}
+
+// Блок длиннее страницы режется на куски по строкам, а строки — по словам
+function splitOversized(block: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let current = "";
+
+  const push = (part: string, separator: string) => {
+    if (current && current.length + separator.length + part.length > limit) {
+      pieces.push(current);
+      current = "";
+    }
+    current = current ? current + separator + part : part;
+  };
+
+  for (const line of block.split("\n")) {
+    if (line.length <= limit) {
+      push(line, "\n");
+      continue;
+    }
+
+    if (current) {
+      pieces.push(current);
+      current = "";
+    }
+
+    for (const word of splitWords(line)) {
+      for (const part of word.length > limit ? hardSplit(word, limit) : [word]) {
+        push(part, "");
+      }
+    }
+  }
+
+  if (current) pieces.push(current);
+  return pieces.map((piece) => piece.trim()).filter(Boolean);
+}
+
+const WORD_CHAR_PATTERN = /[\p{L}\p{N}]/u;
+
+// Возвращает маркеры сущностей, оставшихся открытыми в конце фрагмента
+function findOpenEntities(text: string): string[] {
+  const open: string[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const top = open[open.length - 1];
+
+    if (text.startsWith("```", i)) {
+      top === "```" ? open.pop() : open.push("```");
+      i += 2;
+      continue;
+    }
+
+    if (top === "```") continue;
+
+    const char = text[i];
+
+    if (char === "\\") {
+      i++;
+      continue;
+    }
+
+    if (char === "`") {
+      top === "`" ? open.pop() : open.push("`");
+      continue;
+    }
+
+    if (top === "`" || (char !== "*" && char !== "_")) continue;
+
+    const marker = text[i + 1] === char ? char + char : char;
+    i += marker.length - 1;
+
+    // snake_case и подобное внутри слова сущностью не считается
+    const inWord = WORD_CHAR_PATTERN.test(text[i - marker.length] ?? "") && WORD_CHAR_PATTERN.test(text[i + 1] ?? "");
+    if (inWord && top !== marker) continue;
+
+    top === marker ? open.pop() : open.push(marker);
+  }
+
+  return open;
+}
+
+function balanceEntities(pages: string[]): string[] {
+  let carried: string[] = [];
+
+  return pages.map((page) => {
+    const opening = carried.map((marker) => (marker === "```" ? "```\n" : marker)).join("");
+    const text = opening + page;
+    carried = findOpenEntities(text);
+
+    const closing = [...carried]
+      .reverse()
+      .map((marker) => (marker === "```" ? "\n```" : marker))
+      .join("");
+
+    return text + closing;
+  });
+}
+
+function splitPages(text: string, pageLimit: number): string[] {
+  const blocks = splitBlocks(text).flatMap((block) =>
+    block.length > pageLimit ? splitOversized(block, pageLimit) : [block]
+  );
+
+  const pages: string[] = [];
+  let current = "";
+
+  blocks.forEach((block, index) => {
+    const next = blocks[index + 1];
+    // Заголовок переносится на новую страницу вместе с первым абзацем после него
+    const needed = isHeading(block) && next ? block.length + 2 + next.length : block.length;
+
+    if (current && current.length + 2 + Math.min(needed, pageLimit) > pageLimit) {
+      pages.push(current);
+      current = "";
+    }
+
+    current = current ? `${current}\n\n${block}` : block;
+  });
+
+  if (current) pages.push(current);
+  return pages.length ? pages : [""];
+}
+
+// measure — длина страницы в том виде, в каком она уйдёт в Telegram (например, после рендеринга в HTML).
+// Если какая-то страница вместе с маркерами не уложилась в limit, текст разбивается заново на страницы короче
+function paginate(text: string, limit: number, measure: (page: string) => number = (page) => page.length): string[] {
+  let pageLimit = limit - ENTITY_RESERVE;
+
+  for (;;) {
+    const pages = balanceEntities(splitPages(text, pageLimit));
+    const overflow = Math.max(...pages.map((page) => measure(page) - limit));
+    if (overflow <= 0 || pageLimit <= MIN_PAGE_LIMIT) return pages;
+
+    pageLimit = Math.max(pageLimit - Math.max(overflow, Math.ceil(pageLimit / 10)), MIN_PAGE_LIMIT);
+  }
+}
+
+export { paginate };
@@ -0,0 +1,37 @@
+// Названия разделов приходят из базы знаний по-русски. Логика бота (сортировка, скрытые разделы,
+// перевод подписей) опирается на ключи, чтобы не зависеть от текста и языка интерфейса.
+
+type SectionKey = "diagnostics" | "treatment" | "icd";
+
+const SECTION_KEYS: Record<string, SectionKey> = {
+  Диагностика: "diagnostics",
+  Лечение: "treatment",
+  МКБ: "icd",
+};
+
+// Показываются первыми, порядок между ними — как в ответе API
+const PRIORITY_SECTIONS: SectionKey[] = ["diagnostics", "treatment"];
+
+// Служебные разделы, которых нет в списке для пользователя
+const HIDDEN_SECTIONS: SectionKey[] = ["icd"];
+
+function getSectionKey(title: string): SectionKey | null {
+  return SECTION_KEYS[title] ?? null;
+}
+
+function isHiddenSection(title: string): boolean {
+  const key = getSectionKey(title);
+  return key !== null && HIDDEN_SECTIONS.includes(key);
+}
+
+// Стабильная сортировка: приоритетные разделы вперёд, остальные в исходном порядке
+function sortSections(sections: string[]): string[] {
+  const priority = (title: string) => {
+    const key = getSectionKey(title);
+    return key !== null && PRIORITY_SECTIONS.includes(key) ? 0 : 1;
+  };
+
+  return [...sections].sort((a, b) => priority(a) - priority(b));
+}
+
+export { SectionKey, getSectionKey, isHiddenSection, sortSections };
@@ -0,0 +1,75 @@
+import { BM25Index, stem, tokenize } from "./bm25";
+import { escapeHTML, toPlainText } from "./markdownRenderer";
+
+type SectionDocument = {
+  section: string;
+  content: string;
+};
+
+type SectionMatch = {
+  section: string;
+  // Фрагмент абзаца в HTML, слова из вопроса выделены жирным
+  snippet: string;
+  score: number;
+};
+
+// Абзацы короче этого — обычно заголовки или подписи, отвечать ими бессмысленно
+const MIN_PARAGRAPH_LENGTH = 40;
+const SNIPPET_LENGTH = 300;
+
+function splitParagraphs(document: SectionDocument): SectionDocument[] {
+  return document.content
+    .replace(/\r\n?/g, "\n")
+    .split(/\n\s*\n/)
+    .map((paragraph) => toPlainText(paragraph))
+    .filter((paragraph) => paragraph.length >= MIN_PARAGRAPH_LENGTH)
+    .map((paragraph) => ({ section: document.section, content: paragraph }));
+}
+
+// Окно вокруг первого совпадения, обрезанное по границам слов
+function cutSnippet(text: string, stems: Set<string>): string {
+  if (text.length <= SNIPPET_LENGTH) return text;
+
+  const words = Array.from(text.matchAll(/[\p{L}\p{N}]+/gu));
+  const first = words.find((word) => stems.has(stem(word[0])));
+  const position = first?.index ?? 0;
+
+  let start = Math.max(0, position - Math.floor(SNIPPET_LENGTH / 3));
+  let end = Math.min(text.length, start + SNIPPET_LENGTH);
+  start = Math.max(0, end - SNIPPET_LENGTH);
+
+  if (start > 0) start = text.indexOf(" ", start) + 1 || start;
+  if (end < text.length) end = text.lastIndexOf(" ", end) > start ? text.lastIndexOf(" ", end) : end;
+
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+}
+
+function highlight(text: string, stems: Set<string>): string {
+  return text
+    .split(/([\p{L}\p{N}]+)/u)
+    .map((part, index) => {
+      const escaped = escapeHTML(part);
+      return index % 2 === 1 && stems.has(stem(part)) ? `<b>${escaped}</b>` : escaped;
+    })
+    .join("");
+}
+
+function searchSections(documents: SectionDocument[], question: string, limit: number): SectionMatch[] {
+  const paragraphs = documents.flatMap(splitParagraphs);
+  const stems = new Set(tokenize(question));
+  if (!paragraphs.length || !stems.size) return [];
+
+  const index = new BM25Index(paragraphs.map((paragraph) => paragraph.content));
+
+  return index.search(question, limit).map(({ index: paragraphIndex, score }) => {
+    const paragraph = paragraphs[paragraphIndex];
+
+    return {
+      section: paragraph.section,
+      snippet: highlight(cutSnippet(paragraph.content, stems), stems),
+      score,
+    };
+  });
+}
+
+export { SectionDocument, SectionMatch, searchSections };